@@ -0,0 +1,61 @@
+// BrushPreset.ts
+/**
+ * Pressure response of MeshBrush, per named preset.
+ *
+ * Pressure (0..1) comes from the controller's analog trigger or from how far
+ * the tip pushed past the surface (MeshBrush.pressureSource). Each preset maps
+ * it through one curve for the dab size and one for its opacity; both give a
+ * factor applied to brushRadiusPx / brushWorldRadius and brushColor's alpha.
+ */
+
+/** factor = min + (max - min) * pressure^gamma */
+export type PressureCurve = {
+  /** Factor at zero pressure. */
+  min: number;
+  /** Factor at full pressure. */
+  max: number;
+  /** 1 = linear, > 1 = needs a firm press, < 1 = responds to a light touch. */
+  gamma: number;
+};
+
+export type BrushPreset = {
+  name: string;
+  size: PressureCurve;
+  opacity: PressureCurve;
+};
+
+const CONSTANT: PressureCurve = { min: 1, max: 1, gamma: 1 };
+
+/** Built-in presets, in the order of MeshBrush's `preset` enum. */
+export const BRUSH_PRESETS: BrushPreset[] = [
+  // thin to full width, always opaque
+  { name: 'round', size: { min: 0.2, max: 1, gamma: 1 }, opacity: CONSTANT },
+  // fixed width, shading builds up with pressure
+  {
+    name: 'pencil',
+    size: { min: 0.8, max: 1, gamma: 1 },
+    opacity: { min: 0.1, max: 1, gamma: 1.5 },
+  },
+  // quick swell from a hairline
+  { name: 'ink', size: { min: 0.05, max: 1, gamma: 0.6 }, opacity: CONSTANT },
+  // soft, translucent coats that need a firm press
+  {
+    name: 'airbrush',
+    size: { min: 0.6, max: 1.2, gamma: 1 },
+    opacity: { min: 0, max: 0.5, gamma: 2 },
+  },
+];
+
+export function applyPressureCurve(curve: PressureCurve, pressure: number) {
+  const p = Math.min(Math.max(pressure, 0), 1);
+  return curve.min + (curve.max - curve.min) * Math.pow(p, curve.gamma);
+}
+
+/** Deep copy, so presets can be edited per brush without touching the built-ins. */
+export function clonePreset(preset: BrushPreset): BrushPreset {
+  return {
+    name: preset.name,
+    size: { ...preset.size },
+    opacity: { ...preset.opacity },
+  };
+}
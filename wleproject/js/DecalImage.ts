@@ -0,0 +1,51 @@
+// DecalImage.ts
+/**
+ * Image sources for MeshPaintable.projectDecal.
+ *
+ * Accepts URLs (including data URLs, e.g. the camera frame CanvasAIChat
+ * stores in `popupImage` after `_captureOnce`) and local files picked through
+ * a hidden file input.
+ */
+
+export type DecalImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/** Decodes a URL / data URL or a Blob (File) into something drawable. */
+export async function loadDecalImage(
+  source: string | Blob,
+): Promise<DecalImage> {
+  if (typeof source !== 'string') return createImageBitmap(source);
+  const img = new Image();
+  // remote images must allow CORS or the canvas is tainted and getImageData throws
+  img.crossOrigin = 'anonymous';
+  img.src = source;
+  await img.decode();
+  return img;
+}
+
+/** Opens the browser file picker for one image. Resolves null when cancelled. */
+export function pickImageFile(): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.style.display = 'none';
+    input.addEventListener('change', () => {
+      resolve(input.files?.[0] ?? null);
+      input.remove();
+    });
+    input.addEventListener('cancel', () => {
+      resolve(null);
+      input.remove();
+    });
+    document.body.appendChild(input);
+    input.click();
+  });
+}
+
+/** Width and height of a decoded decal image. */
+export function decalImageSize(image: DecalImage): [number, number] {
+  if (image instanceof HTMLImageElement) {
+    return [image.naturalWidth, image.naturalHeight];
+  }
+  return [image.width, image.height];
+}
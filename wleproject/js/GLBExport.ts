@@ -0,0 +1,354 @@
+// GLBExport.ts
+/**
+ * Minimal binary glTF 2.0 writer for painted meshes.
+ *
+ * Produces a root node with one child node per part, each with its own
+ * mesh/primitive (POSITION, NORMAL, TEXCOORD_0, optional COLOR_0, uint32
+ * indices) and PBR
+ * material whose base color texture is the embedded PNG (and, when given, its
+ * metallicRoughness and normal textures). The result loads in any glTF 2.0
+ * loader, including `engine.loadGLTF`.
+ */
+
+export type GLBMeshData = {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  // glTF convention: v = 0 is the top row of the image
+  uvs: Float32Array;
+  // RGBA per vertex (0..1), written as COLOR_0
+  colors?: Float32Array | null;
+  indices: Uint32Array;
+};
+
+/** PNG-encoded material textures; all share TEXCOORD_0. */
+export type GLBMaterialImages = {
+  baseColor: Uint8Array;
+  // glTF layout: G = roughness, B = metallic
+  metallicRoughness?: Uint8Array;
+  // tangent space, +Z towards the viewer
+  normal?: Uint8Array;
+};
+
+/** One painted surface of a scene: a child node of the root. */
+export type GLBPart = {
+  name: string;
+  mesh: GLBMeshData;
+  images: GLBMaterialImages;
+  // column-major 4x4 transform relative to the root node (identity if omitted)
+  matrix?: ArrayLike<number>;
+};
+
+export type GLBExportOptions = {
+  name?: string;
+  doubleSided?: boolean;
+};
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const CHUNK_BIN = 0x004e4942; // 'BIN\0'
+
+// the slices of the glTF JSON schema written here
+type GLTFAccessor = {
+  bufferView: number;
+  componentType: number;
+  count: number;
+  type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4';
+  min?: number[];
+  max?: number[];
+};
+
+type GLTFBufferView = {
+  buffer: number;
+  byteOffset: number;
+  byteLength: number;
+  target?: number;
+};
+
+type GLTFTextureInfo = { index: number };
+
+type GLTFMaterial = {
+  name: string;
+  doubleSided: boolean;
+  pbrMetallicRoughness: {
+    baseColorTexture: GLTFTextureInfo;
+    metallicFactor: number;
+    roughnessFactor: number;
+    metallicRoughnessTexture?: GLTFTextureInfo;
+  };
+  normalTexture?: GLTFTextureInfo;
+};
+
+type GLTFMesh = {
+  name: string;
+  primitives: {
+    attributes: Record<string, number>;
+    indices: number;
+    material: number;
+  }[];
+};
+
+type GLTFNode = {
+  name: string;
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+};
+
+// glTF enums
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const LINEAR = 9729;
+const LINEAR_MIPMAP_LINEAR = 9987;
+const CLAMP_TO_EDGE = 33071;
+
+export function encodeGLB(
+  mesh: GLBMeshData,
+  images: GLBMaterialImages,
+  options: GLBExportOptions = {},
+): ArrayBuffer {
+  const name = options.name ?? 'painted';
+  return encodeGLBScene([{ name, mesh, images }], options);
+}
+
+/** Encodes several parts as children of one root node named `options.name`. */
+export function encodeGLBScene(
+  parts: GLBPart[],
+  options: GLBExportOptions = {},
+): ArrayBuffer {
+  // binary layout: every view starts 4-byte aligned
+  const views: { data: Uint8Array; target?: number }[] = [];
+  let binLength = 0;
+  const addView = (data: ArrayBufferView, target?: number) => {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    views.push({ data: bytes, target });
+    binLength = align4(binLength) + bytes.byteLength;
+    return views.length - 1;
+  };
+  const accessors: GLTFAccessor[] = [];
+  const addAccessor = (accessor: GLTFAccessor) => accessors.push(accessor) - 1;
+
+  // texture i samples image i
+  const pngs: Uint8Array[] = [];
+  const textureInfo = (png?: Uint8Array) => {
+    if (!png) return undefined;
+    pngs.push(png);
+    return { index: pngs.length - 1 };
+  };
+
+  const nodes: GLTFNode[] = [
+    { name: options.name ?? 'painted', children: parts.map((_, i) => i + 1) },
+  ];
+  const meshes: GLTFMesh[] = [];
+  const materials: GLTFMaterial[] = [];
+  for (const part of parts) {
+    const { mesh, images } = part;
+    const vertexCount = mesh.positions.length / 3;
+    const [min, max] = bounds(mesh.positions);
+    const attributes: Record<string, number> = {
+      POSITION: addAccessor({
+        bufferView: addView(mesh.positions, ARRAY_BUFFER),
+        componentType: FLOAT,
+        count: vertexCount,
+        type: 'VEC3',
+        min,
+        max,
+      }),
+    };
+    if (mesh.normals) {
+      attributes.NORMAL = addAccessor({
+        bufferView: addView(mesh.normals, ARRAY_BUFFER),
+        componentType: FLOAT,
+        count: vertexCount,
+        type: 'VEC3',
+      });
+    }
+    attributes.TEXCOORD_0 = addAccessor({
+      bufferView: addView(mesh.uvs, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: vertexCount,
+      type: 'VEC2',
+    });
+    if (mesh.colors) {
+      attributes.COLOR_0 = addAccessor({
+        bufferView: addView(mesh.colors, ARRAY_BUFFER),
+        componentType: FLOAT,
+        count: vertexCount,
+        type: 'VEC4',
+      });
+    }
+    const indices = addAccessor({
+      bufferView: addView(mesh.indices, ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: mesh.indices.length,
+      type: 'SCALAR',
+    });
+
+    const baseColorTexture = textureInfo(images.baseColor)!;
+    const metallicRoughnessTexture = textureInfo(images.metallicRoughness);
+    const normalTexture = textureInfo(images.normal);
+    materials.push({
+      name: `${part.name}-paint`,
+      doubleSided: options.doubleSided ?? false,
+      pbrMetallicRoughness: {
+        baseColorTexture,
+        // a metallicRoughnessTexture is scaled by the factors
+        metallicFactor: metallicRoughnessTexture ? 1 : 0,
+        roughnessFactor: 1,
+        ...(metallicRoughnessTexture && { metallicRoughnessTexture }),
+      },
+      ...(normalTexture && { normalTexture }),
+    });
+    meshes.push({
+      name: part.name,
+      primitives: [{ attributes, indices, material: materials.length - 1 }],
+    });
+    nodes.push({
+      name: part.name,
+      mesh: meshes.length - 1,
+      ...(part.matrix && { matrix: Array.from(part.matrix) }),
+    });
+  }
+  const imageViews = pngs.map((png) => addView(png));
+  binLength = align4(binLength);
+
+  let offset = 0;
+  const bufferViews = views.map((v) => {
+    offset = align4(offset);
+    const view: GLTFBufferView = {
+      buffer: 0,
+      byteOffset: offset,
+      byteLength: v.data.byteLength,
+    };
+    if (v.target !== undefined) view.target = v.target;
+    offset += v.data.byteLength;
+    return view;
+  });
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'ENSO MeshPaintable' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes,
+    meshes,
+    materials,
+    textures: pngs.map((_, i) => ({ sampler: 0, source: i })),
+    samplers: [
+      {
+        magFilter: LINEAR,
+        minFilter: LINEAR_MIPMAP_LINEAR,
+        wrapS: CLAMP_TO_EDGE,
+        wrapT: CLAMP_TO_EDGE,
+      },
+    ],
+    images: imageViews.map((bufferView) => ({
+      bufferView,
+      mimeType: 'image/png',
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: binLength }],
+  };
+
+  // JSON chunk is padded with spaces, BIN chunk with zeros
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = align4(jsonBytes.byteLength);
+  const total = 12 + 8 + jsonLength + 8 + binLength;
+
+  const out = new ArrayBuffer(total);
+  const dv = new DataView(out);
+  const u8 = new Uint8Array(out);
+  dv.setUint32(0, GLB_MAGIC, true);
+  dv.setUint32(4, 2, true);
+  dv.setUint32(8, total, true);
+
+  dv.setUint32(12, jsonLength, true);
+  dv.setUint32(16, CHUNK_JSON, true);
+  u8.set(jsonBytes, 20);
+  u8.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength);
+
+  const binStart = 20 + jsonLength;
+  dv.setUint32(binStart, binLength, true);
+  dv.setUint32(binStart + 4, CHUNK_BIN, true);
+  for (let i = 0; i < views.length; i++) {
+    u8.set(views[i].data, binStart + 8 + bufferViews[i].byteOffset);
+  }
+
+  return out;
+}
+
+/** Area-weighted smooth vertex normals for an indexed triangle list. */
+export function computeVertexNormals(
+  positions: Float32Array,
+  indices: ArrayLike<number>,
+): Float32Array {
+  const normals = new Float32Array(positions.length);
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i] * 3,
+      b = indices[i + 1] * 3,
+      c = indices[i + 2] * 3;
+    const abx = positions[b] - positions[a],
+      aby = positions[b + 1] - positions[a + 1],
+      abz = positions[b + 2] - positions[a + 2];
+    const acx = positions[c] - positions[a],
+      acy = positions[c + 1] - positions[a + 1],
+      acz = positions[c + 2] - positions[a + 2];
+    // unnormalized cross product = 2 * area * face normal
+    const nx = aby * acz - abz * acy,
+      ny = abz * acx - abx * acz,
+      nz = abx * acy - aby * acx;
+    for (const v of [a, b, c]) {
+      normals[v] += nx;
+      normals[v + 1] += ny;
+      normals[v + 2] += nz;
+    }
+  }
+  for (let i = 0; i < normals.length; i += 3) {
+    const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (len > 0) {
+      normals[i] /= len;
+      normals[i + 1] /= len;
+      normals[i + 2] /= len;
+    } else {
+      normals[i + 1] = 1;
+    }
+  }
+  return normals;
+}
+
+/** Triggers a browser download for a binary buffer. */
+export function downloadBinary(
+  data: ArrayBuffer,
+  filename: string,
+  mimeType = 'model/gltf-binary',
+) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function align4(n: number) {
+  return (n + 3) & ~3;
+}
+
+function bounds(positions: Float32Array): [number[], number[]] {
+  if (positions.length === 0)
+    return [new Array(3).fill(0), new Array(3).fill(0)];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const p = positions[i + k];
+      if (p < min[k]) min[k] = p;
+      if (p > max[k]) max[k] = p;
+    }
+  }
+  return [min, max];
+}
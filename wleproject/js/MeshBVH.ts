@@ -0,0 +1,418 @@
+// MeshBVH.ts
+/**
+ * MeshBVH - bounding volume hierarchy over per-triangle AABBs.
+ *
+ * Built from the `triMin`/`triMax` arrays cached by PaintMesh (PaintCore.ts). Nodes are
+ * stored in flat typed arrays (no per-node objects) so large scans stay cheap:
+ *  - nodeBounds: 6 floats per node (minX, minY, minZ, maxX, maxY, maxZ)
+ *  - nodeData:   2 uints per node
+ *      leaf:     [first index into triOrder, triangle count]
+ *      interior: [index of right child, 0] (left child is always node + 1)
+ *
+ * The BVH only knows boxes; the exact triangle test is supplied by the caller
+ * as a callback so PaintMesh keeps owning the hit math.
+ */
+
+// max triangles per leaf
+const LEAF_SIZE = 4;
+// past this depth midpoint splits give way to even splits, bounding tree depth
+const MAX_MIDPOINT_DEPTH = 40;
+// traversal stack size (MAX_MIDPOINT_DEPTH + log2 of any realistic triCount)
+const STACK_SIZE = 96;
+
+export class MeshBVH {
+  readonly triCount: number;
+  nodeBounds: Float32Array;
+  nodeData: Uint32Array;
+  triOrder: Uint32Array;
+
+  private _stack = new Uint32Array(STACK_SIZE);
+  // live nodes in pre-order (children after parents), built on the first refit
+  private _refitOrder: Uint32Array | null = null;
+
+  constructor(triMin: Float32Array, triMax: Float32Array, triCount: number) {
+    this.triCount = triCount;
+    // a binary tree with leaves of >= 1 triangle never exceeds 2n - 1 nodes
+    const maxNodes = Math.max(1, triCount * 2 - 1);
+    this.nodeBounds = new Float32Array(maxNodes * 6);
+    this.nodeData = new Uint32Array(maxNodes * 2);
+    this.triOrder = new Uint32Array(triCount);
+    for (let t = 0; t < triCount; t++) this.triOrder[t] = t;
+
+    if (triCount > 0) this._build(triMin, triMax);
+  }
+
+  /**
+   * Recomputes node bounds for moved triangles (e.g. a skinned pose) while
+   * keeping the topology. Cheaper than a rebuild, but queries slow down as
+   * the pose drifts far from the one the tree was built for.
+   */
+  refit(triMin: Float32Array, triMax: Float32Array) {
+    if (this.triCount === 0) return;
+    const data = this.nodeData;
+    if (!this._refitOrder) {
+      // unused slots of the 2n - 1 reservation must be skipped, so walk the tree
+      const order: number[] = [];
+      const stack = [0];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        order.push(node);
+        if (data[node * 2 + 1] === 0) stack.push(data[node * 2], node + 1);
+      }
+      this._refitOrder = Uint32Array.from(order);
+    }
+
+    const bounds = this.nodeBounds;
+    const tris = this.triOrder;
+    const order = this._refitOrder;
+    for (let k = order.length - 1; k >= 0; k--) {
+      const b = order[k] * 6;
+      const count = data[order[k] * 2 + 1];
+      if (count > 0) {
+        const first = data[order[k] * 2];
+        bounds.fill(Infinity, b, b + 3);
+        bounds.fill(-Infinity, b + 3, b + 6);
+        for (let i = first; i < first + count; i++) {
+          const t = tris[i] * 3;
+          for (let a = 0; a < 3; a++) {
+            if (triMin[t + a] < bounds[b + a]) bounds[b + a] = triMin[t + a];
+            if (triMax[t + a] > bounds[b + 3 + a])
+              bounds[b + 3 + a] = triMax[t + a];
+          }
+        }
+        continue;
+      }
+      const l = (order[k] + 1) * 6,
+        r = data[order[k] * 2] * 6;
+      for (let a = 0; a < 3; a++) {
+        bounds[b + a] = Math.min(bounds[l + a], bounds[r + a]);
+        bounds[b + 3 + a] = Math.max(bounds[l + 3 + a], bounds[r + 3 + a]);
+      }
+    }
+  }
+
+  private _build(triMin: Float32Array, triMax: Float32Array) {
+    const order = this.triOrder;
+    const centroids = new Float32Array(this.triCount * 3);
+    for (let t = 0; t < this.triCount * 3; t++) {
+      centroids[t] = (triMin[t] + triMax[t]) * 0.5;
+    }
+
+    // explicit work list: [node, start, end, depth]
+    const work: number[] = [0, 0, this.triCount, 0];
+
+    while (work.length > 0) {
+      const depth = work.pop()!;
+      const end = work.pop()!;
+      const start = work.pop()!;
+      const node = work.pop()!;
+
+      // node bounds + centroid bounds
+      let minX = Infinity,
+        minY = Infinity,
+        minZ = Infinity,
+        maxX = -Infinity,
+        maxY = -Infinity,
+        maxZ = -Infinity;
+      let cMinX = Infinity,
+        cMinY = Infinity,
+        cMinZ = Infinity,
+        cMaxX = -Infinity,
+        cMaxY = -Infinity,
+        cMaxZ = -Infinity;
+      for (let i = start; i < end; i++) {
+        const t = order[i] * 3;
+        if (triMin[t] < minX) minX = triMin[t];
+        if (triMin[t + 1] < minY) minY = triMin[t + 1];
+        if (triMin[t + 2] < minZ) minZ = triMin[t + 2];
+        if (triMax[t] > maxX) maxX = triMax[t];
+        if (triMax[t + 1] > maxY) maxY = triMax[t + 1];
+        if (triMax[t + 2] > maxZ) maxZ = triMax[t + 2];
+        const cx = centroids[t],
+          cy = centroids[t + 1],
+          cz = centroids[t + 2];
+        if (cx < cMinX) cMinX = cx;
+        if (cy < cMinY) cMinY = cy;
+        if (cz < cMinZ) cMinZ = cz;
+        if (cx > cMaxX) cMaxX = cx;
+        if (cy > cMaxY) cMaxY = cy;
+        if (cz > cMaxZ) cMaxZ = cz;
+      }
+      const b = node * 6;
+      this.nodeBounds[b + 0] = minX;
+      this.nodeBounds[b + 1] = minY;
+      this.nodeBounds[b + 2] = minZ;
+      this.nodeBounds[b + 3] = maxX;
+      this.nodeBounds[b + 4] = maxY;
+      this.nodeBounds[b + 5] = maxZ;
+
+      const count = end - start;
+      if (count <= LEAF_SIZE) {
+        this.nodeData[node * 2 + 0] = start;
+        this.nodeData[node * 2 + 1] = count;
+        continue;
+      }
+
+      // split the longest centroid axis at its midpoint
+      const ex = cMaxX - cMinX,
+        ey = cMaxY - cMinY,
+        ez = cMaxZ - cMinZ;
+      const axis = ex >= ey && ex >= ez ? 0 : ey >= ez ? 1 : 2;
+      const splitPos =
+        axis === 0
+          ? (cMinX + cMaxX) * 0.5
+          : axis === 1
+            ? (cMinY + cMaxY) * 0.5
+            : (cMinZ + cMaxZ) * 0.5;
+
+      let mid = start;
+      for (let i = start; i < end; i++) {
+        const tri = order[i];
+        if (centroids[tri * 3 + axis] < splitPos) {
+          order[i] = order[mid];
+          order[mid] = tri;
+          mid++;
+        }
+      }
+      // all centroids on one side (coincident) -> fall back to an even split
+      if (mid === start || mid === end || depth >= MAX_MIDPOINT_DEPTH) {
+        mid = (start + end) >> 1;
+      }
+
+      // each subtree reserves its worst case of 2n - 1 slots
+      const left = node + 1;
+      const right = left + 2 * (mid - start) - 1;
+      this.nodeData[node * 2 + 0] = right;
+      this.nodeData[node * 2 + 1] = 0;
+
+      work.push(right, mid, end, depth + 1);
+      work.push(left, start, mid, depth + 1);
+    }
+  }
+
+  /**
+   * Closest-hit ray traversal.
+   *
+   * `testTriangle(tri, closestT)` must return the hit distance for `tri` or
+   * `Infinity` on miss; only hits closer than `closestT` are kept.
+   * Returns the closest triangle index or -1.
+   */
+  raycast(
+    origin: ArrayLike<number>,
+    dir: ArrayLike<number>,
+    maxDistance: number,
+    testTriangle: (tri: number, closestT: number) => number,
+  ): number {
+    if (this.triCount === 0) return -1;
+
+    const ox = origin[0],
+      oy = origin[1],
+      oz = origin[2];
+    const ix = safeInverse(dir[0]),
+      iy = safeInverse(dir[1]),
+      iz = safeInverse(dir[2]);
+
+    const bounds = this.nodeBounds;
+    const data = this.nodeData;
+    const order = this.triOrder;
+    const stack = this._stack;
+    let sp = 0;
+    stack[sp++] = 0;
+
+    let closestT = maxDistance;
+    let bestTri = -1;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      // culled: missed (Infinity) or entered beyond the closest hit so far
+      if (slabEntry(ox, oy, oz, ix, iy, iz, bounds, node * 6) >= closestT)
+        continue;
+
+      const count = data[node * 2 + 1];
+      if (count > 0) {
+        const first = data[node * 2];
+        for (let i = first; i < first + count; i++) {
+          const t = testTriangle(order[i], closestT);
+          if (t < closestT) {
+            closestT = t;
+            bestTri = order[i];
+          }
+        }
+        continue;
+      }
+
+      // visit the nearer child first so the far one is usually culled
+      const left = node + 1;
+      const right = data[node * 2];
+      const tl = slabEntry(ox, oy, oz, ix, iy, iz, bounds, left * 6);
+      const tr = slabEntry(ox, oy, oz, ix, iy, iz, bounds, right * 6);
+      if (sp + 2 > STACK_SIZE) {
+        console.warn('MeshBVH: traversal stack overflow');
+        break;
+      }
+      if (tl <= tr) {
+        if (tr < closestT) stack[sp++] = right;
+        if (tl < closestT) stack[sp++] = left;
+      } else {
+        if (tl < closestT) stack[sp++] = left;
+        if (tr < closestT) stack[sp++] = right;
+      }
+    }
+
+    return bestTri;
+  }
+
+  /**
+   * Calls `visit(tri)` for every triangle whose AABB overlaps the sphere.
+   * Stops early when `visit` returns `false`.
+   */
+  querySphere(
+    center: ArrayLike<number>,
+    radius: number,
+    visit: (tri: number) => boolean | void,
+  ) {
+    if (this.triCount === 0) return;
+
+    const cx = center[0],
+      cy = center[1],
+      cz = center[2];
+    const r2 = radius * radius;
+    const bounds = this.nodeBounds;
+    const data = this.nodeData;
+    const order = this.triOrder;
+    const stack = this._stack;
+    let sp = 0;
+    stack[sp++] = 0;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      if (boxDistanceSq(cx, cy, cz, bounds, node * 6) > r2) continue;
+
+      const count = data[node * 2 + 1];
+      if (count > 0) {
+        const first = data[node * 2];
+        for (let i = first; i < first + count; i++) {
+          if (visit(order[i]) === false) return;
+        }
+        continue;
+      }
+      if (sp + 2 > STACK_SIZE) {
+        console.warn('MeshBVH: traversal stack overflow');
+        return;
+      }
+      stack[sp++] = data[node * 2];
+      stack[sp++] = node + 1;
+    }
+  }
+  /**
+   * Nearest-triangle query. `distanceSq(tri)` must return the squared
+   * distance from the query point to `tri`. Boxes farther than the best hit
+   * so far are pruned. Returns the closest triangle index or -1.
+   */
+  closestTriangle(
+    point: ArrayLike<number>,
+    maxDistance: number,
+    distanceSq: (tri: number) => number,
+  ): number {
+    if (this.triCount === 0) return -1;
+
+    const px = point[0],
+      py = point[1],
+      pz = point[2];
+    const bounds = this.nodeBounds;
+    const data = this.nodeData;
+    const order = this.triOrder;
+    const stack = this._stack;
+    let sp = 0;
+    stack[sp++] = 0;
+
+    let bestD2 = maxDistance * maxDistance;
+    let bestTri = -1;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      if (boxDistanceSq(px, py, pz, bounds, node * 6) > bestD2) continue;
+
+      const count = data[node * 2 + 1];
+      if (count > 0) {
+        const first = data[node * 2];
+        for (let i = first; i < first + count; i++) {
+          const d2 = distanceSq(order[i]);
+          if (d2 <= bestD2) {
+            bestD2 = d2;
+            bestTri = order[i];
+          }
+        }
+        continue;
+      }
+
+      const left = node + 1;
+      const right = data[node * 2];
+      const dl = boxDistanceSq(px, py, pz, bounds, left * 6);
+      const dr = boxDistanceSq(px, py, pz, bounds, right * 6);
+      if (sp + 2 > STACK_SIZE) {
+        console.warn('MeshBVH: traversal stack overflow');
+        break;
+      }
+      // push the farther child first so the nearer one is visited next
+      if (dl <= dr) {
+        stack[sp++] = right;
+        stack[sp++] = left;
+      } else {
+        stack[sp++] = left;
+        stack[sp++] = right;
+      }
+    }
+
+    return bestTri;
+  }
+}
+
+function safeInverse(d: number) {
+  // avoid 0 * Infinity = NaN in the slab test for axis-parallel rays
+  if (Math.abs(d) < 1e-12) return d < 0 ? -1e12 : 1e12;
+  return 1 / d;
+}
+
+// Returns the ray's entry distance into the box, or Infinity when missed.
+function slabEntry(
+  ox: number,
+  oy: number,
+  oz: number,
+  ix: number,
+  iy: number,
+  iz: number,
+  bounds: Float32Array,
+  b: number,
+) {
+  let t0 = (bounds[b + 0] - ox) * ix;
+  let t1 = (bounds[b + 3] - ox) * ix;
+  let tmin = Math.min(t0, t1);
+  let tmax = Math.max(t0, t1);
+
+  t0 = (bounds[b + 1] - oy) * iy;
+  t1 = (bounds[b + 4] - oy) * iy;
+  tmin = Math.max(tmin, Math.min(t0, t1));
+  tmax = Math.min(tmax, Math.max(t0, t1));
+
+  t0 = (bounds[b + 2] - oz) * iz;
+  t1 = (bounds[b + 5] - oz) * iz;
+  tmin = Math.max(tmin, Math.min(t0, t1));
+  tmax = Math.min(tmax, Math.max(t0, t1));
+
+  if (tmax < 0 || tmin > tmax) return Infinity;
+  return Math.max(tmin, 0);
+}
+
+function boxDistanceSq(
+  px: number,
+  py: number,
+  pz: number,
+  bounds: Float32Array,
+  b: number,
+) {
+  const dx = Math.max(bounds[b + 0] - px, 0, px - bounds[b + 3]);
+  const dy = Math.max(bounds[b + 1] - py, 0, py - bounds[b + 4]);
+  const dz = Math.max(bounds[b + 2] - pz, 0, pz - bounds[b + 5]);
+  return dx * dx + dy * dy + dz * dz;
+}
@@ -1,13 +1,72 @@
 // MeshBrush.ts (proximity-only + color-pick-on-#hex-name)
 import { Component } from '@wonderlandengine/api';
 import { property } from '@wonderlandengine/api/decorators.js';
-import { MeshPaintable } from './MeshPaintable.js';
+import { MeshPaintable, PaintHit } from './MeshPaintable.js';
+import { BLEND_MODES, ChannelValues } from './PaintCore.js';
+import { DecalImage, loadDecalImage, pickImageFile } from './DecalImage.js';
+import {
+  BRUSH_PRESETS,
+  BrushPreset,
+  applyPressureCurve,
+  clonePreset,
+} from './BrushPreset.js';
+import { CanvasAIChat } from './chat-ui.js';
+
+// decal projector sits this far (m) behind the tip, so the frustum is nearly parallel
+const DECAL_BACKOFF = 0.25;
 
 /**
  * MeshBrush (proximity-only) with color-pick-on-#hex-name
  *
  * When a physics body's name contains a hex color like "#ff00aa" (or "#f0a"),
  * the brush will pick that color and call `onPickedColor(hex)` and will not paint this frame.
+ *
+ * Surfaces come from MeshPaintable.raycastWorld, so every paintable mesh of a
+ * loaded hierarchy is reachable without colliders; colliders of other geometry
+ * in front of it still block the brush.
+ *
+ * Each continuous contact with a paintable is one stroke (undo step). The undo/redo
+ * buttons of the controller selected by `undoHandedness` revert/re-apply strokes.
+ *
+ * With `maskMode` (toggled by that controller's maskButton) dabs and fills edit
+ * the paintables' protection mask instead of the paint, removing protection with
+ * `maskErase` (see MeshPaintable.setMaskMode).
+ *
+ * The paint* flags choose which channels a dab writes: brushColor into the
+ * color layer, and the brush* values into the paintable's PBR channels when it
+ * has them (see MeshPaintable.pbrChannels / heightToNormal).
+ *
+ * Paintables with symmetry enabled get the same dabs (or fill) at every
+ * mirror image of the hit (see MeshPaintable.mirrorHits).
+ *
+ * With `tool = 'fill'` a contact bucket-fills the touched part (see MeshPaintable.fillRegion).
+ * With `tool = 'decal'` a contact projects the decal image (decalUrl, a picked
+ * file or the chat's camera capture) along the brush direction (see
+ * MeshPaintable.projectDecal).
+ * With `tool = 'eyedropper'` a contact sets brushColor to the painted color
+ * under the tip (averaged over eyedropperRadiusPx texels, see
+ * MeshPaintable.pickColor) and calls `onPickedColor(hex)`; nothing is painted.
+ * With `tool = 'smudge'` / `'blur'` the dabs of a stroke (interpolated as for
+ * the brush) drag the existing paint along the stroke / average it within the
+ * footprint (see MeshPaintable.smudgeAtUV / blurAtUV). Both work in texture
+ * space only: they ignore brushSpace and skip vertex-color paintables.
+ *
+ * Paintables in vertex-color mode (MeshPaintable.paintMode) are always painted
+ * with the world-space footprint.
+ *
+ * `blendMode` selects how dabs and fills combine with the paint (see
+ * MeshPaintable.blendMode): 'erase' brings back the base, 'multiply' shades,
+ * 'screen' highlights, and 'glaze' paints at glazeOpacity x brushColor alpha,
+ * adding at most that much per stroke so coats build up over repeated passes.
+ * 'wash' pools the color in crevices and 'drybrush' only catches raised edges,
+ * following the paintable's baked cavity map (MeshPaintable.bakeCavityMap).
+ *
+ * With `brushSpace = 'world'` the footprint is a sphere of `brushWorldRadius`
+ * meters around the hit point, so dots keep their size regardless of UV density.
+ *
+ * With a `pressureSource` the size and opacity of each frame's dabs follow
+ * pressure - the analog trigger value, or how far the tip pushed past the
+ * surface - through the curves of the selected preset (see BrushPreset.ts).
  */
 export class MeshBrush extends Component {
   static TypeName = 'mesh-brush';
@@ -29,30 +88,273 @@ export class MeshBrush extends Component {
   @property.float(10.0)
   maxDistance = 10.0;
 
-  // --- internal state ---
-  private _lastUVPerObject = new Map<number, [number, number]>();
-  private _lastTriPerObject = new Map<number, [number, number, number]>();
-  private _contactLostPerObject = new Map<number, boolean>();
+  // 'texture': dabs of brushRadiusPx texels; 'world': a sphere of brushWorldRadius
+  // meters around the hit, independent of the asset's UV density
+  @property.enum(['texture', 'world'], 'texture')
+  brushSpace = 0;
+
+  // fraction of the world-space radius painted at full opacity
+  @property.float(0.5)
+  brushHardness = 0.5;
+
+  // 'fill': each new contact bucket-fills the connected surface instead of painting dabs;
+  // 'decal': each new contact projects the decal image along the brush direction;
+  // 'eyedropper': each new contact picks brushColor from the surface;
+  // 'smudge' / 'blur': dabs drag / soften the paint already there
+  @property.enum(
+    ['brush', 'fill', 'decal', 'eyedropper', 'smudge', 'blur'],
+    'brush',
+  )
+  tool = 0;
+
+  // eyedropper averages the texels within this radius (0 = single texel)
+  @property.int(2)
+  eyedropperRadiusPx = 2;
+
+  // how much color the smudge carries along (1 = drags the first color indefinitely)
+  @property.float(0.7)
+  smudgeStrength = 0.7;
+
+  // how far each blur dab moves texels toward their neighbourhood's average
+  @property.float(0.5)
+  blurStrength = 0.5;
+
+  @property.enum(BLEND_MODES, 'normal')
+  blendMode = 0;
+
+  // opacity of one glaze pass (multiplies brushColor's alpha)
+  @property.float(0.2)
+  glazeOpacity = 0.2;
+
+  // fill stops where the color differs by more than this per channel (0..1, 1 = whole part)
+  @property.float(1.0)
+  fillTolerance = 1.0;
+
+  // image loaded at start for the decal tool (URL or data URL)
+  @property.string('')
+  decalUrl = '';
+
+  // height (m) of the projected image where it meets the surface
+  @property.float(0.1)
+  decalSize = 0.1;
+
+  // 'image': the image's colors; 'stencil': brushColor through the image's alpha
+  @property.enum(['image', 'stencil'], 'image')
+  decalMode = 0;
+
+  @property.float(1.0)
+  decalOpacity = 1.0;
+
+  // stencil coverage from darkness instead of alpha (photos of a drawing)
+  @property.bool(false)
+  decalFromLuminance = false;
+
+  // channels written by each dab (PBR channels only exist on paintables that enable them)
+  @property.bool(true)
+  paintColor = true;
+
+  @property.bool(false)
+  paintRoughness = false;
+
+  @property.float(0.3)
+  brushRoughness = 0.3;
+
+  @property.bool(false)
+  paintMetallic = false;
+
+  @property.float(1.0)
+  brushMetallic = 1.0;
+
+  @property.bool(false)
+  paintHeight = false;
+
+  // 0 = flat, 1 = fully raised
+  @property.float(1.0)
+  brushHeight = 1.0;
+
+  // controller whose buttons trigger undo/redo ('none' disables the binding)
+  @property.enum(['none', 'left', 'right'], 'left')
+  undoHandedness = 1;
+
+  // xr-standard gamepad button indices (4 = A/X, 5 = B/Y on Touch controllers)
+  @property.int(4)
+  undoButton = 4;
+
+  @property.int(5)
+  redoButton = 5;
+
+  // paint into the protection mask instead of the channels (see setMaskMode)
+  @property.bool(false)
+  maskMode = false;
+
+  // in mask mode, remove protection instead of adding it
+  @property.bool(false)
+  maskErase = false;
+
+  // undoHandedness controller button toggling maskMode (3 = thumbstick press, -1 = none)
+  @property.int(3)
+  maskButton = 3;
+
+  // 'trigger': the analog value of pressureButton on the pressureHandedness controller;
+  // 'penetration': 0 at the surface to 1 at penetrationDepth (m) past it;
+  // 'none': full size and opacity
+  @property.enum(['none', 'trigger', 'penetration'], 'none')
+  pressureSource = 0;
+
+  @property.enum(['left', 'right'], 'right')
+  pressureHandedness = 1;
+
+  // xr-standard gamepad button index (0 = trigger, 1 = squeeze)
+  @property.int(0)
+  pressureButton = 0;
+
+  @property.float(0.02)
+  penetrationDepth = 0.02;
+
+  // pressure curves for size and opacity (index into `presets`)
+  @property.enum(BRUSH_PRESETS.map((p) => p.name), 'round')
+  preset = 0;
+
+  /** Presets `preset` selects from; edit or append to customize the curves. */
+  presets: BrushPreset[] = BRUSH_PRESETS.map(clonePreset);
+
+  /** Pressure (0..1) of the current frame; 1 without a pressureSource. */
+  pressure = 1;
+
+  // --- internal state (keyed by MeshPaintable.paintId) ---
+  private _lastUVPerPaintable = new Map<number, [number, number]>();
+  private _lastTriPerPaintable = new Map<number, number>();
+  private _lastLocalHitPerPaintable = new Map<
+    number,
+    [number, number, number]
+  >();
+  private _contactLostPerPaintable = new Map<number, boolean>();
+  // last hit of each mirrored stream, keyed by paintId * 8 + mirror mask
+  private _mirrorLastHits = new Map<number, PaintHit>();
+
+  // open stroke per paintable, and paintables of finished strokes in undo/redo order
+  private _strokePerPaintable = new Map<number, MeshPaintable>();
+  private _undoTargets: MeshPaintable[] = [];
+  private _redoTargets: MeshPaintable[] = [];
+  private _undoPressed = false;
+  private _redoPressed = false;
+  private _maskPressed = false;
 
   // temp arrays
   private _worldOrigin = new Float32Array(3);
   private _worldDir = new Float32Array(3);
-  private _worldEnd = new Float32Array(3);
-
-  // reuse buffers to avoid allocations each frame
-  private _maxRayHits = 8;
-  private _hitLocations!: Float32Array[]; // preallocated Float32Array(3) entries
+  private _worldScale = new Float32Array(3);
+  private _channelValues: ChannelValues = {};
+  private _dabColor: [number, number, number, number] = [0, 0, 0, 1];
+  // pressure curve factors of the current frame
+  private _sizeScale = 1;
+  private _opacityScale = 1;
+  private _rayOrigin = new Float32Array(3);
+  private _decalImage: DecalImage | null = null;
+  private _worldUp = new Float32Array(3);
+
+  // reuse buffer to avoid allocations each frame
   private _hitObjectsTemp: any[] = [];
 
+  private _updateChannelValues() {
+    const values = this._channelValues;
+    values.color = this.paintColor;
+    values.roughness = this.paintRoughness ? this.brushRoughness : undefined;
+    values.metallic = this.paintMetallic ? this.brushMetallic : undefined;
+    values.height = this.paintHeight ? this.brushHeight : undefined;
+    return values;
+  }
+
+  // brushColor as painted: glazes at glazeOpacity, scaled by pressure
+  private _updateDabColor() {
+    const c = this._dabColor;
+    const glaze = BLEND_MODES[this.blendMode] === 'glaze';
+    c[0] = this.brushColor[0];
+    c[1] = this.brushColor[1];
+    c[2] = this.brushColor[2];
+    c[3] =
+      this.brushColor[3] * (glaze ? this.glazeOpacity : 1) * this._opacityScale;
+    return c;
+  }
+
+  /** The preset `preset` selects (the first one when out of range). */
+  get activePreset(): BrushPreset {
+    return this.presets[this.preset] ?? this.presets[0] ?? BRUSH_PRESETS[0];
+  }
+
+  // pressure + the preset's size / opacity factors for this frame;
+  // surfaceDistance is negative once the tip is past the surface
+  private _updatePressure(surfaceDistance: number) {
+    if (this.pressureSource === 0) {
+      this.pressure = 1;
+      this._sizeScale = this._opacityScale = 1;
+      return;
+    }
+    if (this.pressureSource === 1) {
+      this.pressure = this._triggerValue();
+    } else {
+      const depth = this.penetrationDepth;
+      this.pressure =
+        depth > 0 ? Math.min(Math.max(-surfaceDistance / depth, 0), 1) : 1;
+    }
+    const preset = this.activePreset;
+    this._sizeScale = applyPressureCurve(preset.size, this.pressure);
+    this._opacityScale = applyPressureCurve(preset.opacity, this.pressure);
+  }
+
+  // analog value of pressureButton; 1 outside XR or without that controller
+  private _triggerValue(): number {
+    const session = this.engine.xr?.session;
+    if (!session) return 1;
+    const hand = this.pressureHandedness === 0 ? 'left' : 'right';
+    for (const source of session.inputSources) {
+      if (source.handedness !== hand || !source.gamepad) continue;
+      return source.gamepad.buttons[this.pressureButton]?.value ?? 0;
+    }
+    return 1;
+  }
+
   start(): void {
-    // prepare buffered storage for rayHit.getLocations
-    this._hitLocations = new Array(this._maxRayHits);
-    for (let i = 0; i < this._maxRayHits; i++) {
-      this._hitLocations[i] = new Float32Array(3);
+    if (this.decalUrl) {
+      this.setDecalImage(this.decalUrl).catch((e) =>
+        console.warn('MeshBrush: failed to load decalUrl', e),
+      );
     }
   }
 
+  /** Loads the decal tool's image from a URL / data URL or a File. */
+  async setDecalImage(source: string | Blob) {
+    this._decalImage = await loadDecalImage(source);
+  }
+
+  /** Lets the user pick a local image file as the decal. False when cancelled. */
+  async pickDecalFile(): Promise<boolean> {
+    const file = await pickImageFile();
+    if (!file) return false;
+    await this.setDecalImage(file);
+    return true;
+  }
+
+  /**
+   * Uses the camera frame held by the scene's CanvasAIChat as the decal,
+   * capturing one first when the chat has none. False when no frame is available.
+   */
+  async useCameraCapture(): Promise<boolean> {
+    const chat = this.scene.getActiveComponents(CanvasAIChat)[0];
+    if (!chat) return false;
+    if (!chat.popupImage) await chat._captureOnce();
+    if (!chat.popupImage) return false;
+    await this.setDecalImage(chat.popupImage);
+    return true;
+  }
+
+  onDeactivate(): void {
+    this._markAllContactLost();
+  }
+
   update(_: number): void {
+    this._pollButtons();
+
     // origin & dir from this object (brush tip)
     this.object.getPositionWorld(this._worldOrigin);
     this.object.getForwardWorld(this._worldDir);
@@ -64,199 +366,442 @@ export class MeshBrush extends Component {
       this.maxDistance,
     );
 
-    // If no hit -> mark contact lost for tracked objects and return
-    if (!rayHit || rayHit.hitCount === 0) {
-      for (const key of this._lastUVPerObject.keys()) {
-        this._contactLostPerObject.set(key, true);
+    // physics hits only matter for color picking: if the first collider's name
+    // contains a hex color (#RGB or #RRGGBB), pick it and don't paint this frame
+    if (rayHit && rayHit.hitCount > 0) {
+      const objs = rayHit.getObjects(this._hitObjectsTemp);
+      const picked = objs[0] ? this._tryPickColorFromName(objs[0].name) : null;
+      if (picked) {
+        // picking color should not connect strokes
+        this._lastUVPerPaintable.clear();
+        this._lastTriPerPaintable.clear();
+        this._lastLocalHitPerPaintable.clear();
+        this._markAllContactLost();
+        // notify hook and early return (no painting this frame)
+        this.onPickedColor(picked);
+        return;
       }
-      return;
     }
 
-    // ensure our prealloc can hold the hits
-    const hitCount = Math.min(rayHit.hitCount, this._maxRayHits);
-    if (hitCount > this._hitLocations.length) {
-      const oldLen = this._hitLocations.length;
-      for (let i = oldLen; i < hitCount; i++)
-        this._hitLocations.push(new Float32Array(3));
+    // nearest paintable surface along the ray (any mesh of any loaded hierarchy,
+    // no collider needed)
+    // penetration pressure: cast from behind the tip so a surface it pushed into is still hit
+    const backoff =
+      this.pressureSource === 2 ? Math.max(this.penetrationDepth, 0) : 0;
+    for (let k = 0; k < 3; k++) {
+      this._rayOrigin[k] = this._worldOrigin[k] - this._worldDir[k] * backoff;
     }
-
-    // getLocations expects NumberArray[] (array of arrays)
-    rayHit.getLocations(this._hitLocations);
-
-    // getObjects returns an array of Object3D
-    const objs = rayHit.getObjects(this._hitObjectsTemp);
-
-    // use the first hit
-    const hitWorldPosArr = this._hitLocations[0];
-    const hitWorldPos = [
-      hitWorldPosArr[0],
-      hitWorldPosArr[1],
-      hitWorldPosArr[2],
-    ] as [number, number, number];
-    const hitObj: any = objs[0];
-    if (!hitObj) {
-      // mark contact lost for tracked objects
-      for (const key of this._lastUVPerObject.keys()) {
-        this._contactLostPerObject.set(key, true);
-      }
+    const surface = MeshPaintable.raycastWorld(
+      this._rayOrigin,
+      this._worldDir,
+      this.maxDistance + backoff,
+    );
+    if (!surface) {
+      this._markAllContactLost();
       return;
     }
 
-    // If hit object's name contains a hex color (#RGB or #RRGGBB), pick color and early return
-    const picked = this._tryPickColorFromName(hitObj.name);
-    if (picked) {
-      // Clear continuity for the object (picking color should not connect strokes)
-      const objectId =
-        typeof hitObj.objectId === 'number'
-          ? hitObj.objectId
-          : this._stableObjectId(hitObj);
-      this._lastUVPerObject.delete(objectId);
-      this._lastTriPerObject.delete(objectId);
-      this._contactLostPerObject.set(objectId, true);
-      // notify hook and early return (no painting this frame)
-      this.onPickedColor(picked);
-      return;
-    }
+    const { paintable, hit: uvResult } = surface;
+    const uv: [number, number] = uvResult.uv;
+    const triIndex = uvResult.triIndex;
 
-    // try to find MeshPaintable on hit object
-    const paintable: MeshPaintable = hitObj.getComponent(MeshPaintable);
-    if (!paintable) {
-      const maybeId = hitObj.objectId ?? null;
-      if (maybeId !== null) this._contactLostPerObject.set(maybeId, true);
+    // a timelapse owns the surface (and its history) until it ends
+    if (paintable.replaying) {
+      this._markAllContactLost();
       return;
     }
 
-    // Convert the world ray (origin, end) into object's local space
-    this._worldEnd[0] =
-      this._worldOrigin[0] + this._worldDir[0] * this.maxDistance;
-    this._worldEnd[1] =
-      this._worldOrigin[1] + this._worldDir[1] * this.maxDistance;
-    this._worldEnd[2] =
-      this._worldOrigin[2] + this._worldDir[2] * this.maxDistance;
-
-    const localOrigin = new Float32Array(3);
-    const localEnd = new Float32Array(3);
-    hitObj.transformPointInverseWorld(localOrigin, this._worldOrigin);
-    hitObj.transformPointInverseWorld(localEnd, this._worldEnd);
-
-    const localDir = new Float32Array(3);
-    localDir[0] = localEnd[0] - localOrigin[0];
-    localDir[1] = localEnd[1] - localOrigin[1];
-    localDir[2] = localEnd[2] - localOrigin[2];
-    const len = Math.hypot(localDir[0], localDir[1], localDir[2]) || 1;
-    localDir[0] /= len;
-    localDir[1] /= len;
-    localDir[2] /= len;
-
-    // Ask paintable for UV and triangle index
-    const uvResult = paintable.getUVFromLocalRay(
-      localOrigin,
-      localDir,
-      this.maxDistance,
-    );
-    if (!uvResult) {
-      const idNull = hitObj.objectId ?? null;
-      if (idNull !== null) this._contactLostPerObject.set(idNull, true);
-      return;
+    // continuity is tracked per paintable (an object can carry several)
+    const key = paintable.paintId;
+    // other surfaces the brush was touching lost contact
+    for (const other of [...this._strokePerPaintable.keys()]) {
+      if (other !== key) this._markContactLost(other);
     }
 
-    const uv: [number, number] = uvResult.uv;
-    const triIndex = uvResult.triIndex;
-    const canvasSize = paintable.getCanvasSize?.() ?? {
-      width: 1024,
-      height: 1024,
-    };
-
-    // object id (stable numeric fallback)
-    const objectId =
-      typeof hitObj.objectId === 'number'
-        ? hitObj.objectId
-        : this._stableObjectId(hitObj);
-
-    // PROXIMITY: compute distance from brush tip (object position) to world hit pos
-    const dx = this._worldOrigin[0] - hitWorldPos[0];
-    const dy = this._worldOrigin[1] - hitWorldPos[1];
-    const dz = this._worldOrigin[2] - hitWorldPos[2];
-    const worldDist = Math.hypot(dx, dy, dz);
+    // PROXIMITY: distance from brush tip (object position) to the surface hit
+    const worldDist = surface.distance - backoff;
 
     // decide whether to paint this frame
     const withinRange = !this.paintOnProximity
       ? false
       : worldDist <= this.brushWorldRadius;
     if (!withinRange) {
-      // out of proximity -> clear continuity for this object and return
-      this._lastUVPerObject.delete(objectId);
-      this._lastTriPerObject.delete(objectId);
-      this._contactLostPerObject.set(objectId, true);
+      // out of proximity -> clear continuity for this paintable and return
+      this._lastUVPerPaintable.delete(key);
+      this._lastTriPerPaintable.delete(key);
+      this._lastLocalHitPerPaintable.delete(key);
+      this._markContactLost(key);
       return;
     }
 
-    // If contact was lost previously for this object, forget last UV so stroke doesn't connect
-    if (this._contactLostPerObject.get(objectId)) {
-      this._lastUVPerObject.delete(objectId);
-      this._lastTriPerObject.delete(objectId);
-      this._contactLostPerObject.set(objectId, false);
+    // If contact was lost previously for this paintable, forget last UV so stroke doesn't connect
+    if (this._contactLostPerPaintable.get(key)) {
+      this._lastUVPerPaintable.delete(key);
+      this._lastTriPerPaintable.delete(key);
+      this._lastLocalHitPerPaintable.delete(key);
+      this._contactLostPerPaintable.set(key, false);
     }
 
-    // island-jump / interpolation logic
-    const lastUV = this._lastUVPerObject.get(objectId) ?? null;
-    const lastTri = this._lastTriPerObject.get(objectId) ?? null;
+    // eyedropper: one pick per contact, no stroke
+    if (this.tool === 3) {
+      if (!this._lastUVPerPaintable.has(key)) {
+        this._pickSurfaceColor(paintable, uvResult);
+      }
+      this._lastUVPerPaintable.set(key, uv);
+      this._contactLostPerPaintable.set(key, false);
+      return;
+    }
 
-    let doInterpolate = false;
-    if (lastUV && lastTri) {
-      const lastTriArr = lastTri as [number, number, number];
-      const currTriIndices = this._getTriangleVertexIndices(
-        paintable,
-        triIndex,
-      );
-      if (currTriIndices) {
-        const [c0, c1, c2] = currTriIndices;
-        const [l0, l1, l2] = lastTriArr;
-        // allow interpolation when triangles share at least one vertex (adjacent)
-        if (
-          c0 === l0 ||
-          c0 === l1 ||
-          c0 === l2 ||
-          c1 === l0 ||
-          c1 === l1 ||
-          c1 === l2 ||
-          c2 === l0 ||
-          c2 === l1 ||
-          c2 === l2
-        ) {
-          doInterpolate = true;
+    // contact start -> open a stroke so everything until contact is lost undoes together
+    const contactStart = !this._strokePerPaintable.has(key);
+    if (contactStart) {
+      paintable.beginStroke();
+      this._strokePerPaintable.set(key, paintable);
+    }
+
+    paintable.channelValues = this._updateChannelValues();
+    paintable.blendMode = BLEND_MODES[this.blendMode] ?? 'normal';
+    paintable.maskErase = this.maskErase;
+    paintable.setMaskMode(this.maskMode);
+    this._updatePressure(worldDist);
+    this._updateDabColor();
+
+    // fill tool: one flood per contact, nothing more while the tip stays on the surface
+    if (this.tool === 1) {
+      if (contactStart) {
+        paintable.fillRegion(triIndex, this._dabColor, this.fillTolerance);
+        for (const image of paintable.mirrorHits(uvResult)) {
+          paintable.fillRegion(
+            image.hit.triIndex,
+            this._dabColor,
+            this.fillTolerance,
+          );
         }
       }
+      this._lastUVPerPaintable.set(key, uv);
+      this._contactLostPerPaintable.set(key, false);
+      return;
+    }
+
+    // decal tool: one projection per contact, from behind the tip along the ray
+    if (this.tool === 2) {
+      if (contactStart) this._projectDecal(worldDist);
+      this._lastUVPerPaintable.set(key, uv);
+      this._contactLostPerPaintable.set(key, false);
+      return;
+    }
+
+    const lastUV = this._lastUVPerPaintable.get(key) ?? null;
+    const lastTri = this._lastTriPerPaintable.get(key) ?? null;
+    const lastLocalHit = this._lastLocalHitPerPaintable.get(key) ?? null;
+    this._paintDabs(paintable, uvResult, lastUV, lastTri, lastLocalHit);
+    this._paintMirrors(paintable, uvResult, lastTri !== null);
+
+    // store current as last for this object
+    this._lastUVPerPaintable.set(key, uv);
+    this._lastTriPerPaintable.set(key, triIndex);
+    this._lastLocalHitPerPaintable.set(key, uvResult.localHit);
+
+    // ensure contact is marked present
+    this._contactLostPerPaintable.set(key, false);
+  }
+
+  // dabs from the previous hit of a stream (if any) to `hit`:
+  // same UV island (shared vertex) -> interpolate in UV space;
+  // across a UV seam (shared welded position) -> interpolate on the surface
+  private _paintDabs(
+    paintable: MeshPaintable,
+    hit: PaintHit,
+    lastUV: [number, number] | null,
+    lastTri: number | null,
+    lastLocalHit: [number, number, number] | null,
+    stream = 0,
+  ) {
+    const uv = hit.uv;
+    const triIndex = hit.triIndex;
+    const canvasSize = paintable.getCanvasSize?.() ?? {
+      width: 1024,
+      height: 1024,
+    };
+
+    let uvInterpolate = false;
+    let surfaceInterpolate = false;
+    if (lastUV && lastTri !== null) {
+      if (paintable.trianglesShareVertex(lastTri, triIndex)) {
+        uvInterpolate = true;
+      } else if (
+        lastLocalHit &&
+        paintable.trianglesShareWeldedVertex(lastTri, triIndex)
+      ) {
+        surfaceInterpolate = true;
+      }
     }
 
-    // compute steps based on UV distance and paint
-    let steps = 1;
-    if (doInterpolate && lastUV) {
+    // smudge carries color dab to dab, so it needs closer spacing
+    const spacing = this.tool === 4 ? 0.25 : 0.5;
+    const stepSize = Math.max(
+      1,
+      Math.floor(this.brushRadiusPx * this._sizeScale * spacing),
+    );
+    const filter = this.tool === 4 || this.tool === 5;
+    if (filter && paintable.paintMode === 1) return;
+    // vertex-color paintables have no usable texture space
+    if (!filter && (this.brushSpace === 1 || paintable.paintMode === 1)) {
+      this._paintWorldSpace(
+        paintable,
+        lastTri !== null ? lastLocalHit : null,
+        hit.localHit,
+      );
+    } else if (uvInterpolate && lastUV) {
+      // compute steps based on UV distance and paint
       const dxuv = uv[0] * canvasSize.width - lastUV[0] * canvasSize.width;
       const dyuv = uv[1] * canvasSize.height - lastUV[1] * canvasSize.height;
       const distuv = Math.hypot(dxuv, dyuv);
-      const stepSize = Math.max(1, Math.floor(this.brushRadiusPx * 0.5));
-      steps = Math.max(1, Math.ceil(distuv / stepSize));
+      const steps = Math.max(1, Math.ceil(distuv / stepSize));
+      for (let s = 0; s <= steps; s++) {
+        const t = s / steps;
+        const iu = lastUV[0] * (1 - t) + uv[0] * t;
+        const iv = lastUV[1] * (1 - t) + uv[1] * t;
+        this._dab(paintable, iu, iv, triIndex, stream);
+      }
+    } else if (surfaceInterpolate && lastLocalHit) {
+      // walk the local-space segment and re-project each sample onto the mesh
+      const local = hit.localHit;
+      const dist3 = Math.hypot(
+        local[0] - lastLocalHit[0],
+        local[1] - lastLocalHit[1],
+        local[2] - lastLocalHit[2],
+      );
+      const texels = dist3 * paintable.texelsPerUnit(triIndex);
+      const steps = Math.min(256, Math.max(1, Math.ceil(texels / stepSize)));
+      const p = new Float32Array(3);
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps;
+        p[0] = lastLocalHit[0] * (1 - t) + local[0] * t;
+        p[1] = lastLocalHit[1] * (1 - t) + local[1] * t;
+        p[2] = lastLocalHit[2] * (1 - t) + local[2] * t;
+        const sample = paintable.getUVAtLocalPoint(p, dist3);
+        if (!sample) continue;
+        this._dab(
+          paintable,
+          sample.uv[0],
+          sample.uv[1],
+          sample.triIndex,
+          stream,
+        );
+      }
+    } else {
+      this._dab(paintable, uv[0], uv[1], triIndex, stream);
     }
+  }
 
-    if (!doInterpolate) {
-      paintable.paintAtUV(uv[0], uv[1], this.brushRadiusPx, this.brushColor);
+  // one texture-space dab of the current tool
+  private _dab(
+    paintable: MeshPaintable,
+    u: number,
+    v: number,
+    triIndex: number,
+    stream: number,
+  ) {
+    const radius = Math.max(0.5, this.brushRadiusPx * this._sizeScale);
+    const strength = this._opacityScale;
+    if (this.tool === 4) {
+      const smudge = this.smudgeStrength * strength;
+      paintable.smudgeAtUV(u, v, radius, smudge, triIndex, stream);
+    } else if (this.tool === 5) {
+      paintable.blurAtUV(u, v, radius, this.blurStrength * strength, triIndex);
     } else {
-      for (let s = 0; s <= steps; s++) {
-        const t = steps === 0 ? 0 : s / steps;
-        const iu = lastUV ? lastUV[0] * (1 - t) + uv[0] * t : uv[0];
-        const iv = lastUV ? lastUV[1] * (1 - t) + uv[1] * t : uv[1];
-        paintable.paintAtUV(iu, iv, this.brushRadiusPx, this.brushColor);
+      paintable.paintAtUV(u, v, radius, this._dabColor, triIndex);
+    }
+  }
+
+  // the same dabs at every mirror image of the hit (see MeshPaintable.mirrorHits);
+  // each image is its own stream so its stroke interpolates like the original
+  private _paintMirrors(
+    paintable: MeshPaintable,
+    hit: PaintHit,
+    continuing: boolean,
+  ) {
+    if (paintable.symmetryMask === 0) return;
+    const base = paintable.paintId * 8;
+    const images = paintable.mirrorHits(hit);
+    for (let mask = 1; mask < 8; mask++) {
+      // images that miss the surface this frame must not connect later
+      if (!images.some((image) => image.mask === mask)) {
+        this._mirrorLastHits.delete(base + mask);
+      }
+    }
+    for (const image of images) {
+      const key = base + image.mask;
+      const last = continuing ? this._mirrorLastHits.get(key) : undefined;
+      this._paintDabs(
+        paintable,
+        image.hit,
+        last?.uv ?? null,
+        last?.triIndex ?? null,
+        last?.localHit ?? null,
+        image.mask,
+      );
+      this._mirrorLastHits.set(key, image.hit);
+    }
+  }
+
+  private _projectDecal(surfaceDistance: number) {
+    if (!this._decalImage) {
+      console.warn('MeshBrush: decal tool without an image');
+      return;
+    }
+    const origin = new Float32Array(3);
+    for (let k = 0; k < 3; k++) {
+      origin[k] = this._worldOrigin[k] - this._worldDir[k] * DECAL_BACKOFF;
+    }
+    const distance = DECAL_BACKOFF + surfaceDistance;
+    const painted = MeshPaintable.projectDecal(
+      this._decalImage,
+      origin,
+      this._worldDir,
+      this.object.getUpWorld(this._worldUp),
+      {
+        fov: (2 * Math.atan(this.decalSize / 2 / distance) * 180) / Math.PI,
+        far: DECAL_BACKOFF + this.maxDistance,
+        opacity: this.decalOpacity,
+        mode: this.decalMode === 1 ? 'stencil' : 'image',
+        color: this.brushColor,
+        stencilFromLuminance: this.decalFromLuminance,
+      },
+    );
+    // paintables without an open stroke of this brush got single-call strokes
+    const open = new Set(this._strokePerPaintable.values());
+    for (const p of painted) {
+      if (open.has(p)) continue;
+      this._undoTargets.push(p);
+      this._redoTargets.length = 0;
+    }
+  }
+
+  // world-space footprint: spheres along the local segment from the previous hit
+  private _paintWorldSpace(
+    paintable: MeshPaintable,
+    lastLocalHit: [number, number, number] | null,
+    local: [number, number, number],
+  ) {
+    const scale = paintable.object.getScalingWorld(this._worldScale);
+    const avgScale =
+      (Math.abs(scale[0]) + Math.abs(scale[1]) + Math.abs(scale[2])) / 3 || 1;
+    const radius = (this.brushWorldRadius * this._sizeScale) / avgScale;
+    if (!(radius > 0)) return;
+
+    if (!lastLocalHit) {
+      paintable.paintInSphere(
+        local,
+        radius,
+        this._dabColor,
+        this.brushHardness,
+      );
+      return;
+    }
+    const dist3 = Math.hypot(
+      local[0] - lastLocalHit[0],
+      local[1] - lastLocalHit[1],
+      local[2] - lastLocalHit[2],
+    );
+    const steps = Math.min(64, Math.max(1, Math.ceil(dist3 / (radius * 0.5))));
+    const p = new Float32Array(3);
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      p[0] = lastLocalHit[0] * (1 - t) + local[0] * t;
+      p[1] = lastLocalHit[1] * (1 - t) + local[1] * t;
+      p[2] = lastLocalHit[2] * (1 - t) + local[2] * t;
+      paintable.paintInSphere(p, radius, this._dabColor, this.brushHardness);
+    }
+  }
+
+  /** Reverts the most recent stroke of this brush. Returns false when there is nothing to undo. */
+  undo(): boolean {
+    this._endAllStrokes();
+    while (this._undoTargets.length > 0) {
+      // a replaying surface keeps its strokes for after the timelapse
+      if (this._undoTargets[this._undoTargets.length - 1].replaying) {
+        return false;
+      }
+      const paintable = this._undoTargets.pop()!;
+      // paintable may have dropped the stroke to stay within its history budget
+      if (paintable.undo()) {
+        this._redoTargets.push(paintable);
+        return true;
       }
     }
+    return false;
+  }
 
-    // store current as last for this object
-    this._lastUVPerObject.set(objectId, uv);
-    const currTriVerts = this._getTriangleVertexIndices(paintable, triIndex);
-    if (currTriVerts) this._lastTriPerObject.set(objectId, currTriVerts);
+  /** Re-applies the most recently undone stroke. */
+  redo(): boolean {
+    this._endAllStrokes();
+    const last = this._redoTargets[this._redoTargets.length - 1];
+    if (!last || last.replaying) return false;
+    const paintable = this._redoTargets.pop()!;
+    if (!paintable.redo()) return false;
+    this._undoTargets.push(paintable);
+    return true;
+  }
 
-    // ensure contact is marked present
-    this._contactLostPerObject.set(objectId, false);
+  /** Switches mask mode for this brush and every paintable, so the mask tint shows right away. */
+  setMaskMode(on: boolean) {
+    // a stroke never spans paint and mask
+    this._endAllStrokes();
+    this.maskMode = on;
+    for (const paintable of MeshPaintable.instances) paintable.setMaskMode(on);
+  }
+
+  // edge-triggered undo/redo/mask toggle from the configured controller's gamepad
+  private _pollButtons() {
+    if (this.undoHandedness === 0) return;
+    const session = this.engine.xr?.session;
+    if (!session) return;
+    const hand = this.undoHandedness === 1 ? 'left' : 'right';
+    for (const source of session.inputSources) {
+      if (source.handedness !== hand || !source.gamepad) continue;
+      const buttons = source.gamepad.buttons;
+      const undoDown = !!buttons[this.undoButton]?.pressed;
+      const redoDown = !!buttons[this.redoButton]?.pressed;
+      const maskDown = !!buttons[this.maskButton]?.pressed;
+      if (undoDown && !this._undoPressed) this.undo();
+      if (redoDown && !this._redoPressed) this.redo();
+      if (maskDown && !this._maskPressed) this.setMaskMode(!this.maskMode);
+      this._undoPressed = undoDown;
+      this._redoPressed = redoDown;
+      this._maskPressed = maskDown;
+      return;
+    }
+  }
+
+  private _markContactLost(key: number) {
+    this._contactLostPerPaintable.set(key, true);
+    this._endStroke(key);
+  }
+
+  private _markAllContactLost() {
+    for (const key of this._lastUVPerPaintable.keys()) {
+      this._contactLostPerPaintable.set(key, true);
+    }
+    this._endAllStrokes();
+  }
+
+  // contact lost -> close the paintable's stroke and record it for undo
+  private _endStroke(key: number) {
+    const paintable = this._strokePerPaintable.get(key);
+    if (!paintable) return;
+    this._strokePerPaintable.delete(key);
+    // replayStrokeLog already closed it; the open stroke is the replay's own
+    if (!paintable.replaying) paintable.endStroke();
+    this._undoTargets.push(paintable);
+    this._redoTargets.length = 0;
+  }
+
+  private _endAllStrokes() {
+    for (const key of [...this._strokePerPaintable.keys()]) {
+      this._endStroke(key);
+    }
   }
 
   // Attempt to find a hex color in name and set brush color if found.
@@ -274,6 +819,14 @@ export class MeshBrush extends Component {
     return hex.toLowerCase();
   }
 
+  // eyedropper: brushColor (keeping its alpha as the brush opacity) from the surface
+  private _pickSurfaceColor(paintable: MeshPaintable, hit: PaintHit) {
+    const c = paintable.pickColor(hit, this.eyedropperRadiusPx);
+    if (!c) return;
+    this.brushColor = [c[0], c[1], c[2], this.brushColor[3]];
+    this.onPickedColor(this._rgbToHex(c));
+  }
+
   // Hook called when color is picked. Default does a console.log — override or extend as needed.
   protected onPickedColor(hex: string) {
     // hex is like "#ff7700"
@@ -302,32 +855,13 @@ export class MeshBrush extends Component {
     return [r / 255, g / 255, b / 255];
   }
 
-  // Helper to fetch triangle's vertex indices from the paintable's cached arrays
-  private _getTriangleVertexIndices(
-    paintable: MeshPaintable,
-    triIndex: number,
-  ): [number, number, number] | null {
-    try {
-      const anyP: any = paintable as any;
-      const triIndices: Int32Array | undefined = anyP._triIndices;
-      if (!triIndices) return null;
-      const base = triIndex * 3;
-      return [triIndices[base + 0], triIndices[base + 1], triIndices[base + 2]];
-    } catch {
-      return null;
-    }
-  }
-
-  // Deterministic numeric fallback object id from name (if objectId missing)
-  private _stableObjectId(obj: any): number {
-    if (typeof obj.objectId === 'number') return obj.objectId;
-    const name = obj.name ?? 'anonymous_obj';
-    // simple 32-bit hash
-    let h = 0;
-    for (let i = 0; i < name.length; i++) {
-      h = (h << 5) - h + name.charCodeAt(i);
-      h |= 0;
+  // [r,g,b] normalized 0..1 -> "#rrggbb"
+  private _rgbToHex(rgb: ArrayLike<number>): string {
+    let hex = '#';
+    for (let k = 0; k < 3; k++) {
+      const c = Math.round(Math.min(Math.max(rgb[k], 0), 1) * 255);
+      hex += c.toString(16).padStart(2, '0');
     }
-    return Math.abs(h) || 1;
+    return hex;
   }
 }
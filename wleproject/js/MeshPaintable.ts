@@ -2,13 +2,119 @@
 // (same imports as before)
 import {
   Component,
+  Emitter,
   Texture,
   Material,
   MeshAttribute,
   MeshAttributeAccessor,
   Mesh,
+  MeshComponent,
+  MeshIndexType,
+  MeshSkinningType,
+  Object3D,
 } from '@wonderlandengine/api';
 import { property } from '@wonderlandengine/api/decorators.js';
+import { mat4 } from 'gl-matrix';
+import { MeshBVH } from './MeshBVH.js';
+import {
+  BlendMode,
+  BlendSources,
+  ChannelValues,
+  CompositeLayer,
+  DabFootprint,
+  DecalTarget,
+  MASK_RGB,
+  PaintChannel,
+  PaintMesh,
+  SCALAR_CHANNELS,
+  SeamMap,
+  SmudgeLoad,
+  TexelBlend,
+  TexelRect,
+  UVCanvas,
+  UVIslands,
+  anyProtected,
+  averageColor,
+  bakeVertexCavity,
+  blendWeightedRGB,
+  blurDab,
+  buildSeamMap,
+  buildUVIslands,
+  clipKeep,
+  closestPointOnTriangle,
+  compositeLayers,
+  dabRect,
+  decalTriangles,
+  dilateGutter,
+  floodRegion,
+  gutterSources,
+  heightToNormals,
+  invertMaskPixels,
+  loadTriangle,
+  maskWriter,
+  packRoughnessMetallic,
+  planarUVs,
+  projectPositions,
+  rasterizeDecalDepth,
+  rectBlend,
+  sampleDecal,
+  seamFootprints,
+  skinPositions,
+  smudgeDab,
+  sphereTexelWeights,
+  stampDab,
+  texelBounds,
+  texelCavityMap,
+  texelWriter,
+  triangleCoverage,
+  trianglesShareVertex,
+  vertexProtection,
+  weldVertices,
+} from './PaintCore.js';
+import { PaintHistory } from './PaintHistory.js';
+import { LayerStack, PaintLayerInfo } from './PaintLayers.js';
+import {
+  FrameStats,
+  benchmarkRayQueries,
+  benchmarkTextureUploads,
+} from './PaintBenchmarks.js';
+import { VertexBlend, VertexPaint } from './VertexPaint.js';
+import { unwrapMesh } from './UVUnwrap.js';
+import { DecalImage, decalImageSize } from './DecalImage.js';
+import {
+  StrokeEvent,
+  StrokeLog,
+  StrokeOp,
+  StrokeRecorder,
+} from './StrokeLog.js';
+import { StrokeReplay, applyStrokeEvent } from './StrokeReplay.js';
+import {
+  GLBMaterialImages,
+  GLBPart,
+  computeVertexNormals,
+  downloadBinary,
+  encodeGLB,
+  encodeGLBScene,
+} from './GLBExport.js';
+import {
+  PaintSessionRecord,
+  PaintSessionState,
+  canvasToPNG,
+  currentModelSource,
+  deletePaintSession,
+  drawPaintSession,
+  encodePaintSession,
+  loadPaintSession,
+  paintSessionKey,
+  savePaintSession,
+} from './PaintStore.js';
+
+// opacity of the mask tint shown in mask mode (see PaintCore.MASK_RGB)
+const MASK_TINT_OPACITY = 0.45;
+// decal images are sampled (and depth-tested) at most at this resolution
+const DECAL_MAX_SIZE = 1024;
+// colliders this close (m) in front of a paintable hit are the surface itself
+const OCCLUDER_SLACK = 0.001;
 
 /**
  * MeshPaintable - patched:
@@ -17,13 +123,210 @@ import { property } from '@wonderlandengine/api/decorators.js';
  *  - clamps UVs to [0,1] before painting
  *  - optional visual dot on each paint (markPaintOnCanvas)
  *  - optional debug logging (debugPaintLog)
+ *  - layers, masks, PBR channels, undo, vertex colors, decals, symmetry, session autosave,
+ *    GLB export and stroke replay on top of the engine-free modules: PaintCore (hit math,
+ *    pixels), PaintLayers, PaintHistory, VertexPaint, StrokeLog / StrokeReplay, PaintStore
+ *    and GLBExport
  */
 export class MeshPaintable extends Component {
   static TypeName = 'mesh-paintable';
 
+  /** Paintables with a saved session waiting for a resume / start-fresh decision. */
+  static pendingSessions = new Set<MeshPaintable>();
+  /** Notified when a paintable finds a saved session (args: paintable, savedAt ms). */
+  static onSessionFound = new Emitter<[MeshPaintable, number]>();
+  /** Active paintables with built caches, for raycastWorld. */
+  static instances = new Set<MeshPaintable>();
+  // objects added for visualization; attachToHierarchy skips them
+  private static _helperObjectIds = new Set<number>();
+  private static _nextPaintId = 1;
+
+  /**
+   * Adds a paintable for every mesh component (one per glTF primitive) below
+   * `root` that has none yet. `props` are passed to each new component.
+   */
+  static attachToHierarchy(
+    root: Object3D,
+    props: Record<string, any> = {},
+  ): MeshPaintable[] {
+    const added: MeshPaintable[] = [];
+    const stack = [root];
+    while (stack.length > 0) {
+      const obj = stack.pop()!;
+      if (MeshPaintable._helperObjectIds.has(obj.objectId)) continue;
+      const meshes = obj.getComponents('mesh');
+      const taken = new Set(
+        obj.getComponents(MeshPaintable).map((p) => p.meshIndex),
+      );
+      for (let i = 0; i < meshes.length; i++) {
+        if (taken.has(i) || !meshes[i].mesh) continue;
+        const p = obj.addComponent(MeshPaintable, { ...props, meshIndex: i });
+        if (p) added.push(p);
+      }
+      stack.push(...obj.children);
+    }
+    return added;
+  }
+
+  /**
+   * Nearest hit of a world-space ray over all paintables. `distance` is in
+   * world units along the normalized `worldDir`. A physics collider in
+   * `occluderGroups` (0 = no check) in front of that hit blocks it, unless it
+   * belongs to a paintable or one of the hit paintable's ancestors.
+   */
+  static raycastWorld(
+    worldOrigin: ArrayLike<number>,
+    worldDir: ArrayLike<number>,
+    maxDistance: number,
+    occluderGroups = -1,
+  ): { paintable: MeshPaintable; hit: PaintHit; distance: number } | null {
+    const origin = new Float32Array([
+      worldOrigin[0],
+      worldOrigin[1],
+      worldOrigin[2],
+    ]);
+    const end = new Float32Array(3);
+    const localOrigin = new Float32Array(3);
+    const localDir = new Float32Array(3);
+    const world = new Float32Array(3);
+    let best: {
+      paintable: MeshPaintable;
+      hit: PaintHit;
+      distance: number;
+    } | null = null;
+    for (const p of MeshPaintable.instances) {
+      if (!p.active) continue;
+      for (let k = 0; k < 3; k++)
+        end[k] = worldOrigin[k] + worldDir[k] * maxDistance;
+      p.object.transformPointInverseWorld(localOrigin, origin);
+      p.object.transformPointInverseWorld(localDir, end);
+      for (let k = 0; k < 3; k++) localDir[k] -= localOrigin[k];
+      const localMax = Math.hypot(localDir[0], localDir[1], localDir[2]);
+      if (!(localMax > 0)) continue;
+      for (let k = 0; k < 3; k++) localDir[k] /= localMax;
+
+      const hit = p.getUVFromLocalRay(localOrigin, localDir, localMax);
+      if (!hit) continue;
+      p.object.transformPointWorld(world, hit.localHit);
+      const distance = Math.hypot(
+        world[0] - origin[0],
+        world[1] - origin[1],
+        world[2] - origin[2],
+      );
+      if (!best || distance < best.distance) {
+        best = { paintable: p, hit, distance };
+      }
+    }
+    if (best && occluderGroups !== 0 && best.distance > OCCLUDER_SLACK) {
+      const physics = best.paintable.engine.physics;
+      const dir = new Float32Array([worldDir[0], worldDir[1], worldDir[2]]);
+      const hits = physics?.rayCast(
+        origin,
+        dir,
+        occluderGroups,
+        best.distance - OCCLUDER_SLACK,
+      );
+      const count = hits?.hitCount ?? 0;
+      const objects = count > 0 ? hits!.getObjects() : [];
+      for (let i = 0; i < count; i++) {
+        if (isOccluder(objects[i], best.paintable.object)) return null;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Projects `image` onto every active paintable from a world-space
+   * perspective projector looking along `worldForward`. Each triangle facing
+   * the projector inside its frustum is rasterized in UV space and samples the
+   * image; surfaces hidden behind nearer geometry (of any paintable) are left
+   * untouched. Returns the paintables that received paint (each as one
+   * stroke unless a stroke is open on it).
+   */
+  static projectDecal(
+    image: DecalImage,
+    worldOrigin: ArrayLike<number>,
+    worldForward: ArrayLike<number>,
+    worldUp: ArrayLike<number>,
+    options: DecalOptions = {},
+  ): MeshPaintable[] {
+    const [w, h] = decalImageSize(image);
+    if (!(w > 0 && h > 0)) return [];
+    const scale = Math.min(1, DECAL_MAX_SIZE / Math.max(w, h));
+    const width = Math.max(1, Math.round(w * scale)),
+      height = Math.max(1, Math.round(h * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return [];
+    ctx.drawImage(image, 0, 0, width, height);
+    let pixels: Uint8ClampedArray;
+    try {
+      pixels = ctx.getImageData(0, 0, width, height).data;
+    } catch (e) {
+      console.warn('mesh-paintable: decal image not readable (CORS?)', e);
+      return [];
+    }
+
+    const eye = new Float32Array([
+      worldOrigin[0],
+      worldOrigin[1],
+      worldOrigin[2],
+    ]);
+    const center = new Float32Array(3);
+    for (let k = 0; k < 3; k++) center[k] = eye[k] + worldForward[k];
+    const up = new Float32Array([worldUp[0], worldUp[1], worldUp[2]]);
+    // lookAt degenerates when up is parallel to the view direction
+    const side = Math.hypot(
+      worldForward[1] * up[2] - worldForward[2] * up[1],
+      worldForward[2] * up[0] - worldForward[0] * up[2],
+      worldForward[0] * up[1] - worldForward[1] * up[0],
+    );
+    if (side < 1e-6)
+      up.set(Math.abs(worldForward[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0]);
+    const far = options.far ?? 2;
+    const viewProj = mat4.perspective(
+      mat4.create(),
+      ((options.fov ?? 30) * Math.PI) / 180,
+      width / height,
+      far * 1e-3,
+      far,
+    );
+    mat4.multiply(
+      viewProj,
+      viewProj,
+      mat4.lookAt(mat4.create(), eye, center, up),
+    );
+
+    const pass: DecalPass = {
+      data: pixels,
+      width,
+      height,
+      depth: new Float32Array(width * height).fill(Infinity),
+      options,
+    };
+    const paintables = [...MeshPaintable.instances].filter(
+      (p) => p.active && p._positionsFlat,
+    );
+    // depth of every paintable first, so they occlude each other
+    const clips = paintables.map((p) => p._projectVertices(viewProj));
+    paintables.forEach((p, i) =>
+      rasterizeDecalDepth(clips[i], p._triIndices!, pass),
+    );
+    return paintables.filter((p, i) => p._applyDecal(clips[i], pass));
+  }
+
+  /** Unique per instance; MeshBrush keys stroke continuity by it. */
+  readonly paintId = MeshPaintable._nextPaintId++;
+
   @property.material()
   material: Material | null = null;
 
+  // which mesh component on this object to paint (glTF primitives become separate components)
+  @property.int(0)
+  meshIndex = 0;
+
   @property.int(1024)
   textureWidth = 1024;
 
@@ -33,12 +336,32 @@ export class MeshPaintable extends Component {
   @property.color(1, 1, 1, 1)
   initialColor: [number, number, number, number] = [1, 1, 1, 1];
 
+  // start from the material's albedo / diffuse texture (resampled to the canvas size) instead
+  // of a blank canvas: 'base' draws it over initialColor in the base layer (erase restores it),
+  // 'layer' adds it as a 'Texture' layer above the base
+  @property.enum(['none', 'base', 'layer'], 'none')
+  initialTexture = 0;
+
   @property.bool(true)
   flipY = true;
 
   @property.bool(false)
   showUvDebug = false;
 
+  // generate a non-overlapping UV atlas when the mesh has no usable texture coordinates
+  @property.bool(true)
+  autoUnwrap = true;
+
+  // 'vertex': paint into the mesh's vertex colors (MeshAttribute.Color, updated in place)
+  // instead of a texture, for scans with unusable UVs; the material must use vertex colors
+  @property.enum(['texture', 'vertex'], 'texture')
+  paintMode = 0;
+
+  // hit tests on skinned meshes follow the current pose (CPU skinning, at most once per frame)
+  @property.bool(true)
+  followSkinnedPose = true;
+
+  // X/Z box projection for meshes without UVs, used only when autoUnwrap is off
   @property.bool(true)
   planarFallback = true;
 
@@ -50,35 +373,235 @@ export class MeshPaintable extends Component {
   @property.bool(false)
   debugPaintLog = false;
 
+  // log BVH vs brute-force ray query timings and hit agreement after caches are built
+  @property.bool(false)
+  benchmarkBvh = false;
+
+  // memory budget (MB) for undo/redo tile snapshots; oldest strokes are dropped past it
+  @property.int(64)
+  historyBudgetMB = 64;
+
+  // save layers to IndexedDB and offer to restore them on the next start
+  @property.bool(true)
+  persistSession = true;
+
+  // seconds between auto-saves (only when something changed)
+  @property.float(30)
+  autosaveInterval = 30;
+
+  // wait for resumeSavedSession()/discardSavedSession() (intro overlay) instead of resuming right away
+  @property.bool(true)
+  promptResume = true;
+
+  // mirror dabs across UV seams and clip each dab to the UV island it landed on
+  @property.bool(true)
+  seamAware = true;
+
+  // texels of island border dilated into the gutter after each dab (0 = off)
+  @property.int(4)
+  gutterPx = 4;
+
+  // paintable roughness + metallic canvases, bound to the material's roughnessMetallicTexture
+  @property.bool(false)
+  pbrChannels = false;
+
+  @property.float(1.0)
+  initialRoughness = 1.0;
+
+  @property.float(0.0)
+  initialMetallic = 0.0;
+
+  // paintable height canvas, converted to a tangent-space normalTexture
+  @property.bool(false)
+  heightToNormal = false;
+
+  @property.float(2.0)
+  normalStrength = 2.0;
+
+  // neighbour-averaging rounds of the cavity bake behind wash / drybrush (more = wider crevices)
+  @property.int(2)
+  cavitySmoothing = 2;
+
+  // mirror brush hits across these local axis planes (through the object origin)
+  @property.bool(false)
+  symmetryX = false;
+
+  @property.bool(false)
+  symmetryY = false;
+
+  @property.bool(false)
+  symmetryZ = false;
+
+  // mirrored points farther than this fraction of the mesh size from the surface are dropped
+  @property.float(0.05)
+  symmetryTolerance = 0.05;
+
+  // translucent quads showing the enabled symmetry planes
+  @property.bool(true)
+  showSymmetryPlanes = true;
+
+  // material for those quads (default: a 'Flat Transparent' material, if the project has the pipeline)
+  @property.material()
+  symmetryPlaneMaterial: Material | null = null;
+
+  // in mask mode, paint calls remove protection instead of adding it
+  @property.bool(false)
+  maskErase = false;
+
+  // composite + upload dirty regions once per frame instead of a full upload per dab
+  @property.bool(true)
+  batchUploads = true;
+
+  // log paint / composite+upload time per frame every 2 s while painting
+  @property.bool(false)
+  logFrameTimes = false;
+
+  // time a synthetic long stroke with per-dab vs batched uploads at start (then undo it)
+  @property.bool(false)
+  benchmarkUploads = false;
+
+  // start a StrokeLog recording at start (read it back with stopRecording)
+  @property.bool(false)
+  recordStrokes = false;
+
+  // timelapse speed multiplier; may be changed while a replay runs
+  @property.float(1)
+  replaySpeed = 1;
+
+  // pauses between recorded events longer than this (ms) are shortened in replays (0 = keep)
+  @property.float(500)
+  replayMaxGap = 500;
+
+  // composite of all visible layers; this is what canvasTexture uploads
   private canvas!: HTMLCanvasElement;
   private ctx!: CanvasRenderingContext2D;
+  private _stack = new LayerStack<PaintLayer>();
+  /** Channels written by paint calls (MeshBrush sets this from its channel settings). */
+  channelValues: ChannelValues = { color: true };
+  /** How paint calls combine with existing paint (MeshBrush sets this per dab). */
+  blendMode: BlendMode = 'normal';
+  // material texture at canvas size (initialTexture), kept for resetCanvas
+  private _initialImage: HTMLCanvasElement | null = null;
+  // color each smudge stream carries, per target (reset with every new stroke)
+  private _smudgeLoads = new Map<
+    CanvasRenderingContext2D,
+    Map<number, SmudgeLoad>
+  >();
+  private _smudgeStrokeId = -1;
+  // wash / drybrush: baked cavity per vertex and per texel (see bakeCavityMap)
+  private _vertexCavity: Float32Array | null = null;
+  private _texelCavity: Float32Array | null = null;
+  // scalar channels (gray = value) and the textures they are packed into
+  private _channels: Partial<Record<PaintChannel, PaintLayer>> = {};
+  private _rmCanvas: HTMLCanvasElement | null = null;
+  private _rmTexture: Texture | null = null;
+  private _normalCanvas: HTMLCanvasElement | null = null;
+  private _normalTexture: Texture | null = null;
+
+  // protection mask (alpha), edited in mask mode
+  private _maskCanvas!: HTMLCanvasElement;
+  private _maskCtx!: CanvasRenderingContext2D;
+  private _maskMode = false;
+  // skips mask reads until something was masked
+  private _maskEmpty = true;
   private canvasTexture!: Texture;
   private created = false;
-
-  // cached mesh arrays
+  private _history = new PaintHistory();
+
+  // session persistence
+  private _sessionKey: string | null = null;
+  private _savedSession: PaintSessionRecord | null = null;
+  // autosave stays off until a saved session was resumed or discarded, so it is never overwritten
+  private _autosaveEnabled = false;
+  private _dirtySinceSave = false;
+  private _autosaveTimer = 0;
+  private _saving: Promise<void> | null = null;
+  private _onPageHide = () => {
+    this.saveSession();
+  };
+
+  // cached mesh arrays (views of _core's)
   private _meshRef: Mesh | null = null;
+  private _core: PaintMesh | null = null;
   private _positionsFlat: Float32Array | null = null;
   private _uvsFlat: Float32Array | null = null;
+  // generated atlas when the mesh has no TextureCoordinate attribute to store it in
+  private _generatedUVs: Float32Array | null = null;
   private _triIndices: Int32Array | null = null;
-  private _triMin: Float32Array | null = null;
-  private _triMax: Float32Array | null = null;
-  private _triAreas: Float32Array | null = null;
-  private _triCum: Float32Array | null = null;
   private _triCount = 0;
-  private _triTotalArea = 0;
+  private _bvh: MeshBVH | null = null;
+
+  // skinned meshes: bind pose + joints; _positionsFlat holds the current pose
+  private _bindPositions: Float32Array | null = null;
+  private _joints: Object3D[] = [];
+  private _jointIds: Uint16Array | null = null;
+  private _jointWeights: Float32Array | null = null;
+  private _jointsPerVertex = 0;
+  private _inverseBind: Float32Array | null = null;
+  private _inverseBindScaling: Float32Array | null = null;
+  private _jointMatrices: Float32Array | null = null;
+  private _poseStale = false;
+  private _tmpDualQuat = new Float32Array(8);
+  private _tmpScale = new Float32Array(3);
+  private _tmpMat0 = mat4.create();
+  private _tmpMat1 = mat4.create();
+  private _tmpMat2 = mat4.create();
+
+  // vertex mode: colors painted here, uploaded for the changed range once per frame
+  private _vertexPaint: VertexPaint | null = null;
+  private _colorAttr: MeshAttributeAccessor | null = null;
+
+  // stroke recording and timelapse replay
+  private _recorder: StrokeRecorder | null = null;
+  private _replay: ReplayRun | null = null;
+  // vertex mode: mask protection per vertex, read once per stroke
+  private _vertexMask: { strokeId: number; values: Float32Array } | null = null;
+
+  // plane quad objects per axis, created when first shown
+  private _symmetryPlanes: (Object3D | null)[] = [null, null, null];
 
   private _tmpP0 = new Float32Array(3);
+  private _tmpRecordPoint = new Float32Array(3);
   private _tmpP1 = new Float32Array(3);
   private _tmpP2 = new Float32Array(3);
+  // closest point xyz + barycentric weights of vertex 1 and 2
+  private _tmpClosest = new Float32Array(5);
+
+  // welded edges and UV seams (bind pose), and the UV islands on the canvas
+  private _seams: SeamMap | null = null;
+  private _islands: UVIslands | null = null;
+  // gutter texel -> nearest island texel it copies from, or -1
+  private _gutterSource: Int32Array | null = null;
+  // texel rect touched by the current paintAtUV call [x0, y0, x1, y1)
+  private _dirtyRect = [0, 0, 0, 0];
+  // composite rect awaiting the next flush [x0, y0, x1, y1), empty when x0 >= x1
+  private _pendingRect = [0, 0, 0, 0];
+  // copy of the dirty region at (0, 0): sub-image uploads without a source offset are fastest
+  private _staging: HTMLCanvasElement | null = null;
+  private _onPreRender = () => {
+    if (this.logFrameTimes) this._logFrameTimes();
+    // joints may have moved; re-skin lazily on the next hit test
+    if (this._bindPositions) this._poseStale = true;
+    this._advanceReplay();
+    this._flushVertexColors();
+    this.flushTexture();
+  };
+  private _frameStats = new FrameStats();
 
   start(): void {
-    const meshComp = this.object.getComponent('mesh');
+    const meshComp = this.object.getComponents('mesh')[this.meshIndex];
     if (!meshComp || !meshComp.mesh) {
-      console.warn('mesh-paintable: no mesh component found on object');
+      console.warn(
+        `mesh-paintable: no mesh component #${this.meshIndex} on ${this.object.name}`,
+      );
       return;
     }
 
-    const mesh = meshComp.mesh;
+    let mesh = meshComp.mesh;
+    const vertexMode = this.paintMode === 1;
+    if (this.autoUnwrap && !vertexMode && !hasUsableUVs(mesh)) {
+      mesh = this._unwrapMesh(meshComp, mesh);
+    }
     this._meshRef = mesh;
 
     // canvas
@@ -91,18 +614,36 @@ export class MeshPaintable extends Component {
       return;
     }
     this.ctx = ctx;
+    this._history.budgetBytes = this.historyBudgetMB * 1024 * 1024;
 
-    // fill initial background
-    const c = this.initialColor;
-    this.ctx.fillStyle = `rgba(${Math.round(c[0] * 255)}, ${Math.round(
-      c[1] * 255,
-    )}, ${Math.round(c[2] * 255)}, ${c[3]})`;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    const mask = this._createLayer('Mask');
+    if (!mask) return;
+    this._maskCanvas = mask.canvas;
+    this._maskCtx = mask.ctx;
+
+    // read before the canvas texture replaces it on the material
+    if (this.initialTexture !== 0 && !vertexMode) {
+      this._initialImage = this._readMaterialTexture(
+        this.material ?? meshComp.material,
+      );
+    }
+    const base = this._createBaseLayer();
+    if (!base) return;
+    this._stack.replace([base]);
+    this._addTextureLayer();
 
     if (this.showUvDebug) this.drawUvDebug();
+    base.baseImage = base.ctx.getImageData(
+      0,
+      0,
+      this.canvas.width,
+      this.canvas.height,
+    );
+    this._composite(0, 0, this.canvas.width, this.canvas.height);
 
     // create engine texture
     this.canvasTexture = this.engine.textures.create(this.canvas);
+    this.engine.scene.onPreRender.add(this._onPreRender);
 
     // assign to material (attempt multiple common slots) - FIX #1
     if (!this.material) {
@@ -112,7 +653,8 @@ export class MeshPaintable extends Component {
         this.material = null;
       }
     }
-    if (this.material) {
+    // vertex mode keeps the material's own textures
+    if (this.material && !vertexMode) {
       try {
         // try preferred API
         if ((this.material as any).setDiffuseTexture) {
@@ -135,6 +677,7 @@ export class MeshPaintable extends Component {
 
       // NOTE: some material systems use named uniforms etc. We attempt common names so the shader sees our canvas.
     }
+    if (!vertexMode) this._createChannels();
 
     // try to set wrap/clamp so UVs outside 0..1 don't tile - FIX #2 (best-effort)
     try {
@@ -165,6 +708,131 @@ export class MeshPaintable extends Component {
 
     // build caches
     this._buildMeshCaches(mesh);
+    if (this.followSkinnedPose) this._initSkinning(meshComp, mesh);
+    if (vertexMode) this._initVertexColors(mesh);
+    if (this.benchmarkBvh) this.benchmarkRayQueries();
+    if (this.benchmarkUploads) this.benchmarkTextureUploads();
+    if (!vertexMode && this._uvsFlat && (this.seamAware || this.gutterPx > 0)) {
+      this._buildSeamMap();
+      this._buildIslandMaps();
+    }
+    this._updateSymmetryPlanes();
+    if (this.recordStrokes) this.startRecording();
+
+    MeshPaintable.instances.add(this);
+
+    if (this.persistSession) {
+      // meshIndex 0 keeps the key of sessions saved before multi-mesh support
+      const part = this.meshIndex > 0 ? `#${this.meshIndex}` : '';
+      this._sessionKey = paintSessionKey(
+        currentModelSource(),
+        `${this.object.name}${part}:${mesh.vertexCount}:${this._triCount}`,
+      );
+      window.addEventListener('pagehide', this._onPageHide);
+      this._findSavedSession();
+    }
+  }
+
+  update(dt: number): void {
+    if (!this._autosaveEnabled || !this._dirtySinceSave) return;
+    this._autosaveTimer += dt;
+    if (this._autosaveTimer >= this.autosaveInterval) this.saveSession();
+  }
+
+  onDestroy(): void {
+    window.removeEventListener('pagehide', this._onPageHide);
+    this.engine.scene.onPreRender.remove(this._onPreRender);
+    MeshPaintable.instances.delete(this);
+    MeshPaintable.pendingSessions.delete(this);
+    this.stopReplay();
+    this.saveSession();
+    for (const plane of this._symmetryPlanes) {
+      if (!plane) continue;
+      MeshPaintable._helperObjectIds.delete(plane.objectId);
+      plane.destroy();
+    }
+  }
+
+  // replaces the component's mesh with a copy whose vertices are split along
+  // the charts of a generated UV atlas; other attributes are carried over
+  private _unwrapMesh(meshComp: MeshComponent, mesh: Mesh): Mesh {
+    const posAttr = mesh.attribute(MeshAttribute.Position);
+    if (!posAttr) return mesh;
+    const vertexCount = mesh.vertexCount;
+    const positions = posAttr.createArray(vertexCount);
+    posAttr.get(0, positions);
+    let indices: ArrayLike<number> | null = mesh.indexData;
+    if (!indices || indices.length === 0) {
+      indices = Uint32Array.from({ length: vertexCount }, (_, i) => i);
+    }
+
+    const t0 = performance.now();
+    const atlas = unwrapMesh(positions, indices, {
+      // leave room for gutter dilation on both sides of every chart border
+      paddingPx: Math.max(4, this.gutterPx * 2),
+      textureSize: Math.max(this.textureWidth, this.textureHeight),
+    });
+    const outCount = atlas.sourceVertex.length;
+
+    const jointIds = mesh.attribute(MeshAttribute.JointId);
+    let skinningType = MeshSkinningType.None;
+    if (jointIds) {
+      skinningType =
+        jointIds.createArray(1).length > 4
+          ? MeshSkinningType.EightJoints
+          : MeshSkinningType.FourJoints;
+    }
+    const out = this.engine.meshes.create({
+      vertexCount: outCount,
+      indexData: atlas.indices,
+      indexType:
+        outCount > 65535
+          ? MeshIndexType.UnsignedInt
+          : MeshIndexType.UnsignedShort,
+      skinningType,
+    });
+
+    for (const attr of [
+      MeshAttribute.Position,
+      MeshAttribute.Tangent,
+      MeshAttribute.Normal,
+      MeshAttribute.Color,
+      MeshAttribute.JointId,
+      MeshAttribute.JointWeight,
+      MeshAttribute.SecondaryTextureCoordinate,
+    ]) {
+      const src = mesh.attribute(attr);
+      const dst = out.attribute(attr);
+      if (!src || !dst) continue;
+      const data = src.createArray(vertexCount);
+      src.get(0, data);
+      const n = data.length / vertexCount;
+      const split = dst.createArray(outCount);
+      for (let i = 0; i < outCount; i++) {
+        const from = atlas.sourceVertex[i] * n;
+        for (let k = 0; k < n; k++) split[i * n + k] = data[from + k];
+      }
+      dst.set(0, split);
+    }
+
+    const uvAttr = out.attribute(MeshAttribute.TextureCoordinate);
+    if (uvAttr) {
+      uvAttr.set(0, atlas.uvs);
+    } else {
+      // no shader in the scene reads UVs; keep the atlas for painting and export
+      this._generatedUVs = atlas.uvs;
+    }
+    out.update();
+    meshComp.mesh = out;
+
+    console.log(
+      `mesh-paintable: generated UV atlas for ${this.object.name}: ${
+        atlas.chartCount
+      } charts, ${vertexCount} -> ${outCount} vertices in ${(
+        performance.now() - t0
+      ).toFixed(1)} ms`,
+    );
+    return out;
   }
 
   private _buildMeshCaches(mesh: Mesh) {
@@ -172,7 +840,7 @@ export class MeshPaintable extends Component {
       mesh.attribute(MeshAttribute.Position) ?? null;
     const uvAttr: MeshAttributeAccessor | null =
       mesh.attribute(MeshAttribute.TextureCoordinate) ?? null;
-    const indices: Int32Array | null = mesh.indexData ?? null;
+    const indices = mesh.indexData;
 
     if (!posAttr) {
       console.warn('mesh-paintable: mesh missing Position attribute');
@@ -192,6 +860,8 @@ export class MeshPaintable extends Component {
         uvAttr.get(i, uvsFlat.subarray(i * 2, i * 2 + 2));
       }
       this._uvsFlat = uvsFlat;
+    } else if (this._generatedUVs) {
+      this._uvsFlat = this._generatedUVs;
     } else {
       this._uvsFlat = null;
       if (!this.planarFallback) {
@@ -205,241 +875,509 @@ export class MeshPaintable extends Component {
       }
     }
 
-    let triCount = 0;
-    let triIndices: Int32Array;
-    if (indices && indices.length > 0) {
-      triCount = indices.length / 3;
-      triIndices = new Int32Array(indices.length);
-      triIndices.set(indices);
-    } else {
-      triCount = vertexCount / 3;
-      triIndices = new Int32Array(triCount * 3);
-      for (let t = 0; t < triCount; t++) {
-        triIndices[t * 3 + 0] = t * 3 + 0;
-        triIndices[t * 3 + 1] = t * 3 + 1;
-        triIndices[t * 3 + 2] = t * 3 + 2;
-      }
+    const core = new PaintMesh(positionsFlat, this._uvsFlat, indices);
+    this._core = core;
+    this._triCount = core.triCount;
+    this._triIndices = core.indices;
+    this._bvh = core.bvh;
+  }
+
+  // --- skinned meshes ---
+
+  // keeps the bind pose and per-vertex joints of a skinned mesh component
+  private _initSkinning(meshComp: MeshComponent, mesh: Mesh) {
+    const skin = meshComp.skin;
+    const positions = this._positionsFlat;
+    if (!skin || !positions || skin.jointCount === 0) return;
+    const ids = mesh.attribute(MeshAttribute.JointId);
+    const weights = mesh.attribute(MeshAttribute.JointWeight);
+    if (!ids || !weights) {
+      console.warn('mesh-paintable: skinned mesh without joint attributes');
+      return;
+    }
+
+    const vertexCount = positions.length / 3;
+    const n = ids.createArray(1).length;
+    const jointIds = new Uint16Array(vertexCount * n);
+    const jointWeights = new Float32Array(vertexCount * n);
+    for (let i = 0; i < vertexCount; i++) {
+      ids.get(i, jointIds.subarray(i * n, i * n + n));
+      weights.get(i, jointWeights.subarray(i * n, i * n + n));
     }
 
-    this._triCount = triCount;
-    this._triIndices = triIndices;
-
-    const triMin = new Float32Array(triCount * 3);
-    const triMax = new Float32Array(triCount * 3);
-    const triAreas = new Float32Array(triCount);
-    let totalArea = 0;
-    const tmp0 = this._tmpP0,
-      tmp1 = this._tmpP1,
-      tmp2 = this._tmpP2;
-
-    for (let t = 0; t < triCount; t++) {
-      const i0 = triIndices[t * 3 + 0],
-        i1 = triIndices[t * 3 + 1],
-        i2 = triIndices[t * 3 + 2];
-
-      tmp0[0] = positionsFlat[i0 * 3 + 0];
-      tmp0[1] = positionsFlat[i0 * 3 + 1];
-      tmp0[2] = positionsFlat[i0 * 3 + 2];
-      tmp1[0] = positionsFlat[i1 * 3 + 0];
-      tmp1[1] = positionsFlat[i1 * 3 + 1];
-      tmp1[2] = positionsFlat[i1 * 3 + 2];
-      tmp2[0] = positionsFlat[i2 * 3 + 0];
-      tmp2[1] = positionsFlat[i2 * 3 + 1];
-      tmp2[2] = positionsFlat[i2 * 3 + 2];
-
-      triMin[t * 3 + 0] = Math.min(tmp0[0], tmp1[0], tmp2[0]);
-      triMin[t * 3 + 1] = Math.min(tmp0[1], tmp1[1], tmp2[1]);
-      triMin[t * 3 + 2] = Math.min(tmp0[2], tmp1[2], tmp2[2]);
-
-      triMax[t * 3 + 0] = Math.max(tmp0[0], tmp1[0], tmp2[0]);
-      triMax[t * 3 + 1] = Math.max(tmp0[1], tmp1[1], tmp2[1]);
-      triMax[t * 3 + 2] = Math.max(tmp0[2], tmp1[2], tmp2[2]);
-
-      const abx = tmp1[0] - tmp0[0],
-        aby = tmp1[1] - tmp0[1],
-        abz = tmp1[2] - tmp0[2];
-      const acx = tmp2[0] - tmp0[0],
-        acy = tmp2[1] - tmp0[1],
-        acz = tmp2[2] - tmp0[2];
-      const cx = aby * acz - abz * acy;
-      const cy = abz * acx - abx * acz;
-      const cz = abx * acy - aby * acx;
-      const area = 0.5 * Math.hypot(cx, cy, cz);
-      triAreas[t] = area;
-      totalArea += area;
-    }
-
-    const triCum = new Float32Array(triCount + 1);
-    let cum = 0;
-    for (let t = 0; t < triCount; t++) {
-      triCum[t] = cum;
-      cum += triAreas[t];
-    }
-    triCum[triCount] = cum;
-
-    this._triMin = triMin;
-    this._triMax = triMax;
-    this._triAreas = triAreas;
-    this._triCum = triCum;
-    this._triTotalArea = cum;
+    this._jointsPerVertex = n;
+    this._jointIds = jointIds;
+    this._jointWeights = jointWeights;
+    this._joints = Array.from(skin.jointIds, (id) => this.scene.wrap(id));
+    // copies: the getters return views into engine memory
+    this._inverseBind = skin.inverseBindTransforms.slice();
+    this._inverseBindScaling = skin.inverseBindScalings.slice();
+    this._jointMatrices = new Float32Array(skin.jointCount * 16);
+    this._bindPositions = positions.slice();
+    this._poseStale = true;
   }
 
-  getUVFromLocalRay(
-    localOrigin: Float32Array,
-    localDir: Float32Array,
-    maxDistance = Infinity,
-  ): {
-    uv: [number, number];
-    triIndex: number;
-    localHit: [number, number, number];
-  } | null {
-    const positions = this._positionsFlat;
-    const triIndices = this._triIndices;
-    const triMin = this._triMin;
-    const triMax = this._triMax;
-    const triCount = this._triCount;
-
-    if (!positions || !triIndices || !triMin || !triMax) return null;
-
-    const localEnd = new Float32Array(3);
-    localEnd[0] = localOrigin[0] + localDir[0] * maxDistance;
-    localEnd[1] = localOrigin[1] + localDir[1] * maxDistance;
-    localEnd[2] = localOrigin[2] + localDir[2] * maxDistance;
-
-    const rayMinX = Math.min(localOrigin[0], localEnd[0]);
-    const rayMinY = Math.min(localOrigin[1], localEnd[1]);
-    const rayMinZ = Math.min(localOrigin[2], localEnd[2]);
-    const rayMaxX = Math.max(localOrigin[0], localEnd[0]);
-    const rayMaxY = Math.max(localOrigin[1], localEnd[1]);
-    const rayMaxZ = Math.max(localOrigin[2], localEnd[2]);
-
-    let closestT = Infinity;
-    let bestTri: number | null = null;
-    let bestU = 0,
-      bestV = 0;
-    let bestLocalHit: Float32Array | null = null;
-    const p0 = this._tmpP0,
-      p1 = this._tmpP1,
-      p2 = this._tmpP2;
+  // re-skins the hit-test geometry once per frame, when a query needs it
+  private _syncPose() {
+    if (this._poseStale) this._updatePose();
+  }
 
-    for (let t = 0; t < triCount; t++) {
-      const minX = triMin[t * 3 + 0],
-        minY = triMin[t * 3 + 1],
-        minZ = triMin[t * 3 + 2];
-      const maxX = triMax[t * 3 + 0],
-        maxY = triMax[t * 3 + 1],
-        maxZ = triMax[t * 3 + 2];
-
-      if (
-        maxX < rayMinX ||
-        minX > rayMaxX ||
-        maxY < rayMinY ||
-        minY > rayMaxY ||
-        maxZ < rayMinZ ||
-        minZ > rayMaxZ
-      ) {
-        continue;
-      }
+  // CPU skinning of the bind pose into _positionsFlat (object-local space)
+  private _updatePose() {
+    this._poseStale = false;
+    this._updateJointMatrices();
+    skinPositions(
+      this._bindPositions!,
+      this._positionsFlat!,
+      this._jointIds!,
+      this._jointWeights!,
+      this._jointsPerVertex,
+      this._jointMatrices!,
+    );
+    this._core!.refit();
+  }
+
+  // joint world transform * inverse bind, expressed in this object's local space
+  private _updateJointMatrices() {
+    const dq = this._tmpDualQuat;
+    const scale = this._tmpScale;
+    const toLocal = this._tmpMat0;
+    const joint = this._tmpMat1;
+    const inverseBind = this._tmpMat2;
+
+    this.object.getTransformWorld(dq);
+    mat4.fromQuat2(toLocal, dq);
+    mat4.scale(toLocal, toLocal, this.object.getScalingWorld(scale));
+    mat4.invert(toLocal, toLocal);
+
+    const out = this._jointMatrices!;
+    for (let j = 0; j < this._joints.length; j++) {
+      this._joints[j].getTransformWorld(dq);
+      mat4.fromQuat2(joint, dq);
+      mat4.scale(joint, joint, this._joints[j].getScalingWorld(scale));
+      mat4.fromQuat2(
+        inverseBind,
+        this._inverseBind!.subarray(j * 8, j * 8 + 8),
+      );
+      mat4.scale(
+        inverseBind,
+        inverseBind,
+        this._inverseBindScaling!.subarray(j * 3, j * 3 + 3),
+      );
+      mat4.multiply(joint, joint, inverseBind);
+      mat4.multiply(joint, toLocal, joint);
+      out.set(joint, j * 16);
+    }
+  }
+
+  // --- vertex colors ---
 
-      const vi0 = triIndices[t * 3 + 0],
-        vi1 = triIndices[t * 3 + 1],
-        vi2 = triIndices[t * 3 + 2];
-
-      p0[0] = positions[vi0 * 3 + 0];
-      p0[1] = positions[vi0 * 3 + 1];
-      p0[2] = positions[vi0 * 3 + 2];
-      p1[0] = positions[vi1 * 3 + 0];
-      p1[1] = positions[vi1 * 3 + 1];
-      p1[2] = positions[vi1 * 3 + 2];
-      p2[0] = positions[vi2 * 3 + 0];
-      p2[1] = positions[vi2 * 3 + 1];
-      p2[2] = positions[vi2 * 3 + 2];
-
-      const hit = rayTriangleIntersectMollerTrumbore(
-        localOrigin,
-        localDir,
-        p0,
-        p1,
-        p2,
+  private _initVertexColors(mesh: Mesh) {
+    const attr = mesh.attribute(MeshAttribute.Color);
+    if (!attr) {
+      // the engine only keeps the attribute when some pipeline reads vertex colors
+      console.warn(
+        'mesh-paintable: paintMode vertex needs a material using vertex colors',
       );
-      if (hit && hit.t > 1e-6 && hit.t < closestT && hit.t <= maxDistance) {
-        closestT = hit.t;
-        bestTri = t;
-        bestU = hit.u;
-        bestV = hit.v;
-        bestLocalHit = new Float32Array([
-          localOrigin[0] + localDir[0] * hit.t,
-          localOrigin[1] + localDir[1] * hit.t,
-          localOrigin[2] + localDir[2] * hit.t,
-        ]);
+      return;
+    }
+    const count = attr.length;
+    const colors = new Float32Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      attr.get(i, colors.subarray(i * 4, i * 4 + 4));
+    }
+    // meshes without color data read back as zeros: start from white
+    const blank = colors.every((c) => c === 0);
+    if (blank) colors.fill(1);
+    this._colorAttr = attr;
+    this._vertexPaint = new VertexPaint(colors);
+    if (blank) this._vertexPaint.markChanged(0, count - 1);
+  }
+
+  // blends the color into vertices inside the sphere, with paintInSphere's falloff
+  private _paintVertices(
+    center: ArrayLike<number>,
+    radius: number,
+    colorRGBA: [number, number, number, number],
+    hardness: number,
+  ): boolean {
+    const core = this._core;
+    if (!core || !(radius > 0)) return false;
+    const t0 = performance.now();
+    this._syncPose();
+    const painted = this._vertexPaint!.paintSphere(
+      core,
+      center,
+      radius,
+      hardness,
+      colorRGBA,
+      this._history,
+      this._vertexBlend(),
+    );
+    if (painted) this._dirtySinceSave = true;
+
+    this._frameStats.addDab(performance.now() - t0);
+    return painted;
+  }
+
+  private _fillVertices(
+    tris: number[],
+    colorRGBA: [number, number, number, number],
+  ) {
+    const painted = this._vertexPaint!.fillTriangles(
+      this._triIndices!,
+      tris,
+      colorRGBA,
+      this._history,
+      this._vertexBlend(),
+    );
+    if (painted) this._dirtySinceSave = true;
+  }
+
+  private _vertexBlend(): VertexBlend {
+    const mode = this.blendMode;
+    return {
+      mode,
+      protection: this._vertexProtection(),
+      cavity:
+        mode === 'wash' || mode === 'drybrush'
+          ? (this._vertexCavity ?? this.bakeCavityMap())
+          : null,
+    };
+  }
+
+  // the mask (painted in UV space) at each vertex, read once per stroke
+  // (MeshBrush ends its strokes when switching to mask mode); null when
+  // nothing is masked or the mesh has no UVs
+  private _vertexProtection(): Float32Array | null {
+    if (this._maskEmpty || !this._uvsFlat) return null;
+    const strokeId = this._history.strokeId;
+    if (this._vertexMask?.strokeId !== strokeId) {
+      const { width: W, height: H } = this.canvas;
+      const mask = this._maskCtx.getImageData(0, 0, W, H);
+      this._vertexMask = {
+        strokeId,
+        values: vertexProtection(mask, this._uvsFlat, this.flipY),
+      };
+    }
+    return this._vertexMask.values;
+  }
+
+  // uploads the changed vertex range (one attribute write per frame)
+  private _flushVertexColors() {
+    const range = this._vertexPaint?.takeChanged();
+    if (!this._colorAttr || !range) return;
+    const colors = this._vertexPaint!.colors;
+    this._colorAttr.set(
+      range[0],
+      colors.subarray(range[0] * 4, (range[1] + 1) * 4),
+    );
+  }
+
+  // --- decals ---
+
+  // clip-space position (x, y, z, w) of every vertex for a world view-projection
+  private _projectVertices(viewProj: mat4): Float32Array {
+    this._syncPose();
+    const m = this._tmpMat0;
+    this.object.getTransformWorld(this._tmpDualQuat);
+    mat4.fromQuat2(m, this._tmpDualQuat);
+    mat4.scale(m, m, this.object.getScalingWorld(this._tmpScale));
+    mat4.multiply(m, viewProj, m);
+    return projectPositions(this._positionsFlat!, m);
+  }
+
+  private _applyDecal(clip: Float32Array, pass: DecalPass): boolean {
+    if (!this.created || !this._uvsFlat || this._vertexPaint) return false;
+    const { options } = pass;
+    const c = options.color ?? [0, 0, 0, 1];
+    const targets = this._paintTargets([
+      c[0],
+      c[1],
+      c[2],
+      c[3] * (options.opacity ?? 1),
+    ]);
+    if (targets.length === 0) return false;
+    const t0 = performance.now();
+
+    const s = this.object.getScalingWorld(this._tmpScale);
+    const mirrored = s[0] * s[1] * s[2] < 0;
+    const tris = decalTriangles(clip, this._triIndices!, pass, mirrored);
+    if (tris.length === 0) return false;
+    const layout = this._uvCanvas();
+    const bounds = texelBounds(layout, tris);
+    if (!bounds) return false;
+
+    const { weight, rgb } = sampleDecal(
+      layout,
+      clip,
+      tris,
+      bounds,
+      pass,
+      options.mode === 'stencil',
+      options.stencilFromLuminance,
+    );
+    this._writeWeighted(targets, bounds, weight, rgb);
+    this._frameStats.addDab(performance.now() - t0);
+    return true;
+  }
+
+  // --- symmetry ---
+
+  /** Bit k set when mirroring across local axis k (X = 1, Y = 2, Z = 4) is on. */
+  get symmetryMask(): number {
+    return (
+      (this.symmetryX ? 1 : 0) |
+      (this.symmetryY ? 2 : 0) |
+      (this.symmetryZ ? 4 : 0)
+    );
+  }
+
+  /** Turns mirroring across one local axis plane (0 = X, 1 = Y, 2 = Z) on or off. */
+  setSymmetry(axis: 0 | 1 | 2, on: boolean) {
+    if (axis === 0) this.symmetryX = on;
+    else if (axis === 1) this.symmetryY = on;
+    else this.symmetryZ = on;
+    this._updateSymmetryPlanes();
+  }
+
+  setSymmetryPlanesVisible(visible: boolean) {
+    this.showSymmetryPlanes = visible;
+    this._updateSymmetryPlanes();
+  }
+
+  /**
+   * Mirror images of a hit for every combination of the enabled axes, each
+   * re-projected onto the nearest surface point. `mask` has bit k set when
+   * the image is reflected across axis k. Images that land farther than
+   * symmetryTolerance from the surface are left out.
+   */
+  mirrorHits(hit: PaintHit): { mask: number; hit: PaintHit }[] {
+    const axes = this.symmetryMask;
+    const out: { mask: number; hit: PaintHit }[] = [];
+    if (axes === 0 || !this._bvh) return out;
+    const b = this._bvh.nodeBounds;
+    const maxDistance =
+      this.symmetryTolerance *
+      (Math.hypot(b[3] - b[0], b[4] - b[1], b[5] - b[2]) || 1);
+    const p = new Float32Array(3);
+    for (let mask = 1; mask < 8; mask++) {
+      if (mask & ~axes) continue;
+      for (let k = 0; k < 3; k++) {
+        p[k] = mask & (1 << k) ? -hit.localHit[k] : hit.localHit[k];
       }
+      const mirrored = this.getUVAtLocalPoint(p, maxDistance);
+      if (mirrored) out.push({ mask, hit: mirrored });
     }
+    return out;
+  }
 
-    if (bestTri === null || !bestLocalHit) return null;
+  private _updateSymmetryPlanes() {
+    if (!this.created) return;
+    const axes = this.symmetryMask;
+    for (let k = 0; k < 3; k++) {
+      const visible = this.showSymmetryPlanes && (axes & (1 << k)) !== 0;
+      let plane = this._symmetryPlanes[k];
+      if (!plane && visible) plane = this._createSymmetryPlane(k);
+      if (plane) plane.active = visible;
+    }
+  }
 
-    // interpolate UVs or fallback planar
-    if (this._uvsFlat) {
-      const vi0 = triIndices[bestTri * 3 + 0],
-        vi1 = triIndices[bestTri * 3 + 1],
-        vi2 = triIndices[bestTri * 3 + 2];
+  // double-sided quad on the plane through the origin, covering the mesh bounds
+  private _createSymmetryPlane(axis: number): Object3D | null {
+    if (!this._bvh) return null;
+    let material = this.symmetryPlaneMaterial;
+    if (!material) {
+      try {
+        const Flat = this.engine.materials.getTemplate('Flat Transparent');
+        material = new Flat();
+        (material as any).setColor([0.3, 0.7, 1, 0.25]);
+        this.symmetryPlaneMaterial = material;
+      } catch {
+        console.warn(
+          'mesh-paintable: no symmetryPlaneMaterial and no Flat Transparent pipeline',
+        );
+        return null;
+      }
+    }
+
+    const b = this._bvh.nodeBounds;
+    const u = (axis + 1) % 3,
+      v = (axis + 2) % 3;
+    // a little larger than the mesh so the plane's edge is visible around it
+    const mu = (b[3 + u] - b[u]) * 0.1,
+      mv = (b[3 + v] - b[v]) * 0.1;
+    const positions = new Float32Array(12);
+    const corners = [
+      [b[u] - mu, b[v] - mv],
+      [b[3 + u] + mu, b[v] - mv],
+      [b[3 + u] + mu, b[3 + v] + mv],
+      [b[u] - mu, b[3 + v] + mv],
+    ];
+    for (let i = 0; i < 4; i++) {
+      positions[i * 3 + u] = corners[i][0];
+      positions[i * 3 + v] = corners[i][1];
+    }
+    const mesh = this.engine.meshes.create({
+      vertexCount: 4,
+      indexData: new Uint16Array([0, 1, 2, 0, 2, 3, 0, 2, 1, 0, 3, 2]),
+      indexType: MeshIndexType.UnsignedShort,
+    });
+    mesh.attribute(MeshAttribute.Position)!.set(0, positions);
+
+    const plane = this.scene.addObject(this.object);
+    plane.name = `symmetry-${'xyz'[axis]}`;
+    plane.addComponent('mesh', { mesh, material });
+    MeshPaintable._helperObjectIds.add(plane.objectId);
+    this._symmetryPlanes[axis] = plane;
+    return plane;
+  }
+
+  // quantize relative to the mesh size so scans in any unit weld alike
+  private _weld(positions: Float32Array) {
+    const root = this._bvh!.nodeBounds;
+    const diag =
+      Math.hypot(root[3] - root[0], root[4] - root[1], root[5] - root[2]) || 1;
+    return weldVertices(positions, diag * 1e-6);
+  }
+
+  // weld vertices by position and find edges whose two sides use different UVs
+  private _buildSeamMap() {
+    // weld in the bind pose so skinned seams stay welded whatever the current pose
+    const positions = this._bindPositions ?? this._positionsFlat!;
+    this._seams = buildSeamMap(
+      this._uvsFlat ?? planarUVs(positions),
+      this._triIndices!,
+      this._weld(positions),
+    );
+  }
+
+  // UV islands rasterized to texels, plus the gutter texel -> nearest island
+  // texel map for dilation
+  private _buildIslandMaps() {
+    const islands = buildUVIslands(this._uvCanvas());
+    this._islands = islands;
+    if (this.gutterPx <= 0) return;
+    this._gutterSource = gutterSources(
+      islands.texelIsland,
+      this.canvas.width,
+      this.canvas.height,
+      this.gutterPx,
+    );
+  }
+
+  // mesh UVs on the canvas (same mapping as paintAtUV)
+  private _uvCanvas(): UVCanvas {
+    return {
+      uvs: this._uvsFlat!,
+      indices: this._triIndices!,
+      width: this.canvas.width,
+      height: this.canvas.height,
+      flipY: this.flipY,
+    };
+  }
+
+  /** True when both triangles share a vertex index (same UV island, no seam between). */
+  trianglesShareVertex(a: number, b: number): boolean {
+    const tri = this._triIndices;
+    return !!tri && trianglesShareVertex(tri, a, b);
+  }
+
+  /** True when both triangles touch on the surface, including across UV seams. */
+  trianglesShareWeldedVertex(a: number, b: number): boolean {
+    const tri = this._triIndices;
+    return !!tri && trianglesShareVertex(tri, a, b, this._seams?.weld);
+  }
 
-      const u0 = this._uvsFlat[vi0 * 2 + 0],
-        v0 = this._uvsFlat[vi0 * 2 + 1];
-      const u1 = this._uvsFlat[vi1 * 2 + 0],
-        v1 = this._uvsFlat[vi1 * 2 + 1];
-      const u2 = this._uvsFlat[vi2 * 2 + 0],
-        v2 = this._uvsFlat[vi2 * 2 + 1];
+  /** Canvas texels per local-space unit on a triangle (UV density). */
+  texelsPerUnit(triIndex: number): number {
+    const uvs = this._uvsFlat;
+    const tri = this._triIndices;
+    const areas = this._core?.triAreas;
+    const size = Math.sqrt(this.canvas.width * this.canvas.height);
+    if (!uvs || !tri || !areas || !(areas[triIndex] > 0)) {
+      return size;
+    }
+    const i0 = tri[triIndex * 3],
+      i1 = tri[triIndex * 3 + 1],
+      i2 = tri[triIndex * 3 + 2];
+    const uvArea =
+      0.5 *
+      Math.abs(
+        (uvs[i1 * 2] - uvs[i0 * 2]) * (uvs[i2 * 2 + 1] - uvs[i0 * 2 + 1]) -
+          (uvs[i2 * 2] - uvs[i0 * 2]) * (uvs[i1 * 2 + 1] - uvs[i0 * 2 + 1]),
+      );
+    return Math.sqrt(uvArea / areas[triIndex]) * size;
+  }
 
-      const w0 = 1 - bestU - bestV;
-      const w1 = bestU;
-      const w2 = bestV;
+  getUVFromLocalRay(
+    localOrigin: Float32Array,
+    localDir: Float32Array,
+    maxDistance = Infinity,
+  ): PaintHit | null {
+    if (!this._positionsFlat || !this._triIndices || !this._bvh) return null;
+    this._syncPose();
+
+    const hit = this._core!.raycast(localOrigin, localDir, maxDistance);
+    if (!hit) return null;
+
+    const localHit = new Float32Array([
+      localOrigin[0] + localDir[0] * hit.t,
+      localOrigin[1] + localDir[1] * hit.t,
+      localOrigin[2] + localDir[2] * hit.t,
+    ]);
+    return this._hitResult(hit.tri, hit.u, hit.v, localHit);
+  }
 
-      let finalU = w0 * u0 + w1 * u1 + w2 * u2;
-      let finalV = w0 * v0 + w1 * v1 + w2 * v2;
+  /**
+   * Nearest surface point to a local-space point (within maxDistance), with the
+   * same return shape as getUVFromLocalRay.
+   */
+  getUVAtLocalPoint(
+    localPoint: ArrayLike<number>,
+    maxDistance = Infinity,
+  ): PaintHit | null {
+    if (!this._core) return null;
+    this._syncPose();
+
+    const closest = this._tmpClosest;
+    const tri = this._core.closestPoint(localPoint, maxDistance, closest);
+    if (tri < 0) return null;
+    return this._hitResult(
+      tri,
+      closest[3],
+      closest[4],
+      new Float32Array([closest[0], closest[1], closest[2]]),
+    );
+  }
 
-      // CLAMP UVs to [0,1] to prevent runaway values (FIX #3)
-      finalU = Math.min(Math.max(finalU, 0), 1);
-      finalV = Math.min(Math.max(finalV, 0), 1);
+  // barycentric hit (weights of vertex 1 and 2) -> UV result, or planar fallback
+  private _hitResult(
+    bestTri: number,
+    bestU: number,
+    bestV: number,
+    bestLocalHit: Float32Array,
+  ): PaintHit | null {
+    const positions = this._positionsFlat!;
 
+    // interpolate UVs or fallback planar
+    const uv: [number, number] = [0, 0];
+    if (this._core?.interpolateUV(bestTri, bestU, bestV, uv)) {
       if (this.debugPaintLog) {
         console.log('paint hit:', {
           tri: bestTri,
-          vi0,
-          vi1,
-          vi2,
-          uv0: [u0, v0],
-          uv1: [u1, v1],
-          uv2: [u2, v2],
-          finalUV: [finalU, finalV],
+          finalUV: uv,
           localHit: bestLocalHit,
         });
       }
 
       return {
-        uv: [finalU, finalV],
+        uv,
         triIndex: bestTri,
         localHit: [bestLocalHit[0], bestLocalHit[1], bestLocalHit[2]],
       };
-    } else if (this.planarFallback) {
-      // compute mesh AABB once cheaply using positions array
-      let minX = Infinity,
-        minZ = Infinity,
-        maxX = -Infinity,
-        maxZ = -Infinity;
-      for (let i = 0; i < positions.length; i += 3) {
-        const x = positions[i],
-          z = positions[i + 2];
-        if (x < minX) minX = x;
-        if (z < minZ) minZ = z;
-        if (x > maxX) maxX = x;
-        if (z > maxZ) maxZ = z;
-      }
-      const denomX = maxX - minX || 1;
-      const denomZ = maxZ - minZ || 1;
-      let u = (bestLocalHit[0] - minX) / denomX;
-      let v = (bestLocalHit[2] - minZ) / denomZ;
-      u = Math.min(Math.max(u, 0), 1);
-      v = Math.min(Math.max(v, 0), 1);
+    } else if (this.planarFallback || this._vertexPaint) {
+      const [u, v] = planarUVs(positions, bestLocalHit);
       return {
         uv: [u, v],
         triIndex: bestTri,
@@ -450,118 +1388,1861 @@ export class MeshPaintable extends Component {
     return null;
   }
 
+  /**
+   * Compares BVH ray queries against the brute-force scan on this mesh (see
+   * PaintBenchmarks.benchmarkRayQueries); logs and returns the result.
+   */
+  benchmarkRayQueries(rayCount = 500) {
+    if (!this._core) return null;
+    const result = benchmarkRayQueries(this._core, rayCount);
+    console.log('mesh-paintable: BVH benchmark', result);
+    return result;
+  }
+
+  /**
+   * Stamps a dab at (u, v). When `triIndex` (the hit triangle) is given and
+   * seamAware is on, the dab is clipped to that triangle's UV island and
+   * mirrored onto the other side of nearby seams.
+   */
   paintAtUV(
     u: number,
     v: number,
     radiusPx = 8,
     colorRGBA: [number, number, number, number] = [0, 0, 0, 1],
+    triIndex = -1,
   ) {
     if (!this.created) return;
+    const targets = this._paintTargets(colorRGBA);
+    if (targets.length === 0) return;
+    const t0 = performance.now();
+    if (this._recorder) this._recordDab(u, v, radiusPx, colorRGBA, triIndex);
 
     // ensure u,v in 0..1 - FIX #3
     const cu = Math.min(Math.max(u, 0), 1);
     const cv = Math.min(Math.max(v, 0), 1);
 
-    const x = Math.floor(cu * this.canvas.width);
-    const y = Math.floor((this.flipY ? 1 - cv : cv) * this.canvas.height);
-
-    this.ctx.beginPath();
-    this.ctx.fillStyle = `rgba(${Math.round(
-      colorRGBA[0] * 255,
-    )},${Math.round(colorRGBA[1] * 255)},${Math.round(
-      colorRGBA[2] * 255,
-    )},${colorRGBA[3]})`;
-    this.ctx.arc(x, y, radiusPx, 0, Math.PI * 2);
-    this.ctx.fill();
-
-    // optional: show small magenta dot to visualize exact UV location even when showUvDebug is off (FIX #4)
-    if (this.markPaintOnCanvas) {
-      this.ctx.beginPath();
-      this.ctx.fillStyle = 'magenta';
-      this.ctx.arc(
-        x,
-        y,
-        Math.max(2, Math.floor(radiusPx * 0.4)),
-        0,
-        Math.PI * 2,
-      );
-      this.ctx.fill();
+    // dabs outside beginStroke/endStroke become their own single-dab stroke
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+
+    const dirty = this._dirtyRect;
+    dirty[0] = dirty[1] = Infinity;
+    dirty[2] = dirty[3] = -Infinity;
+
+    const dabs = this._footprints(cu, cv, radiusPx, triIndex, true);
+    for (const { ctx, color } of targets) {
+      for (const d of dabs) {
+        this._stamp(ctx, d.u, d.v, d.radiusPx, color, d.island);
+      }
     }
 
-    // update texture
-    this.canvasTexture.update();
+    if (implicitStroke) this._history.endStroke();
+    this._dirtySinceSave = true;
+
+    this._invalidate(
+      dirty[0],
+      dirty[1],
+      dirty[2] - dirty[0],
+      dirty[3] - dirty[1],
+    );
+    this._frameStats.addDab(performance.now() - t0);
   }
 
-  getCanvasSize() {
-    return { width: this.canvas.width, height: this.canvas.height };
+  /**
+   * Smudge dab at (u, v): drags the color picked up by the previous smudge
+   * dab of `stream` in the open stroke into this footprint (see
+   * PaintCore.smudgeDab; `strength` 0..1 is how much of the carried color
+   * lands and stays loaded). Color only carries between closely spaced dabs
+   * of one beginStroke / endStroke; give independent dab paths of a stroke
+   * (symmetry mirrors) their own stream. Writes every paint target, ignoring
+   * blendMode; clipped to the hit triangle's island like paintAtUV.
+   */
+  smudgeAtUV(
+    u: number,
+    v: number,
+    radiusPx = 8,
+    strength = 0.7,
+    triIndex = -1,
+    stream = 0,
+  ) {
+    if (!this.created || this._vertexPaint) return;
+    if (this._recorder) {
+      this._record(StrokeOp.Smudge, [
+        u,
+        v,
+        triIndex,
+        radiusPx,
+        strength,
+        stream,
+      ]);
+    }
+    if (this._smudgeStrokeId !== this._history.strokeId) {
+      this._smudgeStrokeId = this._history.strokeId;
+      this._smudgeLoads.clear();
+    }
+    this._filterAtUV(
+      u,
+      v,
+      radiusPx,
+      triIndex,
+      false,
+      (ctx, du, dv, r, island) => {
+        let loads = this._smudgeLoads.get(ctx);
+        if (!loads) {
+          loads = new Map();
+          this._smudgeLoads.set(ctx, loads);
+        }
+        let load = loads.get(stream);
+        if (!load) {
+          load = { reach: -1, data: new Float32Array(0) };
+          loads.set(stream, load);
+        }
+        this._dabAt(ctx, du, dv, r, 0, island, (img, cx, cy, _x0, _y0, keep) =>
+          smudgeDab(img, cx, cy, r, load, strength, keep),
+        );
+      },
+    );
   }
 
-  private drawUvDebug() {
-    const ctx = this.ctx;
-    const w = this.canvas.width,
-      h = this.canvas.height;
-    const size = 32;
-    for (let y = 0; y < h; y += size) {
-      for (let x = 0; x < w; x += size) {
-        const even = (((x / size) | 0) + ((y / size) | 0)) % 2 === 0;
-        ctx.fillStyle = even ? 'rgba(200,200,200,0.9)' : 'rgba(80,80,80,0.9)';
-        ctx.fillRect(x, y, size, size);
-      }
+  /**
+   * Blur dab at (u, v): softens the footprint toward the local average color
+   * (see PaintCore.blurDab; the neighbourhood scales with the radius).
+   * Repeated dabs along a stroke blend colors further. Writes every paint
+   * target, ignoring blendMode; seam handling as in paintAtUV.
+   */
+  blurAtUV(u: number, v: number, radiusPx = 8, strength = 0.5, triIndex = -1) {
+    if (!this.created || this._vertexPaint) return;
+    if (this._recorder) {
+      this._record(StrokeOp.Blur, [u, v, triIndex, radiusPx, strength]);
     }
+    this._filterAtUV(
+      u,
+      v,
+      radiusPx,
+      triIndex,
+      true,
+      (ctx, du, dv, r, island) => {
+        const kernel = Math.max(1, Math.round(r / 3));
+        this._dabAt(
+          ctx,
+          du,
+          dv,
+          r,
+          kernel,
+          island,
+          (img, cx, cy, _x0, _y0, keep) =>
+            blurDab(img, cx, cy, r, kernel, strength, keep),
+        );
+      },
+    );
+  }
 
-    const img = ctx.createImageData(w, h);
-    for (let yy = 0; yy < h; yy++) {
-      for (let xx = 0; xx < w; xx++) {
-        const i = (yy * w + xx) * 4;
-        img.data[i + 0] = Math.round((xx / (w - 1)) * 255);
-        img.data[i + 1] = Math.round((yy / (h - 1)) * 255);
-        img.data[i + 2] = 128;
-        img.data[i + 3] = 255;
-      }
+  // stroke, seam and dirty-rect bookkeeping of smudgeAtUV / blurAtUV: `filter`
+  // runs for every paint target at the dab (and, with `mirrored`, at its seam
+  // mirrors with their scaled radius)
+  private _filterAtUV(
+    u: number,
+    v: number,
+    radiusPx: number,
+    triIndex: number,
+    mirrored: boolean,
+    filter: (
+      ctx: CanvasRenderingContext2D,
+      u: number,
+      v: number,
+      radiusPx: number,
+      island: number,
+    ) => void,
+  ) {
+    const targets = this._paintTargets([0, 0, 0, 1]);
+    if (targets.length === 0) return;
+    const t0 = performance.now();
+    const cu = Math.min(Math.max(u, 0), 1);
+    const cv = Math.min(Math.max(v, 0), 1);
+
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+
+    const dirty = this._dirtyRect;
+    dirty[0] = dirty[1] = Infinity;
+    dirty[2] = dirty[3] = -Infinity;
+
+    const dabs = this._footprints(cu, cv, radiusPx, triIndex, mirrored);
+    for (const { ctx } of targets) {
+      for (const d of dabs) filter(ctx, d.u, d.v, d.radiusPx, d.island);
     }
-    ctx.putImageData(img, 0, 0);
-    this.canvasTexture.update();
+
+    if (implicitStroke) this._history.endStroke();
+    this._dirtySinceSave = true;
+
+    this._invalidate(
+      dirty[0],
+      dirty[1],
+      dirty[2] - dirty[0],
+      dirty[3] - dirty[1],
+    );
+    this._frameStats.addDab(performance.now() - t0);
   }
-}
 
-/* Möller-Trumbore (unchanged) */
-function rayTriangleIntersectMollerTrumbore(
-  orig: Float32Array,
-  dir: Float32Array,
-  p0: Float32Array,
-  p1: Float32Array,
-  p2: Float32Array,
-) {
-  const EPS = 1e-8;
-  const edge1x = p1[0] - p0[0],
-    edge1y = p1[1] - p0[1],
-    edge1z = p1[2] - p0[2];
-  const edge2x = p2[0] - p0[0],
-    edge2y = p2[1] - p0[1],
-    edge2z = p2[2] - p0[2];
-
-  const px = dir[1] * edge2z - dir[2] * edge2y;
-  const py = dir[2] * edge2x - dir[0] * edge2z;
-  const pz = dir[0] * edge2y - dir[1] * edge2x;
-
-  const det = edge1x * px + edge1y * py + edge1z * pz;
-  if (det > -EPS && det < EPS) return null;
-  const invDet = 1 / det;
-
-  const tx = orig[0] - p0[0],
-    ty = orig[1] - p0[1],
-    tz = orig[2] - p0[2];
-  const u = (tx * px + ty * py + tz * pz) * invDet;
-  if (u < 0 || u > 1) return null;
-
-  const qx = ty * edge1z - tz * edge1y;
-  const qy = tz * edge1x - tx * edge1z;
-  const qz = tx * edge1y - ty * edge1x;
-
-  const v = (dir[0] * qx + dir[1] * qy + dir[2] * qz) * invDet;
-  if (v < 0 || u + v > 1) return null;
-
-  const t = (edge2x * qx + edge2y * qy + edge2z * qz) * invDet;
-  if (t <= EPS) return null;
-  return { t, u, v };
-}
+  // the dab clipped to the hit triangle's island (seamAware) and, with
+  // `mirrored`, its equivalents across nearby UV seams
+  private _footprints(
+    u: number,
+    v: number,
+    radiusPx: number,
+    triIndex: number,
+    mirrored: boolean,
+  ): DabFootprint[] {
+    const seams = this._seams;
+    const islands = this._islands;
+    if (!this.seamAware || triIndex < 0 || !seams || !islands) {
+      return [{ u, v, radiusPx, island: -1 }];
+    }
+    return seamFootprints(
+      this._uvCanvas(),
+      seams,
+      islands.triIsland,
+      triIndex,
+      u,
+      v,
+      radiusPx,
+      mirrored,
+    );
+  }
+
+  /**
+   * World-space footprint: paints every texel whose surface point lies within
+   * `radius` (local units) of `center`, rasterizing all triangles touching
+   * that sphere. Opacity falls off with distance; `hardness` is the fraction
+   * of the radius painted at full strength. Requires mesh UVs.
+   */
+  paintInSphere(
+    center: ArrayLike<number>,
+    radius: number,
+    colorRGBA: [number, number, number, number] = [0, 0, 0, 1],
+    hardness = 0.5,
+  ): boolean {
+    if (this._recorder && this.created) {
+      this._recordSphere(center, radius, colorRGBA, hardness);
+    }
+    // mask mode paints the UV mask (which also clips vertex colors)
+    if (this._vertexPaint && !this._maskMode) {
+      return this._paintVertices(center, radius, colorRGBA, hardness);
+    }
+    const positions = this._positionsFlat;
+    const triIndices = this._triIndices;
+    if (!this.created || !positions || !triIndices) return false;
+    if (!this._uvsFlat || !this._bvh || !(radius > 0)) return false;
+    const targets = this._paintTargets(colorRGBA);
+    if (targets.length === 0) return false;
+    const t0 = performance.now();
+    this._syncPose();
+
+    const tris = this._core!.trianglesInSphere(center, radius);
+    if (tris.length === 0) return false;
+    const layout = this._uvCanvas();
+    const bounds = texelBounds(layout, tris);
+    if (!bounds) return false;
+    const weight = sphereTexelWeights(
+      layout,
+      positions,
+      tris,
+      bounds,
+      center,
+      radius,
+      hardness,
+    );
+    this._writeWeighted(targets, bounds, weight, null);
+    this._frameStats.addDab(performance.now() - t0);
+    return true;
+  }
+
+  /**
+   * Blends each target's color into the rect with a per-texel weight (0..1,
+   * <= 0 skips). `rgb` (3 bytes per texel) replaces the color on the color
+   * layer, e.g. for decal images. Records history, dilates gutters and
+   * invalidates the rect.
+   */
+  private _writeWeighted(
+    targets: PaintTarget[],
+    [x0, y0, x1, y1]: TexelRect,
+    weight: Float32Array,
+    rgb: Uint8ClampedArray | null,
+  ) {
+    const bw = x1 - x0,
+      bh = y1 - y0;
+    const layer = this._stack.activeLayer;
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+    let g = 0;
+    for (const { ctx, color } of targets) {
+      const tg = this._gutterFor(ctx);
+      g = Math.max(g, tg);
+      this._history.capture(ctx, x0 - tg, y0 - tg, bw + tg * 2, bh + tg * 2);
+      const img = ctx.getImageData(x0, y0, bw, bh);
+      if (rgb && ctx === layer?.ctx) {
+        const mask = this._maskRect(x0, y0, bw, bh);
+        blendWeightedRGB(img.data, weight, rgb, color[3], mask);
+      } else {
+        const write = this._texelWriter(ctx, img.data, color, x0, y0, bw, bh);
+        for (let i = 0; i < weight.length; i++) {
+          if (weight[i] > 0) write(i, color[3] * weight[i]);
+        }
+      }
+      ctx.putImageData(img, x0, y0);
+      if (tg > 0) this._dilateGutter(ctx, x0 - tg, y0 - tg, x1 + tg, y1 + tg);
+    }
+
+    if (implicitStroke) this._history.endStroke();
+    this._dirtySinceSave = true;
+    this._invalidate(x0 - g, y0 - g, bw + g * 2, bh + g * 2);
+  }
+
+  /**
+   * Bucket fill: floods the surface connected to `triIndex` (across UV seams)
+   * and rasterizes those triangles' UVs with `colorRGBA` on the active layer.
+   * With `tolerance` < 1 the flood stops at triangles whose composite color
+   * (sampled at the UV centroid) differs from the seed's by more than
+   * `tolerance` in any channel (0..1). Returns the number of filled triangles.
+   * In mask mode this selects the connected part into the mask.
+   */
+  fillRegion(
+    triIndex: number,
+    colorRGBA: [number, number, number, number] = [0, 0, 0, 1],
+    tolerance = 1,
+  ): number {
+    if (this._recorder && this.created) {
+      this._record(StrokeOp.Fill, [triIndex, tolerance, ...colorRGBA]);
+    }
+    if (
+      this._vertexPaint &&
+      !this._maskMode &&
+      triIndex >= 0 &&
+      triIndex < this._triCount
+    ) {
+      // vertex colors can't be sampled for tolerance; the whole part is filled
+      const region = this._floodRegion(triIndex);
+      this._fillVertices(region, colorRGBA);
+      return region.length;
+    }
+    if (!this.created || !this._uvsFlat || !this._bvh) return 0;
+    if (triIndex < 0 || triIndex >= this._triCount) return 0;
+    const targets = this._paintTargets(colorRGBA);
+    if (targets.length === 0) return 0;
+    const region = this._floodRegion(triIndex, tolerance);
+    let filled = false;
+    for (const { ctx, color } of targets) {
+      if (this._fillTriangles(ctx, region, color)) filled = true;
+    }
+    return filled ? region.length : 0;
+  }
+
+  // triangles connected to `seed` through shared (welded) edges, optionally
+  // limited to those whose composite color stays within `tolerance` of the seed
+  private _floodRegion(seed: number, tolerance = 1): number[] {
+    if (!this._seams) this._buildSeamMap();
+    const neighbor = this._seams!.neighbor;
+    if (tolerance >= 1) return floodRegion(neighbor, seed);
+
+    return floodRegion(neighbor, seed, {
+      layout: this._uvCanvas(),
+      composite: this._untintedComposite(),
+      tolerance,
+    });
+  }
+
+  // rasterizes the triangles' UVs (coverage mask, each texel blended once) into ctx
+  private _fillTriangles(
+    ctx: CanvasRenderingContext2D,
+    tris: ArrayLike<number>,
+    colorRGBA: [number, number, number, number],
+  ): boolean {
+    const layout = this._uvCanvas();
+    const bounds = texelBounds(layout, tris);
+    if (!bounds) return false;
+    const [x0, y0, x1, y1] = bounds;
+    const bw = x1 - x0,
+      bh = y1 - y0;
+    const coverage = triangleCoverage(layout, tris, bounds);
+
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+    const g = this._gutterFor(ctx);
+    this._history.capture(ctx, x0 - g, y0 - g, bw + g * 2, bh + g * 2);
+
+    const img = ctx.getImageData(x0, y0, bw, bh);
+    const write = this._texelWriter(ctx, img.data, colorRGBA, x0, y0, bw, bh);
+    for (let i = 0; i < coverage.length; i++) {
+      if (coverage[i]) write(i, colorRGBA[3]);
+    }
+    ctx.putImageData(img, x0, y0);
+    if (g > 0) this._dilateGutter(ctx, x0 - g, y0 - g, x1 + g, y1 + g);
+
+    if (implicitStroke) this._history.endStroke();
+    this._dirtySinceSave = true;
+    this._invalidate(x0 - g, y0 - g, bw + g * 2, bh + g * 2);
+    return true;
+  }
+
+  // --- color sampling ---
+
+  /**
+   * Painted color (0..1 RGBA) at (u, v) of the layer composite, averaged over
+   * the texels within `radiusPx` (0 = the single texel). Null before start
+   * or in vertex mode (see pickColor).
+   */
+  sampleColorAtUV(
+    u: number,
+    v: number,
+    radiusPx = 0,
+  ): [number, number, number, number] | null {
+    if (!this.created || this._vertexPaint) return null;
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const cv = Math.min(Math.max(v, 0), 1);
+    const cx = Math.min(Math.max(u, 0), 1) * W;
+    const cy = (this.flipY ? 1 - cv : cv) * H;
+    const r = Math.ceil(Math.max(radiusPx, 0)) + 1;
+    const x0 = Math.max(0, Math.floor(cx) - r),
+      y0 = Math.max(0, Math.floor(cy) - r);
+    const x1 = Math.min(W, Math.floor(cx) + r + 1),
+      y1 = Math.min(H, Math.floor(cy) + r + 1);
+    if (x1 <= x0 || y1 <= y0) return null;
+
+    // read the layers: the texture canvas is stale until the next flush, and
+    // tinted in mask mode
+    const img = this._compositeRect(x0, y0, x1 - x0, y1 - y0, false);
+
+    const out: [number, number, number, number] = [0, 0, 0, 0];
+    if (!averageColor(img, cx - x0, cy - y0, radiusPx, out)) return null;
+    return out;
+  }
+
+  /**
+   * Color under a hit from getUVFromLocalRay / raycastWorld: the texture at
+   * its UV (see sampleColorAtUV), or in vertex mode the hit triangle's vertex
+   * colors interpolated at the hit point.
+   */
+  pickColor(
+    hit: PaintHit,
+    radiusPx = 0,
+  ): [number, number, number, number] | null {
+    const vertexPaint = this._vertexPaint;
+    if (!vertexPaint) {
+      return this.sampleColorAtUV(hit.uv[0], hit.uv[1], radiusPx);
+    }
+    const positions = this._positionsFlat;
+    const triIndices = this._triIndices;
+    const tri = hit.triIndex;
+    if (!positions || !triIndices || tri < 0 || tri >= this._triCount) {
+      return null;
+    }
+    const p0 = this._tmpP0,
+      p1 = this._tmpP1,
+      p2 = this._tmpP2;
+    const closest = this._tmpClosest;
+    loadTriangle(positions, triIndices, tri, p0, p1, p2);
+    closestPointOnTriangle(hit.localHit, p0, p1, p2, closest);
+    const w = [1 - closest[3] - closest[4], closest[3], closest[4]];
+    return vertexPaint.colorAt(triIndices, tri, w);
+  }
+
+  /**
+   * Bakes the cavity map wash / drybrush scale their opacity by (see
+   * PaintCore.bakeVertexCavity): per vertex from the bind-pose geometry, then
+   * interpolated across each triangle's UVs to one value per texel (gutter
+   * included, 0 off the islands). Happens on first use; call again after
+   * changing cavitySmoothing. Returns the texel map, or the vertex map in
+   * vertex mode.
+   */
+  bakeCavityMap(): Float32Array | null {
+    const positions = this._bindPositions ?? this._positionsFlat;
+    const triIndices = this._triIndices;
+    if (!this.created || !positions || !triIndices || !this._bvh) return null;
+    const weld = this._seams?.weld ?? this._weld(positions);
+    const cavity = bakeVertexCavity(
+      positions,
+      triIndices,
+      weld,
+      this.cavitySmoothing,
+    );
+    this._vertexCavity = cavity;
+    this._texelCavity = null;
+    if (this._vertexPaint || !this._uvsFlat) return cavity;
+
+    const map = texelCavityMap(this._uvCanvas(), cavity, this.gutterPx);
+    this._texelCavity = map;
+    return map;
+  }
+
+  // --- paint mask (protected regions) ---
+
+  /** True while paint calls edit the mask instead of the active layer. */
+  get maskMode() {
+    return this._maskMode;
+  }
+
+  /**
+   * Mask mode: paintAtUV / paintInSphere / fillRegion add protection to the
+   * mask (or remove it with maskErase) and the texture shows masked texels
+   * tinted. Outside mask mode every paint call is clipped by the mask.
+   */
+  setMaskMode(on: boolean) {
+    if (this._maskMode === on) return;
+    this._maskMode = on;
+    this._refresh();
+  }
+
+  /** Protects (or with protect = false, releases) the given triangles. */
+  maskTriangles(tris: ArrayLike<number>, protect = true) {
+    if (!this.created || !this._uvsFlat || tris.length === 0) return;
+    this._maskEmpty = false;
+    this._fillTriangles(this._maskCtx, tris, [0, 0, 0, protect ? 1 : -1]);
+  }
+
+  /** Protects the whole surface part connected to `triIndex`. */
+  maskConnectedPart(triIndex: number, protect = true) {
+    if (!this.created || !this._uvsFlat || !this._bvh) return;
+    if (triIndex < 0 || triIndex >= this._triCount) return;
+    this.maskTriangles(this._floodRegion(triIndex), protect);
+  }
+
+  invertMask() {
+    if (!this.created) return;
+    const ctx = this._maskCtx;
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+    this._history.capture(ctx, 0, 0, W, H);
+    const img = ctx.getImageData(0, 0, W, H);
+    invertMaskPixels(img.data);
+    ctx.putImageData(img, 0, 0);
+    if (implicitStroke) this._history.endStroke();
+    this._maskEmpty = false;
+    this._refresh();
+  }
+
+  clearMask() {
+    if (!this.created) return;
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const implicitStroke = !this._history.strokeOpen;
+    if (implicitStroke) this._history.beginStroke();
+    this._history.capture(this._maskCtx, 0, 0, W, H);
+    this._maskCtx.clearRect(0, 0, W, H);
+    if (implicitStroke) this._history.endStroke();
+    this._maskEmpty = true;
+    this._refresh();
+  }
+
+  // contexts a paint call writes into, with the color for each: the mask in
+  // mask mode, else the unlocked active layer plus the enabled PBR channels
+  private _paintTargets(c: [number, number, number, number]): PaintTarget[] {
+    if (this._maskMode) {
+      this._maskEmpty = false;
+      // maskErase: a negative alpha tells the writers to remove protection
+      const a = this.maskErase ? -Math.abs(c[3]) : c[3];
+      return [{ ctx: this._maskCtx, color: [c[0], c[1], c[2], a] }];
+    }
+    const targets: PaintTarget[] = [];
+    const values = this.channelValues;
+    const layer = this._stack.activeLayer;
+    if (values.color !== false && layer && !layer.locked) {
+      targets.push({ ctx: layer.ctx, color: c });
+    }
+    for (const channel of SCALAR_CHANNELS) {
+      const v = values[channel];
+      const canvas = this._channels[channel];
+      if (v === undefined || !canvas) continue;
+      targets.push({ ctx: canvas.ctx, color: [v, v, v, c[3]] });
+    }
+    return targets;
+  }
+
+  // gutter texels only matter for what ends up in the texture
+  private _gutterFor(ctx: CanvasRenderingContext2D) {
+    return this._gutterSource && ctx !== this._maskCtx ? this.gutterPx : 0;
+  }
+
+  /**
+   * Per-texel writer for the rect's ImageData: blends the color on layers
+   * (scaled down by the mask's protection), adds protection on the mask, or
+   * removes it for a negative alpha (see _paintTargets).
+   */
+  private _texelWriter(
+    ctx: CanvasRenderingContext2D,
+    data: Uint8ClampedArray,
+    colorRGBA: [number, number, number, number],
+    x0: number,
+    y0: number,
+    w: number,
+    h: number,
+  ): (i: number, alpha: number) => void {
+    if (ctx === this._maskCtx) return maskWriter(data, colorRGBA[3] < 0);
+    const blend = this._texelBlend(ctx, x0, y0, w);
+    return texelWriter(data, colorRGBA, blend, this._maskRect(x0, y0, w, h));
+  }
+
+  // blendMode write into a rect of `ctx` at (x0, y0), w texels wide
+  private _texelBlend(
+    ctx: CanvasRenderingContext2D,
+    x0: number,
+    y0: number,
+    w: number,
+  ): TexelBlend {
+    const mode = this.blendMode;
+    const W = this.canvas.width;
+    const sources: BlendSources = {};
+    if (mode === 'erase') {
+      sources.base = this._eraseBase(ctx);
+    } else if (mode === 'glaze') {
+      const layer = this._layerOf(ctx);
+      const glaze = this._glazeFor(layer?.glaze, W * this.canvas.height);
+      if (layer) layer.glaze = glaze;
+      sources.glaze = glaze.values;
+    } else if (mode === 'wash' || mode === 'drybrush') {
+      if (!this._vertexCavity) this.bakeCavityMap();
+      sources.cavity = this._texelCavity;
+    }
+    return rectBlend(mode, sources, W, x0, y0, w);
+  }
+
+  // what erase restores on `ctx`: a constant RGBA (0..255), or the base
+  // layer's starting image (wherever that layer was moved)
+  private _eraseBase(ctx: CanvasRenderingContext2D): number[] | ImageData {
+    const baseImage = this._layerOf(ctx)?.baseImage;
+    if (baseImage) return baseImage;
+    const gray = (v: number) => {
+      const g = Math.round(Math.min(Math.max(v, 0), 1) * 255);
+      return [g, g, g, 255];
+    };
+    if (ctx === this._channels.roughness?.ctx) {
+      return gray(this.initialRoughness);
+    }
+    if (ctx === this._channels.metallic?.ctx) return gray(this.initialMetallic);
+    if (ctx === this._channels.height?.ctx) return gray(0);
+    return [0, 0, 0, 0];
+  }
+
+  // `glaze` for the open stroke (cleared when a new one opened, allocated
+  // when missing)
+  private _glazeFor(
+    glaze: GlazeCoverage | undefined,
+    size: number,
+  ): GlazeCoverage {
+    const strokeId = this._history.strokeId;
+    if (!glaze || glaze.values.length !== size) {
+      return { strokeId, values: new Float32Array(size) };
+    }
+    if (glaze.strokeId !== strokeId) {
+      glaze.strokeId = strokeId;
+      glaze.values.fill(0);
+    }
+    return glaze;
+  }
+
+  // color layer or PBR channel drawn through `ctx`
+  private _layerOf(ctx: CanvasRenderingContext2D): PaintLayer | undefined {
+    return (
+      this._stack.layers.find((l) => l.ctx === ctx) ??
+      SCALAR_CHANNELS.map((c) => this._channels[c]).find((l) => l?.ctx === ctx)
+    );
+  }
+
+  // mask pixels of a rect, or null when nothing there is protected
+  private _maskRect(x: number, y: number, w: number, h: number) {
+    if (this._maskEmpty) return null;
+    const data = this._maskCtx.getImageData(x, y, w, h).data;
+    return anyProtected(data) ? data : null;
+  }
+
+  // single circular dab: history capture, draw, island clip, gutter dilation
+  private _stamp(
+    ctx: CanvasRenderingContext2D,
+    u: number,
+    v: number,
+    radiusPx: number,
+    colorRGBA: [number, number, number, number],
+    island: number,
+  ) {
+    const editMask = ctx === this._maskCtx;
+    // mask texels store protection in alpha
+    const color = editMask
+      ? [MASK_RGB[0] / 255, MASK_RGB[1] / 255, MASK_RGB[2] / 255, colorRGBA[3]]
+      : colorRGBA;
+    this._dabAt(ctx, u, v, radiusPx, 0, island, (img, cx, cy, x0, y0, keep) => {
+      const blend = editMask
+        ? undefined
+        : this._texelBlend(ctx, x0, y0, img.width);
+      stampDab(img, cx, cy, radiusPx, color, keep, blend);
+
+      // optional: show small magenta dot to visualize exact UV location even when showUvDebug is off (FIX #4)
+      if (this.markPaintOnCanvas && !editMask) {
+        const dotPx = Math.max(2, Math.floor(radiusPx * 0.4));
+        stampDab(img, cx, cy, dotPx, [1, 0, 1, 1], keep);
+      }
+    });
+  }
+
+  // runs `draw` on the pixels of a dab at (u, v) (plus `margin` texels of
+  // context), clipped to `island` and the mask via `keep`; history capture,
+  // gutter dilation and the dirty rect are handled here
+  private _dabAt(
+    ctx: CanvasRenderingContext2D,
+    u: number,
+    v: number,
+    radiusPx: number,
+    margin: number,
+    island: number,
+    draw: (
+      img: ImageData,
+      cx: number,
+      cy: number,
+      x0: number,
+      y0: number,
+      keep: ((i: number) => number) | undefined,
+    ) => void,
+  ) {
+    const dab = dabRect(this._uvCanvas(), u, v, radiusPx, margin);
+    if (!dab) return;
+    const { x, y } = dab;
+    const [x0, y0, x1, y1] = dab.rect;
+
+    // dilation may rewrite gutter texels up to gutterPx around the dab
+    const g = this._gutterFor(ctx);
+    this._history.capture(
+      ctx,
+      x0 - g,
+      y0 - g,
+      x1 - x0 + g * 2,
+      y1 - y0 + g * 2,
+    );
+
+    const editMask = ctx === this._maskCtx;
+    const mask = editMask ? null : this._maskRect(x0, y0, x1 - x0, y1 - y0);
+    const w = x1 - x0;
+    const img = ctx.getImageData(x0, y0, w, y1 - y0);
+    const keep = clipKeep(
+      this._islands?.texelIsland ?? null,
+      island,
+      this.canvas.width,
+      x0,
+      y0,
+      w,
+      mask,
+    );
+    draw(img, x - x0, y - y0, x0, y0, keep);
+    ctx.putImageData(img, x0, y0);
+
+    if (g > 0) this._dilateGutter(ctx, x0 - g, y0 - g, x1 + g, y1 + g);
+
+    const dirty = this._dirtyRect;
+    dirty[0] = Math.min(dirty[0], x0 - g);
+    dirty[1] = Math.min(dirty[1], y0 - g);
+    dirty[2] = Math.max(dirty[2], x1 + g);
+    dirty[3] = Math.max(dirty[3], y1 + g);
+  }
+
+  // copy nearest island texel into every gutter texel of [x0, x1) x [y0, y1)
+  private _dilateGutter(
+    ctx: CanvasRenderingContext2D,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+  ) {
+    const source = this._gutterSource!;
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const g = this.gutterPx;
+    x0 = Math.max(0, x0);
+    y0 = Math.max(0, y0);
+    x1 = Math.min(W, x1);
+    y1 = Math.min(H, y1);
+    if (x1 <= x0 || y1 <= y0) return;
+
+    // sources lie at most gutterPx away, so read a correspondingly larger rect
+    const rx0 = Math.max(0, x0 - g),
+      ry0 = Math.max(0, y0 - g);
+    const rx1 = Math.min(W, x1 + g),
+      ry1 = Math.min(H, y1 + g);
+    const img = ctx.getImageData(rx0, ry0, rx1 - rx0, ry1 - ry0);
+    if (dilateGutter(img, rx0, ry0, source, W, x0, y0, x1, y1)) {
+      ctx.putImageData(img, rx0, ry0, x0 - rx0, y0 - ry0, x1 - x0, y1 - y0);
+    }
+  }
+
+  /** Opens a stroke: every dab until endStroke() is undone as one step. */
+  beginStroke() {
+    if (!this.created) return;
+    if (this._recorder && !this._history.strokeOpen) {
+      this._record(StrokeOp.Begin);
+    }
+    this._history.beginStroke();
+  }
+
+  endStroke() {
+    if (this._recorder && this._history.strokeOpen) {
+      this._record(StrokeOp.End);
+    }
+    this._history.endStroke();
+  }
+
+  get canUndo() {
+    return this._history.canUndo || this._history.strokeOpen;
+  }
+
+  get canRedo() {
+    return this._history.canRedo;
+  }
+
+  /** Reverts the last stroke. Returns false when there was nothing to undo. */
+  undo(): boolean {
+    if (!this.created) return false;
+    const changed = this._history.undo();
+    if (!changed) return false;
+    if (changed.includes(this._maskCtx)) this._maskEmpty = false;
+    const vertexPaint = this._vertexPaint;
+    if (vertexPaint && changed.includes(vertexPaint.colors)) {
+      vertexPaint.markChanged(0, vertexPaint.vertexCount - 1);
+    }
+    this._refresh();
+    return true;
+  }
+
+  /** Re-applies the last undone stroke. Returns false when there was nothing to redo. */
+  redo(): boolean {
+    if (!this.created) return false;
+    const changed = this._history.redo();
+    if (!changed) return false;
+    if (changed.includes(this._maskCtx)) this._maskEmpty = false;
+    const vertexPaint = this._vertexPaint;
+    if (vertexPaint && changed.includes(vertexPaint.colors)) {
+      vertexPaint.markChanged(0, vertexPaint.vertexCount - 1);
+    }
+    this._refresh();
+    return true;
+  }
+
+  // --- stroke recording / timelapse replay ---
+
+  /** True while paint calls are appended to a StrokeLog. */
+  get recording() {
+    return this._recorder !== null;
+  }
+
+  /** True while replayStrokeLog is drawing. */
+  get replaying() {
+    return this._replay !== null;
+  }
+
+  /**
+   * Starts logging paintAtUV / smudgeAtUV / blurAtUV / paintInSphere /
+   * fillRegion calls, stroke boundaries and channelValues / blendMode
+   * changes. Decals are not recorded. Returns the log, which keeps growing until stopRecording().
+   */
+  startRecording(): StrokeLog | null {
+    if (!this.created) return null;
+    const log = new StrokeLog(this.canvas.width, this.canvas.height);
+    this._recorder = new StrokeRecorder(log, performance.now());
+    // a stroke already open would otherwise replay without its begin
+    if (this._history.strokeOpen) this._record(StrokeOp.Begin);
+    return log;
+  }
+
+  /** Ends the recording and returns its log (null when none was running). */
+  stopRecording(): StrokeLog | null {
+    const recorder = this._recorder;
+    if (recorder && this._history.strokeOpen) this._record(StrokeOp.End);
+    this._recorder = null;
+    return recorder?.log ?? null;
+  }
+
+  /** Stops the recording and downloads its log as JSON. */
+  downloadStrokeLog(
+    filename = `${this.object.name || 'painted'}.strokes.json`,
+  ) {
+    const log = this.stopRecording();
+    if (!log) return false;
+    const json = JSON.stringify(log);
+    downloadBinary(
+      new TextEncoder().encode(json).buffer as ArrayBuffer,
+      filename,
+      'application/json',
+    );
+    return true;
+  }
+
+  /**
+   * Clears the paint: a single base layer in initialColor (plus the
+   * material's texture with initialTexture), PBR channels at their initial
+   * values, no mask and no undo history (vertex mode: the colors the mesh
+   * started with).
+   */
+  resetCanvas() {
+    if (!this.created) return;
+    this._history.clear();
+    if (this._vertexPaint) {
+      this._vertexPaint.load();
+      return;
+    }
+    const base = this._createBaseLayer();
+    if (!base) return;
+    this._stack.replace([base]);
+    this._addTextureLayer();
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    base.baseImage = base.ctx.getImageData(0, 0, W, H);
+    const { roughness, metallic, height } = this._channels;
+    if (roughness) fillGray(roughness, this.initialRoughness);
+    if (metallic) fillGray(metallic, this.initialMetallic);
+    if (height) fillGray(height, 0);
+    this._maskCtx.clearRect(0, 0, W, H);
+    this._maskEmpty = true;
+    this._maskMode = false;
+    this._refresh();
+  }
+
+  /**
+   * Redraws `log` onto a fresh canvas (resetCanvas) as a timelapse, advanced
+   * every frame at `speed` x the recorded pace (replaySpeed can be changed
+   * meanwhile); Infinity draws it all at once. Dab radii are scaled when the
+   * canvas size differs from the recording's. Resolves when the last event
+   * was drawn, or with false when stopReplay() cut it short.
+   *
+   * Once the replay ends, the painting from before (layers, mask, channels,
+   * undo history) is put back, unless `keepResult` makes the replayed paint
+   * replace it. Autosave is paused while the replay runs.
+   */
+  replayStrokeLog(
+    log: StrokeLog,
+    speed = this.replaySpeed,
+    keepResult = false,
+  ): Promise<boolean> {
+    if (!this.created) return Promise.resolve(false);
+    this.stopReplay();
+    // a stroke in progress is finished as it is and comes back with the painting
+    this.endStroke();
+    const painting = this._snapshotPaint();
+    // the replay's strokes get their own history; resetCanvas would clear the user's
+    this._history = new PaintHistory();
+    this._history.budgetBytes = painting.history.budgetBytes;
+    this.resetCanvas();
+    this.replaySpeed = speed;
+    return new Promise((resolve) => {
+      this._replay = {
+        player: new StrokeReplay(log, performance.now()),
+        radiusScale: Math.sqrt(
+          (this.canvas.width * this.canvas.height) / (log.width * log.height),
+        ),
+        channels: this.channelValues,
+        blendMode: this.blendMode,
+        painting: keepResult ? null : painting,
+        resolve,
+      };
+      if (!Number.isFinite(speed)) this._advanceReplay(true);
+    });
+  }
+
+  /**
+   * Stops a running replay. The painting from before comes back, unless the
+   * replay was started with `keepResult` (then what was drawn so far stays).
+   */
+  stopReplay() {
+    this._finishReplay(false);
+  }
+
+  private _finishReplay(complete: boolean) {
+    const replay = this._replay;
+    if (!replay) return;
+    this._replay = null;
+    if (this._history.strokeOpen) this._history.endStroke();
+    this.channelValues = replay.channels;
+    this.blendMode = replay.blendMode;
+    if (replay.painting) this._restorePaint(replay.painting);
+    replay.resolve(complete);
+  }
+
+  // everything resetCanvas replaces or clears
+  private _snapshotPaint(): PaintSnapshot {
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const channels: [PaintLayer, ImageData][] = [];
+    for (const channel of SCALAR_CHANNELS) {
+      const layer = this._channels[channel];
+      if (layer) channels.push([layer, layer.ctx.getImageData(0, 0, W, H)]);
+    }
+    return {
+      layers: this._stack.layers,
+      activeLayer: this._stack.active,
+      history: this._history,
+      channels,
+      mask: this._maskCtx.getImageData(0, 0, W, H),
+      maskEmpty: this._maskEmpty,
+      maskMode: this._maskMode,
+      vertexColors: this._vertexPaint?.colors.slice() ?? null,
+      dirty: this._dirtySinceSave,
+    };
+  }
+
+  private _restorePaint(painting: PaintSnapshot) {
+    this._history = painting.history;
+    if (this._vertexPaint && painting.vertexColors) {
+      this._vertexPaint.load(painting.vertexColors);
+    } else {
+      this._stack.replace(painting.layers, painting.activeLayer);
+      for (const [layer, image] of painting.channels) {
+        layer.ctx.putImageData(image, 0, 0);
+      }
+      this._maskCtx.putImageData(painting.mask, 0, 0);
+      this._maskEmpty = painting.maskEmpty;
+      this._maskMode = painting.maskMode;
+      this._refresh();
+    }
+    // nothing changed since the painting was set aside
+    this._dirtySinceSave = painting.dirty;
+  }
+
+  // runs the events due by the replay clock (all of them with `all`)
+  private _advanceReplay(all = false) {
+    const replay = this._replay;
+    if (!replay) return;
+    replay.player.advance(
+      performance.now(),
+      this.replaySpeed,
+      this.replayMaxGap,
+      (e) => {
+        applyStrokeEvent(this, e, replay.radiusScale);
+        // a paint call may have ended the replay (stopReplay from a callback)
+        return this._replay === replay;
+      },
+      all,
+    );
+    if (this._replay === replay && replay.player.done) {
+      this._finishReplay(true);
+    }
+  }
+
+  // appends an event unless the call comes from a replay
+  private _record(op: StrokeEvent['op'], fields?: ArrayLike<number>) {
+    if (!this._recorder || this._replay) return;
+    this._recorder.record(op, performance.now(), this, fields);
+  }
+
+  private _recordDab(
+    u: number,
+    v: number,
+    radiusPx: number,
+    colorRGBA: [number, number, number, number],
+    triIndex: number,
+  ) {
+    const world = this._tmpRecordPoint;
+    if (this._core?.pointAtUV(triIndex, u, v, world)) {
+      this.object.transformPointWorld(world, world);
+    } else {
+      world.fill(NaN);
+    }
+    this._record(StrokeOp.Dab, [
+      u,
+      v,
+      triIndex,
+      radiusPx,
+      ...colorRGBA,
+      ...world,
+    ]);
+  }
+
+  private _recordSphere(
+    center: ArrayLike<number>,
+    radius: number,
+    colorRGBA: [number, number, number, number],
+    hardness: number,
+  ) {
+    const world = this._tmpRecordPoint;
+    world[0] = center[0];
+    world[1] = center[1];
+    world[2] = center[2];
+    this.object.transformPointWorld(world, world);
+    this._record(StrokeOp.Sphere, [
+      center[0],
+      center[1],
+      center[2],
+      radius,
+      hardness,
+      ...colorRGBA,
+      ...world,
+    ]);
+  }
+
+  // --- layers (index 0 is the bottom of the stack) ---
+
+  get layerCount() {
+    return this._stack.count;
+  }
+
+  get activeLayer() {
+    return this._stack.active;
+  }
+
+  getLayers(): PaintLayerInfo[] {
+    return this._stack.info();
+  }
+
+  /** Adds a transparent layer (on top by default), makes it active and returns its index. */
+  addLayer(name = `Layer ${this._stack.count}`, index = this._stack.count) {
+    if (!this.created) return -1;
+    const layer = this._createLayer(name);
+    if (!layer) return -1;
+    return this._stack.insert(layer, index);
+  }
+
+  /**
+   * Removes a layer as an undo step of its own (undo puts it back, so the
+   * strokes painted on it stay undoable); the last remaining layer cannot be
+   * removed.
+   */
+  removeLayer(index: number): boolean {
+    const bytes = this.canvas.width * this.canvas.height * 4;
+    // only the history keeps it now; coverage is rebuilt if it comes back
+    const removed = this._stack.remove(index, this._history, bytes, (layer) => {
+      layer.glaze = undefined;
+    });
+    if (removed) this._refresh();
+    return removed;
+  }
+
+  moveLayer(from: number, to: number): boolean {
+    if (!this._stack.move(from, to)) return false;
+    this._refresh();
+    return true;
+  }
+
+  setActiveLayer(index: number): boolean {
+    return this._stack.setActive(index);
+  }
+
+  setLayerVisible(index: number, visible: boolean) {
+    if (this._stack.setVisible(index, visible)) this._refresh();
+  }
+
+  setLayerOpacity(index: number, opacity: number) {
+    if (this._stack.setOpacity(index, opacity)) this._refresh();
+  }
+
+  setLayerLocked(index: number, locked: boolean) {
+    this._stack.setLocked(index, locked);
+  }
+
+  setLayerName(index: number, name: string) {
+    this._stack.setName(index, name);
+  }
+
+  // 'Base' layer filled with initialColor (and the material texture with initialTexture 'base')
+  private _createBaseLayer(): PaintLayer | null {
+    const base = this._createLayer('Base');
+    if (!base) return null;
+    const c = this.initialColor;
+    base.ctx.fillStyle = `rgba(${Math.round(c[0] * 255)}, ${Math.round(
+      c[1] * 255,
+    )}, ${Math.round(c[2] * 255)}, ${c[3]})`;
+    base.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    if (this._initialImage && this.initialTexture === 1) {
+      base.ctx.drawImage(this._initialImage, 0, 0);
+    }
+    return base;
+  }
+
+  // initialTexture 'layer': the material texture as an active 'Texture' layer on top
+  private _addTextureLayer() {
+    if (!this._initialImage || this.initialTexture !== 2) return;
+    const layer = this._createLayer('Texture');
+    if (!layer) return;
+    layer.ctx.drawImage(this._initialImage, 0, 0);
+    this._stack.insert(layer);
+  }
+
+  /**
+   * The material's albedo / diffuse / flat texture resampled to the canvas
+   * size, or null (with a warning) when it has none or its pixels can't be
+   * read: compressed textures have no image, and cross-origin images without
+   * CORS would taint the canvas.
+   */
+  private _readMaterialTexture(
+    material: Material | null,
+  ): HTMLCanvasElement | null {
+    let texture: Texture | null = null;
+    for (const slot of ['albedoTexture', 'diffuseTexture', 'flatTexture']) {
+      try {
+        texture = (material as any)?.[slot] ?? null;
+      } catch {
+        texture = null;
+      }
+      if (texture) break;
+    }
+    const image = texture?.htmlElement ?? null;
+    if (!image) {
+      console.warn(
+        'mesh-paintable: initialTexture - material has no readable texture',
+      );
+      return null;
+    }
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const canvas = document.createElement('canvas');
+    canvas.width = W;
+    canvas.height = H;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    if (image instanceof ImageData) {
+      const source = document.createElement('canvas');
+      source.width = image.width;
+      source.height = image.height;
+      source.getContext('2d')?.putImageData(image, 0, 0);
+      ctx.drawImage(source, 0, 0, W, H);
+    } else {
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, 0, 0, W, H);
+    }
+    try {
+      ctx.getImageData(0, 0, 1, 1);
+    } catch (e) {
+      console.warn(
+        'mesh-paintable: initialTexture - texture is not readable',
+        e,
+      );
+      return null;
+    }
+    return canvas;
+  }
+
+  private _createLayer(name: string): PaintLayer | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.canvas.width;
+    canvas.height = this.canvas.height;
+    // history snapshots read pixels back on every stroke
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      console.error('mesh-paintable: failed to get 2D context for layer');
+      return null;
+    }
+    return { name, canvas, ctx, visible: true, opacity: 1, locked: false };
+  }
+
+  // re-composite a region of the layer stack into the texture canvas
+  private _composite(x: number, y: number, w: number, h: number) {
+    const x0 = Math.max(0, Math.floor(x)),
+      y0 = Math.max(0, Math.floor(y));
+    const x1 = Math.min(this.canvas.width, Math.ceil(x + w)),
+      y1 = Math.min(this.canvas.height, Math.ceil(y + h));
+    if (x1 <= x0 || y1 <= y0) return;
+    const out = this._compositeRect(x0, y0, x1 - x0, y1 - y0, this._maskMode);
+    this.ctx.putImageData(out, x0, y0);
+  }
+
+  // the visible layers (and optionally the mask tint) over an integer rect
+  private _compositeRect(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    tint: boolean,
+  ): ImageData {
+    const layers: CompositeLayer[] = [];
+    for (const layer of this._stack.layers) {
+      if (!layer.visible || layer.opacity <= 0) continue;
+      const buffer = layer.ctx.getImageData(x, y, w, h);
+      layers.push({ buffer, opacity: layer.opacity });
+    }
+    if (tint) {
+      const buffer = this._maskCtx.getImageData(x, y, w, h);
+      layers.push({ buffer, opacity: MASK_TINT_OPACITY });
+    }
+    const out = this.ctx.createImageData(w, h);
+    compositeLayers(out, layers);
+    return out;
+  }
+
+  // the whole paint without the mask tint, leaving the texture canvas alone
+  private _untintedComposite(): ImageData {
+    return this._compositeRect(
+      0,
+      0,
+      this.canvas.width,
+      this.canvas.height,
+      false,
+    );
+  }
+
+  // full re-composite + upload (structural layer changes, undo/redo)
+  private _refresh() {
+    if (!this.created) return;
+    this._invalidate(0, 0, this.canvas.width, this.canvas.height);
+    this._dirtySinceSave = true;
+  }
+
+  // queue a texel rect for the next flush (immediate full upload with batchUploads off)
+  private _invalidate(x: number, y: number, w: number, h: number) {
+    const x0 = Math.max(0, Math.floor(x)),
+      y0 = Math.max(0, Math.floor(y));
+    const x1 = Math.min(this.canvas.width, Math.ceil(x + w)),
+      y1 = Math.min(this.canvas.height, Math.ceil(y + h));
+    if (x1 <= x0 || y1 <= y0) return;
+    const r = this._pendingRect;
+    if (r[0] >= r[2]) {
+      r[0] = x0;
+      r[1] = y0;
+      r[2] = x1;
+      r[3] = y1;
+    } else {
+      r[0] = Math.min(r[0], x0);
+      r[1] = Math.min(r[1], y0);
+      r[2] = Math.max(r[2], x1);
+      r[3] = Math.max(r[3], y1);
+    }
+    if (!this.batchUploads) this.flushTexture();
+  }
+
+  /**
+   * Composites the pending dirty rect and uploads it to the texture. Runs
+   * automatically before each frame is rendered; call it directly before
+   * reading the composite canvas.
+   */
+  flushTexture() {
+    const r = this._pendingRect;
+    if (!this.created || r[0] >= r[2]) return;
+    const t0 = performance.now();
+    const x = r[0],
+      y = r[1],
+      w = r[2] - r[0],
+      h = r[3] - r[1];
+    r[0] = r[2] = 0;
+    this._composite(x, y, w, h);
+    this._upload(this.canvasTexture, this.canvas, x, y, w, h);
+    if (this._rmTexture) {
+      this._packRoughnessMetallic(x, y, w, h);
+      this._upload(this._rmTexture, this._rmCanvas!, x, y, w, h);
+    }
+    if (this._normalTexture) {
+      this._heightToNormals(x, y, w, h);
+      this._upload(this._normalTexture, this._normalCanvas!, x, y, w, h);
+    }
+    this._frameStats.addUpload(performance.now() - t0);
+  }
+
+  private _upload(
+    texture: Texture,
+    canvas: HTMLCanvasElement,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+  ) {
+    const W = canvas.width,
+      H = canvas.height;
+    // large regions: a full upload is cheaper than copying into the staging canvas first
+    let uploaded = false;
+    if (this.batchUploads && w * h < W * H * 0.5) {
+      let staging = this._staging;
+      if (!staging || staging.width < w || staging.height < h) {
+        staging = document.createElement('canvas');
+        staging.width = Math.max(w, staging?.width ?? 0);
+        staging.height = Math.max(h, staging?.height ?? 0);
+        this._staging = staging;
+      }
+      const sctx = staging.getContext('2d');
+      if (sctx) {
+        sctx.globalCompositeOperation = 'copy';
+        sctx.drawImage(canvas, x, y, w, h, 0, 0, w, h);
+        uploaded = texture.updateSubImage(0, 0, w, h, x, y, staging);
+      }
+    }
+    if (!uploaded) texture.update();
+  }
+
+  // --- PBR channels ---
+
+  private _createChannels() {
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    const mat: any = this.material;
+
+    if (this.pbrChannels) {
+      const roughness = this._createLayer('Roughness');
+      const metallic = this._createLayer('Metallic');
+      const rm = document.createElement('canvas');
+      rm.width = W;
+      rm.height = H;
+      if (roughness && metallic) {
+        fillGray(roughness, this.initialRoughness);
+        fillGray(metallic, this.initialMetallic);
+        this._channels.roughness = roughness;
+        this._channels.metallic = metallic;
+        this._rmCanvas = rm;
+        this._packRoughnessMetallic(0, 0, W, H);
+        this._rmTexture = this.engine.textures.create(rm);
+        if (mat) {
+          try {
+            mat.roughnessMetallicTexture = this._rmTexture;
+          } catch {}
+          // the shader scales texture values by the factors
+          try {
+            mat.roughnessFactor = 1;
+          } catch {}
+          try {
+            mat.metallicFactor = 1;
+          } catch {}
+        }
+      }
+    }
+
+    if (this.heightToNormal) {
+      const height = this._createLayer('Height');
+      const normal = document.createElement('canvas');
+      normal.width = W;
+      normal.height = H;
+      const nctx = normal.getContext('2d');
+      if (height && nctx) {
+        fillGray(height, 0);
+        nctx.fillStyle = 'rgb(128,128,255)';
+        nctx.fillRect(0, 0, W, H);
+        this._channels.height = height;
+        this._normalCanvas = normal;
+        this._normalTexture = this.engine.textures.create(normal);
+        if (mat) {
+          try {
+            mat.normalTexture = this._normalTexture;
+          } catch {}
+        }
+      }
+    }
+  }
+
+  // glTF layout: G = roughness, B = metallic (R and A unused)
+  private _packRoughnessMetallic(x: number, y: number, w: number, h: number) {
+    const rctx = this._rmCanvas!.getContext('2d')!;
+    const out = rctx.createImageData(w, h);
+    packRoughnessMetallic(
+      this._channels.roughness!.ctx.getImageData(x, y, w, h),
+      this._channels.metallic!.ctx.getImageData(x, y, w, h),
+      out,
+    );
+    rctx.putImageData(out, x, y);
+  }
+
+  // central differences of the height canvas -> tangent-space normals (+Y = +v)
+  private _heightToNormals(x: number, y: number, w: number, h: number) {
+    const W = this.canvas.width,
+      H = this.canvas.height;
+    // one texel of margin for the differences at the rect border
+    const mx0 = Math.max(0, x - 1),
+      my0 = Math.max(0, y - 1);
+    const mx1 = Math.min(W, x + w + 1),
+      my1 = Math.min(H, y + h + 1);
+    const height = this._channels.height!.ctx.getImageData(
+      mx0,
+      my0,
+      mx1 - mx0,
+      my1 - my0,
+    );
+    const nctx = this._normalCanvas!.getContext('2d')!;
+    const out = nctx.createImageData(w, h);
+    // canvas rows run against v when flipY is set
+    const vSign = this.flipY ? 1 : -1;
+    heightToNormals(height, out, x - mx0, y - my0, this.normalStrength, vSign);
+    nctx.putImageData(out, x, y);
+  }
+
+  // called once per frame before the flush
+  private _logFrameTimes() {
+    const summary = this._frameStats.frame(performance.now());
+    if (summary) {
+      console.log(
+        `mesh-paintable: ${this.object.name} ${summary}, batchUploads=${this.batchUploads}`,
+      );
+    }
+  }
+
+  /**
+   * Times a synthetic stroke with per-dab and batched uploads (see
+   * PaintBenchmarks.benchmarkTextureUploads); logs and returns the result.
+   */
+  benchmarkTextureUploads(dabCount = 200) {
+    if (!this.created) return null;
+    const layer = this._stack.activeLayer;
+    if (!layer || layer.locked) return null;
+    const mark = this.markPaintOnCanvas;
+    this.markPaintOnCanvas = false;
+    const result = benchmarkTextureUploads(this, dabCount);
+    this.markPaintOnCanvas = mark;
+    console.log('mesh-paintable: texture upload benchmark', result);
+    return result;
+  }
+
+  // --- session persistence (IndexedDB) ---
+
+  /** Save time (ms) of the session awaiting a resume decision, or null. */
+  get pendingSessionSavedAt(): number | null {
+    return this._savedSession?.savedAt ?? null;
+  }
+
+  private async _findSavedSession() {
+    const key = this._sessionKey!;
+    let record: PaintSessionRecord | null = null;
+    try {
+      record = await loadPaintSession(key);
+    } catch (e) {
+      console.warn('mesh-paintable: could not read saved session', e);
+    }
+    if (!record || record.layers.length === 0) {
+      this._autosaveEnabled = true;
+      return;
+    }
+
+    this._savedSession = record;
+    if (!this.promptResume) {
+      await this.resumeSavedSession();
+      return;
+    }
+    MeshPaintable.pendingSessions.add(this);
+    MeshPaintable.onSessionFound.notify(this, record.savedAt);
+  }
+
+  /** Replaces the current layers with the saved session found on start. */
+  async resumeSavedSession(): Promise<boolean> {
+    const record = this._savedSession;
+    this._savedSession = null;
+    MeshPaintable.pendingSessions.delete(this);
+    if (!record || !this.created) {
+      this._autosaveEnabled = true;
+      return false;
+    }
+
+    try {
+      const { width: W, height: H } = this.canvas;
+      if (record.width !== W || record.height !== H) {
+        console.info(
+          `mesh-paintable: resampling saved session from ${record.width}x${record.height} to ${W}x${H}`,
+        );
+      }
+      const restored = await drawPaintSession(
+        record,
+        (name) => this._createLayer(name),
+        this._maskCtx,
+        this._channels,
+      );
+      if (!restored || restored.layers.length === 0) return false;
+      const { layers } = restored;
+      // erase goes back to the bottom layer as it was saved
+      layers[0].baseImage = layers[0].ctx.getImageData(0, 0, W, H);
+      this._stack.replace(layers, record.activeLayer);
+      this._maskEmpty = restored.maskEmpty;
+      // a different mesh (or a texture-mode save) keeps the colors it read
+      const colors = record.vertexColors;
+      if (colors && colors.length === this._vertexPaint?.colors.length) {
+        this._vertexPaint.load(colors);
+      }
+      this._history.clear();
+      this._refresh();
+      // restored pixels match the stored record
+      this._dirtySinceSave = false;
+      return true;
+    } catch (e) {
+      console.warn('mesh-paintable: failed to restore saved session', e);
+      return false;
+    } finally {
+      this._autosaveEnabled = true;
+    }
+  }
+
+  /** Drops the saved session found on start and keeps the fresh canvas. */
+  async discardSavedSession() {
+    this._savedSession = null;
+    MeshPaintable.pendingSessions.delete(this);
+    this._autosaveEnabled = true;
+    if (!this._sessionKey) return;
+    try {
+      await deletePaintSession(this._sessionKey);
+    } catch (e) {
+      console.warn('mesh-paintable: could not delete saved session', e);
+    }
+  }
+
+  /**
+   * Writes all layers, the mask, the PBR channels and vertex colors to
+   * IndexedDB now. No-op
+   * while a resume decision is pending or a replay runs.
+   */
+  saveSession(): Promise<void> {
+    if (
+      !this._sessionKey ||
+      !this._autosaveEnabled ||
+      !this.created ||
+      this._replay
+    ) {
+      return Promise.resolve();
+    }
+    if (this._saving) return this._saving;
+
+    this._autosaveTimer = 0;
+    this._dirtySinceSave = false;
+    const key = this._sessionKey;
+    const state: PaintSessionState = {
+      layers: this._stack.layers.slice(),
+      activeLayer: this._stack.active,
+      mask: this._maskEmpty ? null : this._maskCanvas,
+      channels: { ...this._channels },
+      vertexColors: this._vertexPaint?.colors.slice(),
+    };
+    const { width, height } = this.canvas;
+
+    this._saving = (async () => {
+      try {
+        await savePaintSession(
+          await encodePaintSession(key, state, width, height),
+        );
+      } catch (e) {
+        this._dirtySinceSave = true;
+        console.warn('mesh-paintable: failed to save session', e);
+      } finally {
+        this._saving = null;
+      }
+    })();
+    return this._saving;
+  }
+
+  /**
+   * Encodes the cached mesh and the composited canvas as a binary glTF with
+   * the painted image embedded as the base color texture, plus the packed
+   * roughness/metallic and the height-derived normal map when those channels
+   * exist, and COLOR_0 in vertex mode.
+   */
+  async exportGLB(name = this.object.name || 'painted') {
+    const part = await this._glbPart(name);
+    if (!part) return null;
+    return encodeGLB(part.mesh, part.images, { name });
+  }
+
+  /** Paintables (with built caches) on `root` or any of its descendants. */
+  static paintablesBelow(root: Object3D): MeshPaintable[] {
+    return [...MeshPaintable.instances].filter((p) =>
+      isDescendant(p.object, root),
+    );
+  }
+
+  /**
+   * One binary glTF for every active paintable at or below `root` (e.g. a
+   * model loaded through attachToHierarchy): a node per paintable with its
+   * transform relative to `root`, each with its own mesh and material.
+   * Null when none of them has anything to export.
+   */
+  static async exportHierarchyGLB(
+    root: Object3D,
+    name = root.name || 'painted',
+  ) {
+    const toRoot = mat4.invert(mat4.create(), objectWorldMatrix(root));
+    const parts: GLBPart[] = [];
+    for (const p of MeshPaintable.paintablesBelow(root)) {
+      if (!p.active) continue;
+      const suffix = p.meshIndex > 0 ? `-${p.meshIndex}` : '';
+      const part = await p._glbPart(`${p.object.name || 'part'}${suffix}`);
+      if (!part) continue;
+      const matrix = objectWorldMatrix(p.object);
+      part.matrix = mat4.multiply(matrix, toRoot, matrix);
+      parts.push(part);
+    }
+    return parts.length > 0 ? encodeGLBScene(parts, { name }) : null;
+  }
+
+  private async _glbPart(name: string): Promise<GLBPart | null> {
+    // skinned meshes export their bind pose (the GLB carries no skin)
+    const positions = this._bindPositions ?? this._positionsFlat;
+    const triIndices = this._triIndices;
+    if (!this.created || !positions || !triIndices) return null;
+
+    // canvas row 0 is v = 1 when flipY is set; glTF expects v = 0 at the top row
+    // without mesh UVs, the planar fallback used by getUVFromLocalRay
+    const uvs = this._uvsFlat
+      ? this._uvsFlat.slice()
+      : planarUVs(this._bindPositions ?? this._positionsFlat!);
+    if (this.flipY) {
+      for (let i = 1; i < uvs.length; i += 2) uvs[i] = 1 - uvs[i];
+    }
+
+    // export the paint without the mask tint
+    const paint = document.createElement('canvas');
+    paint.width = this.canvas.width;
+    paint.height = this.canvas.height;
+    paint.getContext('2d')?.putImageData(this._untintedComposite(), 0, 0);
+    // packs the roughness / metallic and normal canvases
+    this.flushTexture();
+    const images: GLBMaterialImages = {
+      baseColor: await canvasToPNG(paint),
+    };
+    if (this._rmCanvas) {
+      images.metallicRoughness = await canvasToPNG(this._rmCanvas);
+    }
+    if (this._normalCanvas)
+      images.normal = await canvasToPNG(this._normalCanvas);
+    const mesh = {
+      positions,
+      normals: computeVertexNormals(positions, triIndices),
+      uvs,
+      colors: this._vertexPaint?.colors.slice() ?? null,
+      indices: Uint32Array.from(triIndices),
+    };
+    return { name, mesh, images };
+  }
+
+  /** Exports via exportGLB() and starts a browser download. */
+  async downloadGLB(filename = `${this.object.name || 'painted'}.glb`) {
+    const glb = await this.exportGLB();
+    if (!glb) {
+      console.warn('mesh-paintable: nothing to export');
+      return false;
+    }
+    downloadBinary(glb, filename);
+    return true;
+  }
+
+  getCanvasSize() {
+    return { width: this.canvas.width, height: this.canvas.height };
+  }
+
+  private drawUvDebug() {
+    const ctx = this._stack.layers[0].ctx;
+    const w = this.canvas.width,
+      h = this.canvas.height;
+    const size = 32;
+    for (let y = 0; y < h; y += size) {
+      for (let x = 0; x < w; x += size) {
+        const even = (((x / size) | 0) + ((y / size) | 0)) % 2 === 0;
+        ctx.fillStyle = even ? 'rgba(200,200,200,0.9)' : 'rgba(80,80,80,0.9)';
+        ctx.fillRect(x, y, size, size);
+      }
+    }
+
+    const img = ctx.createImageData(w, h);
+    for (let yy = 0; yy < h; yy++) {
+      for (let xx = 0; xx < w; xx++) {
+        const i = (yy * w + xx) * 4;
+        img.data[i + 0] = Math.round((xx / (w - 1)) * 255);
+        img.data[i + 1] = Math.round((yy / (h - 1)) * 255);
+        img.data[i + 2] = 128;
+        img.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(img, 0, 0);
+  }
+}
+
+type PaintLayer = PaintLayerInfo & {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  // the base layer's starting image (erase restores it)
+  baseImage?: ImageData;
+  // glaze coverage of the open stroke per texel, once glazed
+  glaze?: GlazeCoverage;
+};
+
+type GlazeCoverage = { strokeId: number; values: Float32Array };
+
+// a running replayStrokeLog: its clock and what to put back afterwards
+type ReplayRun = {
+  player: StrokeReplay;
+  radiusScale: number;
+  // channelValues / blendMode to restore afterwards
+  channels: ChannelValues;
+  blendMode: BlendMode;
+  // painting to put back afterwards (null: keepResult)
+  painting: PaintSnapshot | null;
+  resolve: (complete: boolean) => void;
+};
+
+// painting set aside by replayStrokeLog (layers are kept, not copied: the replay draws on new ones)
+type PaintSnapshot = {
+  layers: PaintLayer[];
+  activeLayer: number;
+  history: PaintHistory;
+  channels: [PaintLayer, ImageData][];
+  mask: ImageData;
+  maskEmpty: boolean;
+  maskMode: boolean;
+  vertexColors: Float32Array | null;
+  dirty: boolean;
+};
+
+// fills a scalar channel layer with gray = value
+function fillGray(layer: PaintLayer, value: number) {
+  const g = Math.round(Math.min(Math.max(value, 0), 1) * 255);
+  layer.ctx.fillStyle = `rgb(${g},${g},${g})`;
+  layer.ctx.fillRect(0, 0, layer.canvas.width, layer.canvas.height);
+}
+
+export type DecalOptions = {
+  /** Vertical field of view of the projector in degrees (default 30). */
+  fov?: number;
+  /** Projection range in world units (default 2). */
+  far?: number;
+  opacity?: number;
+  /** 'image' paints the image's colors; 'stencil' paints `color` through its alpha. */
+  mode?: 'image' | 'stencil';
+  /** Stencil color (also what PBR channels and the mask receive). */
+  color?: [number, number, number, number];
+  /** Stencil coverage from darkness, for opaque images such as photos of a drawing. */
+  stencilFromLuminance?: boolean;
+};
+
+type DecalPass = DecalTarget & { options: DecalOptions };
+
+type PaintTarget = {
+  ctx: CanvasRenderingContext2D;
+  color: [number, number, number, number];
+};
+
+// colliders of paintables (they occlude through the mesh raycast) and of the
+// painted object or its ancestors (a collider around the whole model) don't
+function isOccluder(obj: Object3D | null, painted: Object3D): boolean {
+  if (!obj || obj.getComponents(MeshPaintable).length > 0) return false;
+  for (let o: Object3D | null = painted; o; o = o.parent) {
+    if (o.objectId === obj.objectId) return false;
+  }
+  return true;
+}
+
+// false when the mesh has no TextureCoordinate attribute or all UVs coincide
+// (the engine allocates zeroed UVs for glTFs without TEXCOORD_0)
+function hasUsableUVs(mesh: Mesh): boolean {
+  const uvAttr = mesh.attribute(MeshAttribute.TextureCoordinate);
+  if (!uvAttr || mesh.vertexCount === 0) return false;
+  const uvs = uvAttr.createArray(mesh.vertexCount);
+  uvAttr.get(0, uvs);
+  for (let i = 2; i < uvs.length; i += 2) {
+    if (
+      Math.abs(uvs[i] - uvs[0]) > 1e-6 ||
+      Math.abs(uvs[i + 1] - uvs[1]) > 1e-6
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// world transform including scale, as a column-major matrix
+function objectWorldMatrix(obj: Object3D): mat4 {
+  const m = mat4.fromQuat2(mat4.create(), obj.getTransformWorld());
+  return mat4.scale(m, m, obj.getScalingWorld());
+}
+
+function isDescendant(obj: Object3D, root: Object3D): boolean {
+  for (let o: Object3D | null = obj; o; o = o.parent) {
+    if (o.objectId === root.objectId) return true;
+  }
+  return false;
+}
+
+export type PaintHit = {
+  uv: [number, number];
+  triIndex: number;
+  localHit: [number, number, number];
+};
@@ -0,0 +1,213 @@
+// PaintBenchmarks.ts
+/**
+ * PaintBenchmarks - the measurements behind MeshPaintable's benchmarkBvh,
+ * benchmarkUploads and logFrameTimes switches. They time through `now`
+ * (performance.now by default) and return plain results; MeshPaintable
+ * logs them.
+ */
+import { PaintMesh, RayHit } from './PaintCore.js';
+
+export type RayBenchmark = {
+  triCount: number;
+  rayCount: number;
+  hits: number;
+  mismatches: number;
+  bvhMs: number;
+  bruteMs: number;
+};
+
+/**
+ * Fires `rayCount` deterministic pseudo-random rays at the mesh bounds and
+ * compares BVH hits against the brute-force scan. `mismatches` counts rays
+ * whose closest hit distance disagrees.
+ */
+export function benchmarkRayQueries(
+  mesh: PaintMesh,
+  rayCount = 500,
+  now = () => performance.now(),
+): RayBenchmark {
+  const positions = mesh.positions;
+
+  let minX = Infinity,
+    minY = Infinity,
+    minZ = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity,
+    maxZ = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]);
+    minZ = Math.min(minZ, positions[i + 2]);
+    maxX = Math.max(maxX, positions[i]);
+    maxY = Math.max(maxY, positions[i + 1]);
+    maxZ = Math.max(maxZ, positions[i + 2]);
+  }
+  const cx = (minX + maxX) * 0.5,
+    cy = (minY + maxY) * 0.5,
+    cz = (minZ + maxZ) * 0.5;
+  const radius = Math.hypot(maxX - minX, maxY - minY, maxZ - minZ) || 1;
+
+  // small LCG so runs are reproducible across reloads
+  let seed = 1234567;
+  const rand = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+
+  const origins: Float32Array[] = [];
+  const dirs: Float32Array[] = [];
+  for (let i = 0; i < rayCount; i++) {
+    // origin on a sphere around the mesh, aimed at a random point inside its bounds
+    const theta = rand() * Math.PI * 2;
+    const phi = Math.acos(2 * rand() - 1);
+    const o = new Float32Array([
+      cx + radius * Math.sin(phi) * Math.cos(theta),
+      cy + radius * Math.cos(phi),
+      cz + radius * Math.sin(phi) * Math.sin(theta),
+    ]);
+    const tx = minX + (maxX - minX) * rand(),
+      ty = minY + (maxY - minY) * rand(),
+      tz = minZ + (maxZ - minZ) * rand();
+    const d = new Float32Array([tx - o[0], ty - o[1], tz - o[2]]);
+    const len = Math.hypot(d[0], d[1], d[2]) || 1;
+    d[0] /= len;
+    d[1] /= len;
+    d[2] /= len;
+    origins.push(o);
+    dirs.push(d);
+  }
+
+  const bvhHits: (RayHit | null)[] = new Array(rayCount);
+  let t0 = now();
+  for (let i = 0; i < rayCount; i++) {
+    bvhHits[i] = mesh.raycast(origins[i], dirs[i]);
+  }
+  const bvhMs = now() - t0;
+
+  const bruteHits: (RayHit | null)[] = new Array(rayCount);
+  t0 = now();
+  for (let i = 0; i < rayCount; i++) {
+    bruteHits[i] = mesh.raycastBruteForce(origins[i], dirs[i]);
+  }
+  const bruteMs = now() - t0;
+
+  // compare distances rather than triangle ids: rays through a shared edge may pick either neighbour
+  let hits = 0,
+    mismatches = 0;
+  for (let i = 0; i < rayCount; i++) {
+    const a = bvhHits[i],
+      b = bruteHits[i];
+    if (a) hits++;
+    if (!a !== !b || (a && b && Math.abs(a.t - b.t) > 1e-5 * radius)) {
+      mismatches++;
+    }
+  }
+
+  return {
+    triCount: mesh.triCount,
+    rayCount,
+    hits,
+    mismatches,
+    bvhMs,
+    bruteMs,
+  };
+}
+
+/** The paint calls benchmarkTextureUploads strokes through. */
+export type UploadTarget = {
+  batchUploads: boolean;
+  beginStroke(): void;
+  endStroke(): void;
+  paintAtUV(
+    u: number,
+    v: number,
+    radiusPx: number,
+    color: [number, number, number, number],
+  ): unknown;
+  flushTexture(): void;
+  undo(): unknown;
+};
+
+export type UploadBenchmark = {
+  dabCount: number;
+  perDabMs: number;
+  batchedMs: number;
+};
+
+/**
+ * Paints a synthetic diagonal stroke of `dabCount` dabs twice, once with a
+ * full upload per dab and once batched into a single flush, then undoes both
+ * strokes and restores `batchUploads`.
+ */
+export function benchmarkTextureUploads(
+  target: UploadTarget,
+  dabCount = 200,
+  now = () => performance.now(),
+): UploadBenchmark {
+  const batch = target.batchUploads;
+  target.flushTexture();
+
+  const run = (batched: boolean) => {
+    target.batchUploads = batched;
+    const t0 = now();
+    target.beginStroke();
+    for (let i = 0; i < dabCount; i++) {
+      const t = (i + 0.5) / dabCount;
+      target.paintAtUV(0.1 + 0.8 * t, 0.2 + 0.6 * t, 12, [1, 0, 0, 0.5]);
+    }
+    target.endStroke();
+    target.flushTexture();
+    return now() - t0;
+  };
+  const perDabMs = run(false);
+  const batchedMs = run(true);
+
+  target.batchUploads = batch;
+  target.undo();
+  target.undo();
+  target.flushTexture();
+  return { dabCount, perDabMs, batchedMs };
+}
+
+/**
+ * Paint and upload time accumulated over frames. `frame()` is called once
+ * per frame and returns a summary line every `interval` ms with dabs painted
+ * in it (null otherwise), starting a new interval.
+ */
+export class FrameStats {
+  frames = 0;
+  dabs = 0;
+  uploads = 0;
+  paintMs = 0;
+  uploadMs = 0;
+  since = 0;
+
+  addDab(ms: number) {
+    this.dabs++;
+    this.paintMs += ms;
+  }
+
+  addUpload(ms: number) {
+    this.uploads++;
+    this.uploadMs += ms;
+  }
+
+  frame(now: number, interval = 2000): string | null {
+    if (this.since === 0) this.since = now;
+    this.frames++;
+    if (now - this.since < interval) return null;
+    let summary: string | null = null;
+    if (this.dabs > 0) {
+      const f = this.frames;
+      summary =
+        `over ${f} frames: ${(this.dabs / f).toFixed(1)} dabs/frame, ` +
+        `paint ${(this.paintMs / f).toFixed(2)} ms/frame, ` +
+        `composite+upload ${(this.uploadMs / f).toFixed(2)} ms/frame ` +
+        `(${this.uploads} uploads)`;
+    }
+    this.frames = this.dabs = this.uploads = 0;
+    this.paintMs = this.uploadMs = 0;
+    this.since = now;
+    return summary;
+  }
+}
@@ -0,0 +1,2250 @@
+// PaintCore.ts
+/**
+ * PaintCore - engine-independent paint math behind MeshPaintable.
+ *
+ * Everything here works on plain typed arrays and ImageData-like pixel
+ * buffers (no Wonderland API, no DOM), so it also runs under Node:
+ *  - PaintMesh: flat position / UV / index caches, per-triangle AABBs and
+ *    areas, the BVH, Möller-Trumbore ray hits, closest points and UV lookup
+ *  - stampDab / dilateGutter / rasterizeTriangle / blendTexel: texel writes,
+ *    smudgeDab / blurDab: texel filters, averageColor: texel reads
+ *  - weldVertices / bakeVertexCavity: position welding and a per-vertex
+ *    cavity (concave vs. raised) estimate for wash / drybrush
+ *  - skinPositions: CPU skinning of the hit-test geometry
+ *  - UVCanvas helpers: texel rects, coverage and falloff weights of
+ *    triangles, the texel cavity map
+ *  - buildSeamMap / buildUVIslands / gutterSources / seamFootprints /
+ *    floodRegion: surface connectivity across UV seams, island clipping,
+ *    gutters, seam-mirrored dabs and bucket fill regions
+ *  - projectPositions / rasterizeDecalDepth / decalTriangles / sampleDecal:
+ *    projected decals
+ *  - rectBlend / blendVertexMode / texelWriter / maskWriter / clipKeep /
+ *    vertexProtection: blend modes and the paint mask
+ *  - compositeLayers / packRoughnessMetallic / heightToNormals: layer stack
+ *    and PBR channel textures
+ *  - closestPointOnTriangle, sampleBilinear, blendVertex and friends
+ *
+ * MeshPaintable reads the engine mesh and skin into a PaintMesh, moves
+ * pixels between its canvases and PixelBuffers, and keeps history and
+ * texture uploads.
+ */
+import { MeshBVH } from './MeshBVH.js';
+
+/** RGBA8 pixels, row-major, straight alpha. ImageData satisfies it. */
+export type PixelBuffer = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+/**
+ * How a paint call combines with what is there: source-over, back to the
+ * base, darken (multiply), lighten (screen), a glaze that adds at most the
+ * color's opacity per stroke however often a texel is stamped, or source-over
+ * scaled by the surface's cavity map: a wash pools in crevices, a drybrush
+ * only catches raised edges (see cavityOpacity).
+ */
+export type BlendMode =
+  | 'normal'
+  | 'erase'
+  | 'multiply'
+  | 'screen'
+  | 'glaze'
+  | 'wash'
+  | 'drybrush';
+
+/** Every blend mode, in the order used by enum properties and stroke logs. */
+export const BLEND_MODES: BlendMode[] = [
+  'normal',
+  'erase',
+  'multiply',
+  'screen',
+  'glaze',
+  'wash',
+  'drybrush',
+];
+
+/** Per-texel write of a 0..255 color at coverage `a` (0..1) into texel t. */
+export type TexelBlend = (
+  data: Uint8ClampedArray,
+  t: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+) => void;
+
+const normalBlend: TexelBlend = (data, t, r, g, b, a) =>
+  blendTexel(data, t * 4, r, g, b, a);
+
+/**
+ * Color a smudge stream carries between dabs: premultiplied 0..255 RGBA for
+ * each texel of the (2 * reach + 1)^2 square around the dab center, NaN
+ * where nothing was picked up yet. Start a stream with reach -1.
+ */
+export type SmudgeLoad = { reach: number; data: Float32Array };
+
+/** Closest ray hit: triangle, distance and barycentric weights of vertex 1 and 2. */
+export type RayHit = { tri: number; t: number; u: number; v: number };
+
+export class PaintMesh {
+  /** xyz per vertex; rewrite in place and call refit() for deforming meshes. */
+  readonly positions: Float32Array;
+  /** uv per vertex, or null (planar fallback / vertex colors). */
+  readonly uvs: Float32Array | null;
+  readonly indices: Int32Array;
+  readonly triCount: number;
+  readonly triMin: Float32Array;
+  readonly triMax: Float32Array;
+  readonly triAreas: Float32Array;
+  // cumulative areas (triCount + 1 entries) for area-weighted sampling
+  readonly triCum: Float32Array;
+  totalArea = 0;
+  readonly bvh: MeshBVH;
+
+  private _p0 = new Float32Array(3);
+  private _p1 = new Float32Array(3);
+  private _p2 = new Float32Array(3);
+  private _closest = new Float32Array(5);
+
+  /** Without `indices` every three consecutive vertices form a triangle. */
+  constructor(
+    positions: Float32Array,
+    uvs: Float32Array | null,
+    indices?: ArrayLike<number> | null,
+  ) {
+    this.positions = positions;
+    this.uvs = uvs;
+    if (indices && indices.length > 0) {
+      this.indices = Int32Array.from(indices);
+    } else {
+      this.indices = new Int32Array(Math.floor(positions.length / 9) * 3);
+      for (let i = 0; i < this.indices.length; i++) this.indices[i] = i;
+    }
+    const triCount = this.indices.length / 3;
+    this.triCount = triCount;
+    this.triMin = new Float32Array(triCount * 3);
+    this.triMax = new Float32Array(triCount * 3);
+    this.triAreas = new Float32Array(triCount);
+    this.triCum = new Float32Array(triCount + 1);
+    this.updateBounds();
+    this.bvh = new MeshBVH(this.triMin, this.triMax, triCount);
+  }
+
+  /** Recomputes per-triangle AABBs and areas (+ cumulative areas) from positions. */
+  updateBounds() {
+    const { triMin, triMax, triAreas } = this;
+    const p0 = this._p0,
+      p1 = this._p1,
+      p2 = this._p2;
+    for (let t = 0; t < this.triCount; t++) {
+      this.loadTriangle(t, p0, p1, p2);
+      for (let k = 0; k < 3; k++) {
+        triMin[t * 3 + k] = Math.min(p0[k], p1[k], p2[k]);
+        triMax[t * 3 + k] = Math.max(p0[k], p1[k], p2[k]);
+      }
+      const abx = p1[0] - p0[0],
+        aby = p1[1] - p0[1],
+        abz = p1[2] - p0[2];
+      const acx = p2[0] - p0[0],
+        acy = p2[1] - p0[1],
+        acz = p2[2] - p0[2];
+      const cx = aby * acz - abz * acy;
+      const cy = abz * acx - abx * acz;
+      const cz = abx * acy - aby * acx;
+      triAreas[t] = 0.5 * Math.hypot(cx, cy, cz);
+    }
+
+    let cum = 0;
+    for (let t = 0; t < this.triCount; t++) {
+      this.triCum[t] = cum;
+      cum += triAreas[t];
+    }
+    this.triCum[this.triCount] = cum;
+    this.totalArea = cum;
+  }
+
+  /** After positions moved: new bounds, BVH refit (same topology). */
+  refit() {
+    this.updateBounds();
+    this.bvh.refit(this.triMin, this.triMax);
+  }
+
+  loadTriangle(
+    tri: number,
+    p0: Float32Array,
+    p1: Float32Array,
+    p2: Float32Array,
+  ) {
+    loadTriangle(this.positions, this.indices, tri, p0, p1, p2);
+  }
+
+  /** Closest triangle hit along a ray, via the BVH. */
+  raycast(
+    origin: Float32Array,
+    dir: Float32Array,
+    maxDistance = Infinity,
+  ): RayHit | null {
+    let bestU = 0,
+      bestV = 0,
+      closestT = Infinity;
+    const p0 = this._p0,
+      p1 = this._p1,
+      p2 = this._p2;
+    const tri = this.bvh.raycast(origin, dir, maxDistance, (t, currentT) => {
+      this.loadTriangle(t, p0, p1, p2);
+      const hit = rayTriangleIntersectMollerTrumbore(origin, dir, p0, p1, p2);
+      if (!hit || hit.t <= 1e-6 || hit.t >= currentT) return Infinity;
+      bestU = hit.u;
+      bestV = hit.v;
+      closestT = hit.t;
+      return hit.t;
+    });
+    if (tri < 0) return null;
+    return { tri, t: closestT, u: bestU, v: bestV };
+  }
+
+  /** Reference path for raycast: linear scan over every triangle AABB. */
+  raycastBruteForce(
+    origin: Float32Array,
+    dir: Float32Array,
+    maxDistance = Infinity,
+  ): RayHit | null {
+    const { triMin, triMax } = this;
+    const lo = new Float32Array(3),
+      hi = new Float32Array(3);
+    for (let k = 0; k < 3; k++) {
+      const end = origin[k] + dir[k] * maxDistance;
+      lo[k] = Math.min(origin[k], end);
+      hi[k] = Math.max(origin[k], end);
+    }
+
+    let best: RayHit | null = null;
+    const p0 = this._p0,
+      p1 = this._p1,
+      p2 = this._p2;
+    for (let t = 0; t < this.triCount; t++) {
+      if (
+        triMax[t * 3] < lo[0] ||
+        triMin[t * 3] > hi[0] ||
+        triMax[t * 3 + 1] < lo[1] ||
+        triMin[t * 3 + 1] > hi[1] ||
+        triMax[t * 3 + 2] < lo[2] ||
+        triMin[t * 3 + 2] > hi[2]
+      ) {
+        continue;
+      }
+      this.loadTriangle(t, p0, p1, p2);
+      const hit = rayTriangleIntersectMollerTrumbore(origin, dir, p0, p1, p2);
+      if (
+        hit &&
+        hit.t > 1e-6 &&
+        hit.t <= maxDistance &&
+        (!best || hit.t < best.t)
+      ) {
+        best = { tri: t, t: hit.t, u: hit.u, v: hit.v };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Nearest surface point to `point` within maxDistance. Writes xyz +
+   * barycentric weights of vertex 1 and 2 into `out`; returns the triangle or -1.
+   */
+  closestPoint(
+    point: ArrayLike<number>,
+    maxDistance: number,
+    out: Float32Array,
+  ): number {
+    const p0 = this._p0,
+      p1 = this._p1,
+      p2 = this._p2;
+    const closest = this._closest;
+    const tri = this.bvh.closestTriangle(point, maxDistance, (t) => {
+      this.loadTriangle(t, p0, p1, p2);
+      return closestPointOnTriangle(point, p0, p1, p2, closest);
+    });
+    if (tri < 0) return -1;
+    this.loadTriangle(tri, p0, p1, p2);
+    closestPointOnTriangle(point, p0, p1, p2, out);
+    return tri;
+  }
+
+  /** Triangles with some point within `radius` of `center`. */
+  trianglesInSphere(center: ArrayLike<number>, radius: number): number[] {
+    const p0 = this._p0,
+      p1 = this._p1,
+      p2 = this._p2;
+    const closest = this._closest;
+    const r2 = radius * radius;
+    const tris: number[] = [];
+    this.bvh.querySphere(center, radius, (t) => {
+      this.loadTriangle(t, p0, p1, p2);
+      if (closestPointOnTriangle(center, p0, p1, p2, closest) <= r2) {
+        tris.push(t);
+      }
+    });
+    return tris;
+  }
+
+  /**
+   * Calls `visit` once for every vertex of the triangles near `center`
+   * that lies within `radius`, with its falloff weight: 1 up to hardness x
+   * radius, then smoothly down to 0 at the radius.
+   */
+  verticesInSphere(
+    center: ArrayLike<number>,
+    radius: number,
+    hardness: number,
+    visit: (v: number, weight: number) => void,
+  ) {
+    const positions = this.positions;
+    const indices = this.indices;
+    const r2 = radius * radius;
+    const inner = Math.min(Math.max(hardness, 0), 1) * radius;
+    const seen = new Set<number>();
+    this.bvh.querySphere(center, radius, (t) => {
+      for (let k = 0; k < 3; k++) {
+        const v = indices[t * 3 + k];
+        if (seen.has(v)) continue;
+        seen.add(v);
+        const dx = positions[v * 3] - center[0],
+          dy = positions[v * 3 + 1] - center[1],
+          dz = positions[v * 3 + 2] - center[2];
+        const d2 = dx * dx + dy * dy + dz * dz;
+        if (d2 >= r2) continue;
+        const d = Math.sqrt(d2);
+        visit(v, d <= inner ? 1 : smoothstep(radius, inner, d));
+      }
+    });
+  }
+
+  /**
+   * UV at barycentric weights (w1, w2) of triangle `tri`, clamped to [0, 1].
+   * False without UVs.
+   */
+  interpolateUV(tri: number, w1: number, w2: number, out: number[]): boolean {
+    const uvs = this.uvs;
+    if (!uvs) return false;
+    const i0 = this.indices[tri * 3],
+      i1 = this.indices[tri * 3 + 1],
+      i2 = this.indices[tri * 3 + 2];
+    const w0 = 1 - w1 - w2;
+    const u = w0 * uvs[i0 * 2] + w1 * uvs[i1 * 2] + w2 * uvs[i2 * 2];
+    const v =
+      w0 * uvs[i0 * 2 + 1] + w1 * uvs[i1 * 2 + 1] + w2 * uvs[i2 * 2 + 1];
+    out[0] = Math.min(Math.max(u, 0), 1);
+    out[1] = Math.min(Math.max(v, 0), 1);
+    return true;
+  }
+
+  /** Surface point of triangle `tri` at (u, v), from barycentrics in UV space. */
+  pointAtUV(tri: number, u: number, v: number, out: Float32Array): boolean {
+    const uvs = this.uvs;
+    if (!uvs || tri < 0 || tri >= this.triCount) return false;
+    const a = this.indices[tri * 3],
+      b = this.indices[tri * 3 + 1],
+      c = this.indices[tri * 3 + 2];
+    const e1u = uvs[b * 2] - uvs[a * 2],
+      e1v = uvs[b * 2 + 1] - uvs[a * 2 + 1];
+    const e2u = uvs[c * 2] - uvs[a * 2],
+      e2v = uvs[c * 2 + 1] - uvs[a * 2 + 1];
+    const det = e1u * e2v - e1v * e2u;
+    if (Math.abs(det) < 1e-12) return false;
+    const du = u - uvs[a * 2],
+      dv = v - uvs[a * 2 + 1];
+    const s = (du * e2v - dv * e2u) / det,
+      t = (e1u * dv - e1v * du) / det;
+    const positions = this.positions;
+    for (let k = 0; k < 3; k++) {
+      const p0 = positions[a * 3 + k];
+      out[k] =
+        p0 + s * (positions[b * 3 + k] - p0) + t * (positions[c * 3 + k] - p0);
+    }
+    return true;
+  }
+}
+
+/**
+ * Blends a disc of `color` (0..1, straight alpha) centered at (cx, cy) in
+ * buffer pixels, with a one-pixel antialiased rim, through `blend`
+ * (source-over by default). A negative alpha erases (scales texel alpha
+ * down) instead. `keep(i)` returns the share (0..1) of texel i that the dab
+ * must leave untouched (island clip, mask).
+ */
+export function stampDab(
+  buffer: PixelBuffer,
+  cx: number,
+  cy: number,
+  radius: number,
+  color: ArrayLike<number>,
+  keep?: (i: number) => number,
+  blend: TexelBlend = normalBlend,
+) {
+  const { width, height, data } = buffer;
+  const x0 = Math.max(0, Math.floor(cx - radius - 1)),
+    y0 = Math.max(0, Math.floor(cy - radius - 1));
+  const x1 = Math.min(width, Math.ceil(cx + radius + 1)),
+    y1 = Math.min(height, Math.ceil(cy + radius + 1));
+  const erase = color[3] < 0;
+  const alpha = Math.min(Math.abs(color[3]), 1);
+  const r = color[0] * 255,
+    g = color[1] * 255,
+    b = color[2] * 255;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      const coverage = Math.min(Math.max(radius + 0.5 - d, 0), 1);
+      if (coverage <= 0) continue;
+      const i = y * width + x;
+      const a = alpha * coverage * (keep ? 1 - keep(i) : 1);
+      if (a <= 0) continue;
+      if (erase) data[i * 4 + 3] *= 1 - a;
+      else blend(data, i, r, g, b, a);
+    }
+  }
+}
+
+/**
+ * Mean color (0..1 RGBA) of the texels whose centers lie within `radius` of
+ * (cx, cy), or of the texel containing it when none do. Colors are weighted
+ * by alpha so transparent texels don't darken the result. False when the
+ * point is outside the buffer.
+ */
+export function averageColor(
+  buffer: PixelBuffer,
+  cx: number,
+  cy: number,
+  radius: number,
+  out: Float32Array | number[],
+): boolean {
+  const { width, height, data } = buffer;
+  const r = Math.max(radius, 0);
+  const x0 = Math.max(0, Math.floor(cx - r)),
+    y0 = Math.max(0, Math.floor(cy - r));
+  const x1 = Math.min(width, Math.floor(cx + r) + 1),
+    y1 = Math.min(height, Math.floor(cy + r) + 1);
+  let sr = 0,
+    sg = 0,
+    sb = 0,
+    sa = 0,
+    count = 0;
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const a = data[i + 3];
+    sr += data[i] * a;
+    sg += data[i + 1] * a;
+    sb += data[i + 2] * a;
+    sa += a;
+    count++;
+  };
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (Math.hypot(x + 0.5 - cx, y + 0.5 - cy) <= r) add(x, y);
+    }
+  }
+  if (count === 0) {
+    const x = Math.floor(cx),
+      y = Math.floor(cy);
+    if (x < 0 || y < 0 || x >= width || y >= height) return false;
+    add(x, y);
+  }
+  out[0] = sa > 0 ? sr / sa / 255 : 0;
+  out[1] = sa > 0 ? sg / sa / 255 : 0;
+  out[2] = sa > 0 ? sb / sa / 255 : 0;
+  out[3] = sa / count / 255;
+  return true;
+}
+
+/**
+ * Smudge dab at (cx, cy): deposits the stream's `load` (carried over from its
+ * previous dab) by `strength` x a soft falloff, then picks up the result,
+ * keeping `strength` of the old load. Dabs a texel or two apart therefore
+ * drag color along the stroke; strength 1 never lets go of the first dab's
+ * color. The load follows radius changes. `keep` as in stampDab.
+ */
+export function smudgeDab(
+  buffer: PixelBuffer,
+  cx: number,
+  cy: number,
+  radius: number,
+  load: SmudgeLoad,
+  strength: number,
+  keep?: (i: number) => number,
+) {
+  const { width, height, data } = buffer;
+  const reach = Math.ceil(radius) + 1;
+  const size = reach * 2 + 1;
+  if (load.reach !== reach) {
+    // re-center what is carried in the new square
+    const resized = new Float32Array(size * size * 4).fill(NaN);
+    const old = load.reach * 2 + 1;
+    const n = Math.min(reach, load.reach);
+    for (let dy = -n; dy <= n; dy++) {
+      for (let dx = -n; dx <= n; dx++) {
+        const from = ((dy + load.reach) * old + dx + load.reach) * 4;
+        const to = ((dy + reach) * size + dx + reach) * 4;
+        resized.set(load.data.subarray(from, from + 4), to);
+      }
+    }
+    load.reach = reach;
+    load.data = resized;
+  }
+  const s = Math.min(Math.max(strength, 0), 1);
+  const fx = Math.floor(cx),
+    fy = Math.floor(cy);
+  const carried = load.data;
+  for (let dy = -reach; dy <= reach; dy++) {
+    const y = fy + dy;
+    if (y < 0 || y >= height) continue;
+    for (let dx = -reach; dx <= reach; dx++) {
+      const x = fx + dx;
+      if (x < 0 || x >= width) continue;
+      const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      const falloff = smoothstep(radius + 0.5, 0, d);
+      if (falloff <= 0) continue;
+      const i = (y * width + x) * 4;
+      const l = ((dy + reach) * size + dx + reach) * 4;
+      const a = data[i + 3];
+      let pr = data[i] * a,
+        pg = data[i + 1] * a,
+        pb = data[i + 2] * a,
+        pa = a;
+      if (!Number.isNaN(carried[l + 3])) {
+        const k = s * falloff * (keep ? 1 - keep(i / 4) : 1);
+        if (k > 0) {
+          pr += (carried[l] - pr) * k;
+          pg += (carried[l + 1] - pg) * k;
+          pb += (carried[l + 2] - pb) * k;
+          pa += (carried[l + 3] - pa) * k;
+          if (pa > 0) {
+            data[i] = pr / pa;
+            data[i + 1] = pg / pa;
+            data[i + 2] = pb / pa;
+          }
+          data[i + 3] = pa;
+        }
+        carried[l] += (pr - carried[l]) * (1 - s);
+        carried[l + 1] += (pg - carried[l + 1]) * (1 - s);
+        carried[l + 2] += (pb - carried[l + 2]) * (1 - s);
+        carried[l + 3] += (pa - carried[l + 3]) * (1 - s);
+      } else {
+        carried[l] = pr;
+        carried[l + 1] = pg;
+        carried[l + 2] = pb;
+        carried[l + 3] = pa;
+      }
+    }
+  }
+}
+
+/**
+ * Blur dab: moves each texel within `radius` of (cx, cy) toward the mean of
+ * its (2 * kernel + 1)^2 neighbourhood (premultiplied, so transparent texels
+ * don't darken) by `strength` x a soft falloff. Neighbours are read from the
+ * whole buffer: include `kernel` texels around the dab to blur up to its
+ * rim. `keep` as in stampDab.
+ */
+export function blurDab(
+  buffer: PixelBuffer,
+  cx: number,
+  cy: number,
+  radius: number,
+  kernel: number,
+  strength: number,
+  keep?: (i: number) => number,
+) {
+  const { width, height, data } = buffer;
+  const x0 = Math.max(0, Math.floor(cx - radius - 1)),
+    y0 = Math.max(0, Math.floor(cy - radius - 1));
+  const x1 = Math.min(width, Math.ceil(cx + radius + 1)),
+    y1 = Math.min(height, Math.ceil(cy + radius + 1));
+  if (x1 <= x0 || y1 <= y0) return;
+  const k = Math.max(1, Math.round(kernel));
+  const s = Math.min(Math.max(strength, 0), 1);
+
+  // separable box: horizontal sums of the footprint columns over every row
+  // the vertical pass reads
+  const w = x1 - x0;
+  const ry0 = Math.max(0, y0 - k),
+    ry1 = Math.min(height, y1 + k);
+  const rows = new Float32Array((ry1 - ry0) * w * 4);
+  for (let y = ry0; y < ry1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const o = ((y - ry0) * w + x - x0) * 4;
+      const sx1 = Math.min(width, x + k + 1);
+      for (let sx = Math.max(0, x - k); sx < sx1; sx++) {
+        const i = (y * width + sx) * 4;
+        const a = data[i + 3];
+        rows[o] += data[i] * a;
+        rows[o + 1] += data[i + 1] * a;
+        rows[o + 2] += data[i + 2] * a;
+        rows[o + 3] += a;
+      }
+    }
+  }
+
+  const mean = [0, 0, 0, 0];
+  for (let y = y0; y < y1; y++) {
+    const sy0 = Math.max(ry0, y - k),
+      sy1 = Math.min(ry1, y + k + 1);
+    for (let x = x0; x < x1; x++) {
+      const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      const i = y * width + x;
+      const t = s * smoothstep(radius + 0.5, 0, d) * (keep ? 1 - keep(i) : 1);
+      if (t <= 0) continue;
+      const count =
+        (sy1 - sy0) * (Math.min(width, x + k + 1) - Math.max(0, x - k));
+      mean.fill(0);
+      for (let sy = sy0; sy < sy1; sy++) {
+        const o = ((sy - ry0) * w + x - x0) * 4;
+        for (let c = 0; c < 4; c++) mean[c] += rows[o + c];
+      }
+      const a = data[i * 4 + 3];
+      const pa = a + (mean[3] / count - a) * t;
+      if (pa > 0) {
+        for (let c = 0; c < 3; c++) {
+          const p = data[i * 4 + c] * a;
+          data[i * 4 + c] = (p + (mean[c] / count - p) * t) / pa;
+        }
+      }
+      data[i * 4 + 3] = pa;
+    }
+  }
+}
+
+/**
+ * Copies the nearest island texel into every gutter texel of
+ * [x0, x1) x [y0, y1) (canvas coordinates). `source` maps each canvas texel
+ * to the texel it copies (-1: not gutter); `buffer` holds the canvas region
+ * starting at (originX, originY) and must include all those sources.
+ * Returns whether anything was written.
+ */
+export function dilateGutter(
+  buffer: PixelBuffer,
+  originX: number,
+  originY: number,
+  source: Int32Array,
+  canvasWidth: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): boolean {
+  const data = buffer.data;
+  const bw = buffer.width;
+  let changed = false;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const src = source[y * canvasWidth + x];
+      if (src < 0) continue;
+      const sx = src % canvasWidth,
+        sy = (src / canvasWidth) | 0;
+      const di = ((y - originY) * bw + (x - originX)) * 4;
+      const si = ((sy - originY) * bw + (sx - originX)) * 4;
+      data[di] = data[si];
+      data[di + 1] = data[si + 1];
+      data[di + 2] = data[si + 2];
+      data[di + 3] = data[si + 3];
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+// Calls visit(x, y, w0, w1, w2) for every texel whose center lies inside the
+// texel-space triangle grown by `slack` texels; w* are barycentric weights
+// (slightly outside [0, 1] for texels in the slack band).
+export function rasterizeTriangle(
+  px: ArrayLike<number>,
+  py: ArrayLike<number>,
+  W: number,
+  H: number,
+  slack: number,
+  visit: (x: number, y: number, w0: number, w1: number, w2: number) => void,
+) {
+  const area =
+    (px[1] - px[0]) * (py[2] - py[0]) - (px[2] - px[0]) * (py[1] - py[0]);
+  if (Math.abs(area) < 1e-12) return;
+  const sign = area > 0 ? 1 : -1;
+  const invArea = 1 / area;
+
+  // edge k runs from corner k to k + 1 and is opposite corner k + 2
+  const len0 = Math.hypot(px[1] - px[0], py[1] - py[0]) || 1;
+  const len1 = Math.hypot(px[2] - px[1], py[2] - py[1]) || 1;
+  const len2 = Math.hypot(px[0] - px[2], py[0] - py[2]) || 1;
+
+  const pad = Math.ceil(slack) + 1;
+  const minX = Math.max(0, Math.floor(Math.min(px[0], px[1], px[2]) - pad));
+  const maxX = Math.min(W - 1, Math.ceil(Math.max(px[0], px[1], px[2]) + pad));
+  const minY = Math.max(0, Math.floor(Math.min(py[0], py[1], py[2]) - pad));
+  const maxY = Math.min(H - 1, Math.ceil(Math.max(py[0], py[1], py[2]) + pad));
+
+  for (let y = minY; y <= maxY; y++) {
+    const cy = y + 0.5;
+    for (let x = minX; x <= maxX; x++) {
+      const cx = x + 0.5;
+      const e0 =
+        (px[1] - px[0]) * (cy - py[0]) - (py[1] - py[0]) * (cx - px[0]);
+      const e1 =
+        (px[2] - px[1]) * (cy - py[1]) - (py[2] - py[1]) * (cx - px[1]);
+      const e2 =
+        (px[0] - px[2]) * (cy - py[2]) - (py[0] - py[2]) * (cx - px[2]);
+      if (
+        sign * e0 < -slack * len0 ||
+        sign * e1 < -slack * len1 ||
+        sign * e2 < -slack * len2
+      ) {
+        continue;
+      }
+      visit(x, y, e1 * invArea, e2 * invArea, e0 * invArea);
+    }
+  }
+}
+
+// straight-alpha source-over of a 0..1 color into vertex v of an RGBA array
+export function blendVertex(
+  colors: Float32Array,
+  v: number,
+  color: ArrayLike<number>,
+  a: number,
+) {
+  if (a <= 0) return;
+  const i = v * 4;
+  const da = colors[i + 3];
+  const oa = a + da * (1 - a);
+  const k = (da * (1 - a)) / oa;
+  colors[i] = color[0] * (a / oa) + colors[i] * k;
+  colors[i + 1] = color[1] * (a / oa) + colors[i + 1] * k;
+  colors[i + 2] = color[2] * (a / oa) + colors[i + 2] * k;
+  colors[i + 3] = oa;
+}
+
+// RGBA (alpha 0..255) at a fractional pixel position, clamped to the edges
+export function sampleBilinear(
+  pixels: Uint8ClampedArray,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+  out: Float32Array,
+) {
+  x = Math.min(Math.max(x, 0), w - 1);
+  y = Math.min(Math.max(y, 0), h - 1);
+  const xi = Math.floor(x),
+    yi = Math.floor(y);
+  const fx = x - xi,
+    fy = y - yi;
+  const x2 = Math.min(xi + 1, w - 1),
+    y2 = Math.min(yi + 1, h - 1);
+  const i00 = (yi * w + xi) * 4,
+    i10 = (yi * w + x2) * 4,
+    i01 = (y2 * w + xi) * 4,
+    i11 = (y2 * w + x2) * 4;
+  // color weighted by alpha so transparent texels don't darken the edges
+  const w00 = (1 - fx) * (1 - fy) * pixels[i00 + 3],
+    w10 = fx * (1 - fy) * pixels[i10 + 3],
+    w01 = (1 - fx) * fy * pixels[i01 + 3],
+    w11 = fx * fy * pixels[i11 + 3];
+  const a = w00 + w10 + w01 + w11;
+  for (let k = 0; k < 3; k++) {
+    out[k] =
+      a > 0
+        ? (pixels[i00 + k] * w00 +
+            pixels[i10 + k] * w10 +
+            pixels[i01 + k] * w01 +
+            pixels[i11 + k] * w11) /
+          a
+        : 0;
+  }
+  out[3] = a;
+}
+
+// 0 at edge0, 1 at edge1 (works with edge0 > edge1)
+export function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+}
+
+// source-over of a straight-alpha color onto an RGBA8 texel
+export function blendTexel(
+  data: Uint8ClampedArray,
+  i: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+) {
+  if (a <= 0) return;
+  const da = data[i + 3] / 255;
+  const oa = a + da * (1 - a);
+  const k = (da * (1 - a)) / oa;
+  data[i] = r * (a / oa) + data[i] * k;
+  data[i + 1] = g * (a / oa) + data[i + 1] * k;
+  data[i + 2] = b * (a / oa) + data[i + 2] * k;
+  data[i + 3] = oa * 255;
+}
+
+/**
+ * Source color for multiply / screen (W3C separable blending): B(dst, src)
+ * where the destination is opaque, the plain source where it is transparent.
+ * `one` is full intensity (255 for texels, 1 for vertex colors); other modes
+ * copy `src`.
+ */
+export function blendModeColor(
+  mode: BlendMode,
+  data: ArrayLike<number>,
+  i: number,
+  src: ArrayLike<number>,
+  one: number,
+  out: number[],
+) {
+  const da = data[i + 3] / one;
+  for (let k = 0; k < 3; k++) {
+    const cb = data[i + k],
+      cs = src[k];
+    let mixed = cs;
+    if (mode === 'multiply') mixed = (cb * cs) / one;
+    else if (mode === 'screen') mixed = cb + cs - (cb * cs) / one;
+    out[k] = (1 - da) * cs + da * mixed;
+  }
+}
+
+/**
+ * Moves the RGBA at i toward `base` by `a`, interpolating premultiplied so
+ * erasing toward transparent keeps the remaining color. `one` as in
+ * blendModeColor.
+ */
+export function eraseToward(
+  data: Uint8ClampedArray | Float32Array,
+  i: number,
+  a: number,
+  base: ArrayLike<number>,
+  one: number,
+) {
+  if (a <= 0) return;
+  a = Math.min(a, 1);
+  const da = data[i + 3] / one,
+    ba = base[3] / one;
+  const oa = da + (ba - da) * a;
+  for (let k = 0; k < 3; k++) {
+    const p = data[i + k] * da + (base[k] * ba - data[i + k] * da) * a;
+    data[i + k] = oa > 0 ? p / oa : base[k];
+  }
+  data[i + 3] = oa * one;
+}
+
+/**
+ * Glaze: alpha to apply (source-over) so that the stroke's total coverage
+ * at slot k becomes max(coverage so far, a); `coverage` holds the stroke's
+ * coverage per slot and is updated.
+ */
+export function glazeAlpha(coverage: Float32Array, k: number, a: number) {
+  const prev = coverage[k];
+  if (a <= prev) return 0;
+  coverage[k] = a;
+  return (a - prev) / (1 - prev);
+}
+
+/**
+ * Opacity factor of a wash / drybrush for a cavity value (-1 raised edge,
+ * 0 flat, 1 deep crevice): a wash barely tints flat surfaces and saturates in
+ * crevices, a drybrush is the mirror image. 1 for other modes.
+ */
+export function cavityOpacity(mode: BlendMode, cavity: number) {
+  if (mode === 'wash') return smoothstep(-0.1, 0.6, cavity);
+  if (mode === 'drybrush') return smoothstep(-0.1, 0.6, -cavity);
+  return 1;
+}
+
+/**
+ * Welded id per vertex: the first vertex at the same position, quantized to
+ * `tolerance` (e.g. a millionth of the mesh diagonal), so seams split only
+ * by UVs or normals share one id.
+ */
+export function weldVertices(positions: Float32Array, tolerance: number) {
+  const vertexCount = positions.length / 3;
+  const q = 1 / tolerance;
+  const weld = new Int32Array(vertexCount);
+  const byPos = new Map<string, number>();
+  for (let i = 0; i < vertexCount; i++) {
+    const key = `${Math.round(positions[i * 3] * q)},${Math.round(
+      positions[i * 3 + 1] * q,
+    )},${Math.round(positions[i * 3 + 2] * q)}`;
+    const id = byPos.get(key);
+    if (id === undefined) {
+      byPos.set(key, i);
+      weld[i] = i;
+    } else {
+      weld[i] = id;
+    }
+  }
+  return weld;
+}
+
+/**
+ * Cavity per vertex in -1..1 (positive: concave, negative: convex): the mean
+ * elevation of the vertex's edge neighbours above its tangent plane (area
+ * weighted normal over the welded vertex), spread over `smoothing` rounds of
+ * neighbour averaging so crevices read wider than one edge, AO-like, then
+ * scaled so the 95th percentile reaches ±1 (but by at most 20x, so the noise
+ * of a nearly flat mesh stays small).
+ */
+export function bakeVertexCavity(
+  positions: Float32Array,
+  indices: ArrayLike<number>,
+  weld: Int32Array,
+  smoothing = 2,
+): Float32Array {
+  const vertexCount = positions.length / 3;
+  const normals = new Float32Array(vertexCount * 3);
+  const triCount = (indices.length / 3) | 0;
+  for (let t = 0; t < triCount; t++) {
+    const a = indices[t * 3] * 3,
+      b = indices[t * 3 + 1] * 3,
+      c = indices[t * 3 + 2] * 3;
+    const abx = positions[b] - positions[a],
+      aby = positions[b + 1] - positions[a + 1],
+      abz = positions[b + 2] - positions[a + 2];
+    const acx = positions[c] - positions[a],
+      acy = positions[c + 1] - positions[a + 1],
+      acz = positions[c + 2] - positions[a + 2];
+    // unnormalized cross product = area weighting
+    const nx = aby * acz - abz * acy,
+      ny = abz * acx - abx * acz,
+      nz = abx * acy - aby * acx;
+    for (let k = 0; k < 3; k++) {
+      const w = weld[indices[t * 3 + k]] * 3;
+      normals[w] += nx;
+      normals[w + 1] += ny;
+      normals[w + 2] += nz;
+    }
+  }
+
+  // mean sine of the edge elevation angles around each welded vertex
+  const sum = new Float32Array(vertexCount);
+  const count = new Float32Array(vertexCount);
+  const edges: number[] = [];
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = weld[indices[t * 3 + k]],
+        b = weld[indices[t * 3 + ((k + 1) % 3)]];
+      if (a === b) continue;
+      edges.push(a, b);
+      const dx = positions[b * 3] - positions[a * 3],
+        dy = positions[b * 3 + 1] - positions[a * 3 + 1],
+        dz = positions[b * 3 + 2] - positions[a * 3 + 2];
+      const len = Math.hypot(dx, dy, dz);
+      if (len <= 0) continue;
+      const na = Math.hypot(
+        normals[a * 3],
+        normals[a * 3 + 1],
+        normals[a * 3 + 2],
+      );
+      const nb = Math.hypot(
+        normals[b * 3],
+        normals[b * 3 + 1],
+        normals[b * 3 + 2],
+      );
+      if (na > 0) {
+        sum[a] +=
+          (normals[a * 3] * dx +
+            normals[a * 3 + 1] * dy +
+            normals[a * 3 + 2] * dz) /
+          (na * len);
+        count[a]++;
+      }
+      if (nb > 0) {
+        sum[b] -=
+          (normals[b * 3] * dx +
+            normals[b * 3 + 1] * dy +
+            normals[b * 3 + 2] * dz) /
+          (nb * len);
+        count[b]++;
+      }
+    }
+  }
+  let cavity = new Float32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    cavity[i] = count[i] > 0 ? sum[i] / count[i] : 0;
+  }
+
+  for (let round = 0; round < smoothing; round++) {
+    const next = new Float32Array(vertexCount);
+    const n = new Float32Array(vertexCount);
+    for (let e = 0; e < edges.length; e += 2) {
+      const a = edges[e],
+        b = edges[e + 1];
+      next[a] += cavity[b];
+      n[a]++;
+      next[b] += cavity[a];
+      n[b]++;
+    }
+    for (let i = 0; i < vertexCount; i++) {
+      next[i] = n[i] > 0 ? (cavity[i] + next[i] / n[i]) * 0.5 : cavity[i];
+    }
+    cavity = next;
+  }
+
+  const magnitudes: number[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    if (weld[i] === i && count[i] > 0) magnitudes.push(Math.abs(cavity[i]));
+  }
+  magnitudes.sort((x, y) => x - y);
+  const scale = Math.max(
+    magnitudes[Math.floor(magnitudes.length * 0.95)] ?? 0,
+    0.05,
+  );
+  const out = new Float32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) {
+    out[i] = Math.min(Math.max(cavity[weld[i]] / scale, -1), 1);
+  }
+  return out;
+}
+
+/** Canvas rect [x0, y0, x1, y1) in texels. */
+export type TexelRect = [number, number, number, number];
+
+/** Canvas size and v direction: v = 1 is the top row when flipY is set. */
+export type TexelGrid = { width: number; height: number; flipY: boolean };
+
+/** Mesh UVs on a canvas (paintAtUV's mapping: u along x, v along y). */
+export type UVCanvas = TexelGrid & { uvs: Float32Array; indices: Int32Array };
+
+/** Texel-space corners of a triangle's UVs. */
+export function triangleTexels(
+  layout: UVCanvas,
+  tri: number,
+  px: Float32Array,
+  py: Float32Array,
+) {
+  const { uvs, indices, width, height, flipY } = layout;
+  for (let k = 0; k < 3; k++) {
+    const vi = indices[tri * 3 + k];
+    px[k] = uvs[vi * 2] * width;
+    py[k] = (flipY ? 1 - uvs[vi * 2 + 1] : uvs[vi * 2 + 1]) * height;
+  }
+}
+
+/** Texel rect around the UVs of `tris` (+1 texel margin), or null when empty. */
+export function texelBounds(
+  layout: UVCanvas,
+  tris: ArrayLike<number>,
+): TexelRect | null {
+  const { width: W, height: H } = layout;
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  let x0 = W,
+    y0 = H,
+    x1 = 0,
+    y1 = 0;
+  for (let i = 0; i < tris.length; i++) {
+    triangleTexels(layout, tris[i], px, py);
+    x0 = Math.min(x0, Math.floor(Math.min(px[0], px[1], px[2])) - 1);
+    y0 = Math.min(y0, Math.floor(Math.min(py[0], py[1], py[2])) - 1);
+    x1 = Math.max(x1, Math.ceil(Math.max(px[0], px[1], px[2])) + 2);
+    y1 = Math.max(y1, Math.ceil(Math.max(py[0], py[1], py[2])) + 2);
+  }
+  x0 = Math.max(0, x0);
+  y0 = Math.max(0, y0);
+  x1 = Math.min(W, x1);
+  y1 = Math.min(H, y1);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return [x0, y0, x1, y1];
+}
+
+/**
+ * Texel rect a dab of `radiusPx` at (u, v) can touch, grown by `margin`
+ * texels, and the texel (x, y) holding its center. Null when (u, v) is
+ * outside 0..1 or the rect is empty.
+ */
+export function dabRect(
+  grid: TexelGrid,
+  u: number,
+  v: number,
+  radiusPx: number,
+  margin: number,
+): { x: number; y: number; rect: TexelRect } | null {
+  const { width: W, height: H } = grid;
+  if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+  const x = Math.floor(u * W);
+  const y = Math.floor((grid.flipY ? 1 - v : v) * H);
+  const r = Math.ceil(radiusPx) + 1 + margin;
+  const x0 = Math.max(0, x - r),
+    y0 = Math.max(0, y - r);
+  const x1 = Math.min(W, x + r),
+    y1 = Math.min(H, y + r);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x, y, rect: [x0, y0, x1, y1] };
+}
+
+/** 1 for every texel of `rect` covered by the UVs of `tris` (half a texel of slack). */
+export function triangleCoverage(
+  layout: UVCanvas,
+  tris: ArrayLike<number>,
+  [x0, y0, x1, y1]: TexelRect,
+): Uint8Array {
+  const bw = x1 - x0;
+  const coverage = new Uint8Array(bw * (y1 - y0));
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  for (let i = 0; i < tris.length; i++) {
+    triangleTexels(layout, tris[i], px, py);
+    rasterizeTriangle(px, py, layout.width, layout.height, 0.5, (x, y) => {
+      if (x >= x0 && y >= y0 && x < x1 && y < y1) {
+        coverage[(y - y0) * bw + (x - x0)] = 1;
+      }
+    });
+  }
+  return coverage;
+}
+
+/**
+ * Falloff weight per texel of `rect` whose surface point on `tris` lies
+ * within `radius` of `center`: 1 up to hardness x radius, then smoothly down
+ * to 0 at the radius; -1 for texels outside. Texels on shared edges are
+ * reached by both triangles, the first one wins.
+ */
+export function sphereTexelWeights(
+  layout: UVCanvas,
+  positions: Float32Array,
+  tris: ArrayLike<number>,
+  [x0, y0, x1, y1]: TexelRect,
+  center: ArrayLike<number>,
+  radius: number,
+  hardness: number,
+): Float32Array {
+  const bw = x1 - x0;
+  const weight = new Float32Array(bw * (y1 - y0)).fill(-1);
+  const inner = Math.min(Math.max(hardness, 0), 1) * radius;
+  const p0 = new Float32Array(3),
+    p1 = new Float32Array(3),
+    p2 = new Float32Array(3);
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  for (let i = 0; i < tris.length; i++) {
+    loadTriangle(positions, layout.indices, tris[i], p0, p1, p2);
+    triangleTexels(layout, tris[i], px, py);
+    rasterizeTriangle(
+      px,
+      py,
+      layout.width,
+      layout.height,
+      0.5,
+      (x, y, w0, w1, w2) => {
+        if (x < x0 || y < y0 || x >= x1 || y >= y1) return;
+        const li = (y - y0) * bw + (x - x0);
+        if (weight[li] >= 0) return;
+        // surface point of this texel, weighted by its distance to the center
+        const sx = w0 * p0[0] + w1 * p1[0] + w2 * p2[0] - center[0];
+        const sy = w0 * p0[1] + w1 * p1[1] + w2 * p2[1] - center[1];
+        const sz = w0 * p0[2] + w1 * p1[2] + w2 * p2[2] - center[2];
+        const d = Math.sqrt(sx * sx + sy * sy + sz * sz);
+        if (d >= radius) return;
+        weight[li] = d <= inner ? 1 : smoothstep(radius, inner, d);
+      },
+    );
+  }
+  return weight;
+}
+
+/**
+ * Per-vertex values interpolated across each triangle's UVs to one value
+ * per texel, clamped to -1..1: islands first (half a texel of slack), then
+ * up to `gutterPx` around them where still unset; 0 off the islands.
+ */
+export function texelCavityMap(
+  layout: UVCanvas,
+  cavity: Float32Array,
+  gutterPx: number,
+): Float32Array {
+  const { width: W, height: H, indices } = layout;
+  const map = new Float32Array(W * H).fill(NaN);
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  const triCount = (indices.length / 3) | 0;
+  for (const slack of [0.5, Math.max(1, gutterPx)]) {
+    for (let t = 0; t < triCount; t++) {
+      triangleTexels(layout, t, px, py);
+      const c0 = cavity[indices[t * 3]],
+        c1 = cavity[indices[t * 3 + 1]],
+        c2 = cavity[indices[t * 3 + 2]];
+      rasterizeTriangle(px, py, W, H, slack, (x, y, w0, w1, w2) => {
+        const i = y * W + x;
+        if (slack > 0.5 && !Number.isNaN(map[i])) return;
+        map[i] = Math.min(Math.max(c0 * w0 + c1 * w1 + c2 * w2, -1), 1);
+      });
+    }
+  }
+  for (let i = 0; i < map.length; i++) if (Number.isNaN(map[i])) map[i] = 0;
+  return map;
+}
+
+/**
+ * Planar fallback UVs: each point's x / z within the x / z bounds of
+ * `positions`, clamped to 0..1. `points` defaults to the positions themselves.
+ */
+export function planarUVs(
+  positions: Float32Array,
+  points: ArrayLike<number> = positions,
+): Float32Array {
+  let minX = Infinity,
+    minZ = Infinity,
+    maxX = -Infinity,
+    maxZ = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    minZ = Math.min(minZ, positions[i + 2]);
+    maxX = Math.max(maxX, positions[i]);
+    maxZ = Math.max(maxZ, positions[i + 2]);
+  }
+  const denomX = maxX - minX || 1;
+  const denomZ = maxZ - minZ || 1;
+  const count = Math.floor(points.length / 3);
+  const uvs = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    const u = (points[i * 3] - minX) / denomX;
+    const v = (points[i * 3 + 2] - minZ) / denomZ;
+    uvs[i * 2] = Math.min(Math.max(u, 0), 1);
+    uvs[i * 2 + 1] = Math.min(Math.max(v, 0), 1);
+  }
+  return uvs;
+}
+
+/**
+ * Surface connectivity across UV seams, from welded positions (see
+ * weldVertices). Edge k of triangle t (index t * 3 + k) runs from corner k to
+ * k + 1.
+ */
+export type SeamMap = {
+  /** Welded id per vertex. */
+  weld: Int32Array;
+  /** Per edge, the same edge on the other side of a UV seam, or -1. */
+  opposite: Int32Array;
+  /** Per edge, the triangle across it (seams included), or -1. */
+  neighbor: Int32Array;
+  /** Vertex -> triangles (CSR): vertTris[vertTriStart[v] .. vertTriStart[v + 1]). */
+  vertTriStart: Int32Array;
+  vertTris: Int32Array;
+};
+
+/** Finds the manifold edge pairs of the welded mesh and which of them are UV seams. */
+export function buildSeamMap(
+  uvs: Float32Array,
+  indices: Int32Array,
+  weld: Int32Array,
+): SeamMap {
+  const triCount = indices.length / 3;
+  const vertexCount = weld.length;
+  const opposite = new Int32Array(triCount * 3).fill(-1);
+  const neighbor = new Int32Array(triCount * 3).fill(-1);
+  const firstSide = new Map<number, number>();
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const ia = indices[t * 3 + k],
+        ib = indices[t * 3 + ((k + 1) % 3)];
+      const wa = weld[ia],
+        wb = weld[ib];
+      if (wa === wb) continue;
+      const key = Math.min(wa, wb) * vertexCount + Math.max(wa, wb);
+      const other = firstSide.get(key);
+      if (other === undefined) {
+        firstSide.set(key, t * 3 + k);
+        continue;
+      }
+      // only manifold pairs; extra faces on the same edge are ignored
+      if (other < 0) continue;
+      firstSide.set(key, -1);
+
+      const ot = (other / 3) | 0,
+        ok = other % 3;
+      neighbor[t * 3 + k] = ot;
+      neighbor[other] = t;
+      let oa = indices[ot * 3 + ok],
+        ob = indices[ot * 3 + ((ok + 1) % 3)];
+      if (weld[oa] !== wa) {
+        const tmp = oa;
+        oa = ob;
+        ob = tmp;
+      }
+      if (!sameUV(uvs, ia, oa) || !sameUV(uvs, ib, ob)) {
+        opposite[t * 3 + k] = other;
+        opposite[other] = t * 3 + k;
+      }
+    }
+  }
+
+  const vertTriStart = new Int32Array(vertexCount + 1);
+  for (let i = 0; i < triCount * 3; i++) vertTriStart[indices[i] + 1]++;
+  for (let i = 0; i < vertexCount; i++) {
+    vertTriStart[i + 1] += vertTriStart[i];
+  }
+  const fill = vertTriStart.slice(0, vertexCount);
+  const vertTris = new Int32Array(triCount * 3);
+  for (let i = 0; i < triCount * 3; i++) {
+    vertTris[fill[indices[i]]++] = (i / 3) | 0;
+  }
+  return { weld, opposite, neighbor, vertTriStart, vertTris };
+}
+
+/**
+ * UV islands (triangles connected through shared vertex indices): an id per
+ * triangle, and per texel (-1 empty, -2 shared by overlapping islands).
+ */
+export type UVIslands = { triIsland: Int32Array; texelIsland: Int32Array };
+
+/** Rasterizes with half a texel of slack so edge texels count as covered. */
+export function buildUVIslands(layout: UVCanvas): UVIslands {
+  const { indices, width: W, height: H } = layout;
+  const triCount = indices.length / 3;
+  const vertexCount = layout.uvs.length / 2;
+
+  // union-find over vertices, then one island id per triangle
+  const parent = new Int32Array(vertexCount);
+  for (let i = 0; i < vertexCount; i++) parent[i] = i;
+  const find = (i: number) => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let t = 0; t < triCount; t++) {
+    const r0 = find(indices[t * 3]);
+    parent[find(indices[t * 3 + 1])] = r0;
+    parent[find(indices[t * 3 + 2])] = r0;
+  }
+  const triIsland = new Int32Array(triCount);
+  for (let t = 0; t < triCount; t++) triIsland[t] = find(indices[t * 3]);
+
+  const texelIsland = new Int32Array(W * H).fill(-1);
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  for (let t = 0; t < triCount; t++) {
+    triangleTexels(layout, t, px, py);
+    const island = triIsland[t];
+    rasterizeTriangle(px, py, W, H, 0.5, (x, y) => {
+      const i = y * W + x;
+      const prev = texelIsland[i];
+      if (prev === -1) texelIsland[i] = island;
+      else if (prev !== island) texelIsland[i] = -2;
+    });
+  }
+  return { triIsland, texelIsland };
+}
+
+/**
+ * Gutter texel -> nearest island texel it copies from (see dilateGutter), up
+ * to `gutterPx` rings around the islands; -1 elsewhere, island texels
+ * included (they keep their own paint).
+ */
+export function gutterSources(
+  texelIsland: Int32Array,
+  W: number,
+  H: number,
+  gutterPx: number,
+): Int32Array {
+  // BFS from island borders outwards
+  const source = new Int32Array(W * H).fill(-1);
+  const depth = new Uint8Array(W * H);
+  const queue = new Int32Array(W * H);
+  let head = 0,
+    tail = 0;
+  for (let i = 0; i < W * H; i++) {
+    if (texelIsland[i] === -1) continue;
+    source[i] = i;
+    queue[tail++] = i;
+  }
+  while (head < tail) {
+    const i = queue[head++];
+    if (depth[i] >= gutterPx) continue;
+    const x = i % W,
+      y = (i / W) | 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx,
+          ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= W || ny >= H) continue;
+        const n = ny * W + nx;
+        if (source[n] !== -1) continue;
+        source[n] = source[i];
+        depth[n] = depth[i] + 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+  for (let i = 0; i < W * H; i++) {
+    if (texelIsland[i] !== -1) source[i] = -1;
+  }
+  return source;
+}
+
+/** Where a dab lands: center (u, v), radius in texels, island it is clipped to (-1 none). */
+export type DabFootprint = {
+  u: number;
+  v: number;
+  radiusPx: number;
+  island: number;
+};
+
+/**
+ * A dab at (u, v) on triangle `tri`, clipped to that triangle's island, plus
+ * (with `mirrored`) the equivalent dab on the far side of every seam edge it
+ * reaches in the UV-connected neighbourhood, scaled to the texel density
+ * there.
+ */
+export function seamFootprints(
+  layout: UVCanvas,
+  seams: SeamMap,
+  triIsland: Int32Array,
+  tri: number,
+  u: number,
+  v: number,
+  radiusPx: number,
+  mirrored = true,
+): DabFootprint[] {
+  const out: DabFootprint[] = [{ u, v, radiusPx, island: triIsland[tri] }];
+  if (!mirrored) return out;
+  const { uvs, indices } = layout;
+  const { weld, opposite, vertTriStart: start, vertTris } = seams;
+  const radiusUV = radiusPx / Math.min(layout.width, layout.height);
+
+  // triangles sharing a vertex (same UV island locally) with the hit triangle
+  const ring = new Set<number>();
+  for (let k = 0; k < 3; k++) {
+    const vi = indices[tri * 3 + k];
+    for (let i = start[vi]; i < start[vi + 1]; i++) ring.add(vertTris[i]);
+  }
+
+  for (const t of ring) {
+    for (let k = 0; k < 3; k++) {
+      const opp = opposite[t * 3 + k];
+      if (opp < 0) continue;
+
+      const ia = indices[t * 3 + k],
+        ib = indices[t * 3 + ((k + 1) % 3)],
+        ic = indices[t * 3 + ((k + 2) % 3)];
+      const ax = uvs[ia * 2],
+        ay = uvs[ia * 2 + 1];
+      const ex = uvs[ib * 2] - ax,
+        ey = uvs[ib * 2 + 1] - ay;
+      const len = Math.hypot(ex, ey);
+      if (len < 1e-9) continue;
+
+      // edge frame on this side: along the edge, and normal into this triangle
+      const tx = ex / len,
+        ty = ey / len;
+      let nx = -ty,
+        ny = tx;
+      if ((uvs[ic * 2] - ax) * nx + (uvs[ic * 2 + 1] - ay) * ny < 0) {
+        nx = -nx;
+        ny = -ny;
+      }
+      const along = (u - ax) * tx + (v - ay) * ty;
+      const perp = (u - ax) * nx + (v - ay) * ny;
+      const s = Math.min(Math.max(along, 0), len);
+      const dist = Math.hypot(along - s, perp);
+      if (dist > radiusUV) continue;
+
+      // same edge on the other side, endpoints matched by welded position
+      const ot = (opp / 3) | 0,
+        ok = opp % 3;
+      let oa = indices[ot * 3 + ok],
+        ob = indices[ot * 3 + ((ok + 1) % 3)];
+      const oc = indices[ot * 3 + ((ok + 2) % 3)];
+      if (weld[oa] !== weld[ia]) {
+        const tmp = oa;
+        oa = ob;
+        ob = tmp;
+      }
+      const bx = uvs[oa * 2],
+        by = uvs[oa * 2 + 1];
+      const fx = uvs[ob * 2] - bx,
+        fy = uvs[ob * 2 + 1] - by;
+      const olen = Math.hypot(fx, fy);
+      if (olen < 1e-9) continue;
+      const otx = fx / olen,
+        oty = fy / olen;
+      let onx = -oty,
+        ony = otx;
+      if ((uvs[oc * 2] - bx) * onx + (uvs[oc * 2 + 1] - by) * ony < 0) {
+        onx = -onx;
+        ony = -ony;
+      }
+
+      // inside this triangle == outside the other one, scaled to its texel density
+      const scale = olen / len;
+      out.push({
+        u: bx + along * scale * otx - perp * scale * onx,
+        v: by + along * scale * oty - perp * scale * ony,
+        radiusPx: radiusPx * scale,
+        island: triIsland[ot],
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Triangles connected to `seed` through `neighbor` (see SeamMap), breadth
+ * first. With a `limit`, flooding stops at triangles whose color at their UV
+ * centroid in `composite` (a full canvas) differs from the seed's by more
+ * than `tolerance` (0..1) in any channel.
+ */
+export function floodRegion(
+  neighbor: Int32Array,
+  seed: number,
+  limit?: { layout: UVCanvas; composite: PixelBuffer; tolerance: number },
+): number[] {
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  const colorAt = (t: number, out: number[]) => {
+    const { layout, composite } = limit!;
+    const W = composite.width;
+    triangleTexels(layout, t, px, py);
+    const x = Math.min(
+      W - 1,
+      Math.max(0, Math.floor((px[0] + px[1] + px[2]) / 3)),
+    );
+    const y = Math.min(
+      composite.height - 1,
+      Math.max(0, Math.floor((py[0] + py[1] + py[2]) / 3)),
+    );
+    const i = (y * W + x) * 4;
+    for (let k = 0; k < 4; k++) out[k] = composite.data[i + k];
+  };
+  const seedColor = [0, 0, 0, 0];
+  if (limit) colorAt(seed, seedColor);
+  const maxDiff = limit ? limit.tolerance * 255 : 0;
+
+  const visited = new Uint8Array(neighbor.length / 3);
+  const region = [seed];
+  visited[seed] = 1;
+  const c = [0, 0, 0, 0];
+  for (let q = 0; q < region.length; q++) {
+    const t = region[q];
+    for (let k = 0; k < 3; k++) {
+      const nb = neighbor[t * 3 + k];
+      if (nb < 0 || visited[nb]) continue;
+      visited[nb] = 1;
+      if (limit) {
+        colorAt(nb, c);
+        if (
+          Math.abs(c[0] - seedColor[0]) > maxDiff ||
+          Math.abs(c[1] - seedColor[1]) > maxDiff ||
+          Math.abs(c[2] - seedColor[2]) > maxDiff ||
+          Math.abs(c[3] - seedColor[3]) > maxDiff
+        ) {
+          continue;
+        }
+      }
+      region.push(nb);
+    }
+  }
+  return region;
+}
+
+/**
+ * True when triangles a and b share a vertex: by index (same UV island, no
+ * seam between), or with `ids` (e.g. SeamMap.weld) by id, across UV seams.
+ */
+export function trianglesShareVertex(
+  indices: ArrayLike<number>,
+  a: number,
+  b: number,
+  ids?: Int32Array,
+): boolean {
+  const id = (i: number) => (ids ? ids[indices[i]] : indices[i]);
+  for (let i = 0; i < 3; i++) {
+    const w = id(a * 3 + i);
+    if (w === id(b * 3) || w === id(b * 3 + 1) || w === id(b * 3 + 2)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Linear blend skinning of `bind` (xyz per vertex) into `out`: each vertex
+ * through its joints' column-major 4x4 matrices (16 floats per joint),
+ * weighted and normalized. Unweighted vertices keep their value in `out`.
+ */
+export function skinPositions(
+  bind: Float32Array,
+  out: Float32Array,
+  jointIds: ArrayLike<number>,
+  jointWeights: ArrayLike<number>,
+  jointsPerVertex: number,
+  jointMatrices: Float32Array,
+) {
+  const m = jointMatrices;
+  const n = jointsPerVertex;
+  for (let v = 0; v < bind.length / 3; v++) {
+    const px = bind[v * 3],
+      py = bind[v * 3 + 1],
+      pz = bind[v * 3 + 2];
+    let x = 0,
+      y = 0,
+      z = 0,
+      total = 0;
+    for (let k = v * n; k < v * n + n; k++) {
+      const w = jointWeights[k];
+      if (w === 0) continue;
+      const o = jointIds[k] * 16;
+      x += w * (m[o] * px + m[o + 4] * py + m[o + 8] * pz + m[o + 12]);
+      y += w * (m[o + 1] * px + m[o + 5] * py + m[o + 9] * pz + m[o + 13]);
+      z += w * (m[o + 2] * px + m[o + 6] * py + m[o + 10] * pz + m[o + 14]);
+      total += w;
+    }
+    if (total > 0) {
+      out[v * 3] = x / total;
+      out[v * 3 + 1] = y / total;
+      out[v * 3 + 2] = z / total;
+    }
+  }
+}
+
+// --- decals ---
+
+// relative depth slack so surfaces don't occlude themselves
+const DECAL_DEPTH_BIAS = 0.02;
+
+/** Clip-space (x, y, z, w) of every xyz position through a column-major 4x4 matrix. */
+export function projectPositions(
+  positions: Float32Array,
+  matrix: ArrayLike<number>,
+): Float32Array {
+  const m = matrix;
+  const out = new Float32Array((positions.length / 3) * 4);
+  for (let v = 0; v < positions.length / 3; v++) {
+    const x = positions[v * 3],
+      y = positions[v * 3 + 1],
+      z = positions[v * 3 + 2];
+    for (let k = 0; k < 4; k++) {
+      out[v * 4 + k] = m[k] * x + m[4 + k] * y + m[8 + k] * z + m[12 + k];
+    }
+  }
+  return out;
+}
+
+/**
+ * Projector image of a decal: RGBA8 pixels plus the nearest view depth
+ * (clip w) per pixel, filled by rasterizeDecalDepth (start from Infinity).
+ */
+export type DecalTarget = PixelBuffer & { depth: Float32Array };
+
+// projector-space corners of a triangle; false when a corner is behind the
+// projector (such triangles are skipped: decals are projected from close by)
+function decalCorners(
+  clip: Float32Array,
+  indices: Int32Array,
+  tri: number,
+  target: DecalTarget,
+  sx: Float32Array,
+  sy: Float32Array,
+  invW: Float32Array,
+): boolean {
+  for (let k = 0; k < 3; k++) {
+    const o = indices[tri * 3 + k] * 4;
+    const w = clip[o + 3];
+    if (!(w > 0)) return false;
+    sx[k] = ((clip[o] / w) * 0.5 + 0.5) * target.width;
+    sy[k] = (0.5 - (clip[o + 1] / w) * 0.5) * target.height;
+    invW[k] = 1 / w;
+  }
+  return true;
+}
+
+/** Rasterizes every triangle's nearest view depth into target.depth. */
+export function rasterizeDecalDepth(
+  clip: Float32Array,
+  indices: Int32Array,
+  target: DecalTarget,
+) {
+  const sx = new Float32Array(3),
+    sy = new Float32Array(3),
+    invW = new Float32Array(3);
+  const { depth, width } = target;
+  for (let t = 0; t < indices.length / 3; t++) {
+    if (!decalCorners(clip, indices, t, target, sx, sy, invW)) continue;
+    // 1/w is affine in screen space
+    rasterizeTriangle(sx, sy, width, target.height, 0.5, (x, y, b0, b1, b2) => {
+      const inv = b0 * invW[0] + b1 * invW[1] + b2 * invW[2];
+      if (!(inv > 0)) return;
+      const i = y * width + x;
+      if (1 / inv < depth[i]) depth[i] = 1 / inv;
+    });
+  }
+}
+
+/**
+ * Front-facing triangles overlapping the projector image. Counter-clockwise
+ * fronts turn clockwise in y-down pixels; `mirrored` (negative world scale)
+ * flips the winding.
+ */
+export function decalTriangles(
+  clip: Float32Array,
+  indices: Int32Array,
+  target: DecalTarget,
+  mirrored: boolean,
+): number[] {
+  const { width: iw, height: ih } = target;
+  const sx = new Float32Array(3),
+    sy = new Float32Array(3),
+    invW = new Float32Array(3);
+  const tris: number[] = [];
+  for (let t = 0; t < indices.length / 3; t++) {
+    if (!decalCorners(clip, indices, t, target, sx, sy, invW)) continue;
+    if (Math.max(sx[0], sx[1], sx[2]) < 0 || Math.min(sx[0], sx[1], sx[2]) > iw)
+      continue;
+    if (Math.max(sy[0], sy[1], sy[2]) < 0 || Math.min(sy[0], sy[1], sy[2]) > ih)
+      continue;
+    const area =
+      (sx[1] - sx[0]) * (sy[2] - sy[0]) - (sx[2] - sx[0]) * (sy[1] - sy[0]);
+    if (area < 0 !== mirrored) tris.push(t);
+  }
+  return tris;
+}
+
+/**
+ * Samples the decal image for every texel of `rect` covered by `tris`:
+ * coverage (image alpha, times darkness with `fromLuminance`) as weight,
+ * -1 where the texel is outside the projection or hidden behind the front
+ * surface; and unless `stencil`, the image color (3 bytes per texel).
+ */
+export function sampleDecal(
+  layout: UVCanvas,
+  clip: Float32Array,
+  tris: ArrayLike<number>,
+  [x0, y0, x1, y1]: TexelRect,
+  target: DecalTarget,
+  stencil: boolean,
+  fromLuminance = false,
+): { weight: Float32Array; rgb: Uint8ClampedArray | null } {
+  const { data: pixels, width: iw, height: ih, depth } = target;
+  const indices = layout.indices;
+  const bw = x1 - x0;
+  const weight = new Float32Array(bw * (y1 - y0)).fill(-1);
+  const rgb = stencil ? null : new Uint8ClampedArray(weight.length * 3);
+  const sample = new Float32Array(4);
+  const px = new Float32Array(3),
+    py = new Float32Array(3);
+  for (let i = 0; i < tris.length; i++) {
+    const t = tris[i];
+    const o0 = indices[t * 3] * 4,
+      o1 = indices[t * 3 + 1] * 4,
+      o2 = indices[t * 3 + 2] * 4;
+    triangleTexels(layout, t, px, py);
+    rasterizeTriangle(
+      px,
+      py,
+      layout.width,
+      layout.height,
+      0.5,
+      (x, y, b0, b1, b2) => {
+        if (x < x0 || y < y0 || x >= x1 || y >= y1) return;
+        const li = (y - y0) * bw + (x - x0);
+        if (weight[li] >= 0) return;
+        // positions are affine in UV, so clip coordinates interpolate linearly
+        const cw = b0 * clip[o0 + 3] + b1 * clip[o1 + 3] + b2 * clip[o2 + 3];
+        if (!(cw > 0)) return;
+        const nx = (b0 * clip[o0] + b1 * clip[o1] + b2 * clip[o2]) / cw;
+        const ny =
+          (b0 * clip[o0 + 1] + b1 * clip[o1 + 1] + b2 * clip[o2 + 1]) / cw;
+        if (nx < -1 || nx > 1 || ny < -1 || ny > 1) return;
+        const ix = (nx * 0.5 + 0.5) * iw,
+          iy = (0.5 - ny * 0.5) * ih;
+        const d =
+          depth[Math.min(ih - 1, iy | 0) * iw + Math.min(iw - 1, ix | 0)];
+        if (cw > d * (1 + DECAL_DEPTH_BIAS)) return;
+
+        sampleBilinear(pixels, iw, ih, ix - 0.5, iy - 0.5, sample);
+        let coverage = sample[3] / 255;
+        if (stencil && fromLuminance) {
+          // dark ink paints, white paper doesn't
+          const lum =
+            (0.2126 * sample[0] + 0.7152 * sample[1] + 0.0722 * sample[2]) /
+            255;
+          coverage *= 1 - lum;
+        }
+        weight[li] = coverage;
+        if (rgb) {
+          rgb[li * 3] = sample[0];
+          rgb[li * 3 + 1] = sample[1];
+          rgb[li * 3 + 2] = sample[2];
+        }
+      },
+    );
+  }
+  return { weight, rgb };
+}
+
+// --- blend modes and paint mask ---
+
+/** Color mask texels are stored in (alpha = protection); shown as a tint in mask mode. */
+export const MASK_RGB = [255, 40, 90];
+
+/**
+ * What a blend mode reads besides the paint color; only the mode's own
+ * entry is needed.
+ */
+export type BlendSources = {
+  /** erase: what texels go back to, a constant RGBA (0..255) or a full-canvas buffer. */
+  base?: ArrayLike<number> | PixelBuffer;
+  /** glaze: coverage of the open stroke per canvas texel (see glazeAlpha). */
+  glaze?: Float32Array;
+  /** wash / drybrush: cavity per canvas texel; plain source-over without. */
+  cavity?: Float32Array | null;
+};
+
+/**
+ * `mode` as a TexelBlend for a rect at (x0, y0), `w` texels wide, of a
+ * canvas `canvasWidth` texels wide (sources are indexed by canvas texel).
+ */
+export function rectBlend(
+  mode: BlendMode,
+  sources: BlendSources,
+  canvasWidth: number,
+  x0: number,
+  y0: number,
+  w: number,
+): TexelBlend {
+  // rect texel -> canvas texel
+  const texel = (t: number) =>
+    (y0 + ((t / w) | 0)) * canvasWidth + x0 + (t % w);
+  if (mode === 'erase') {
+    const base = sources.base ?? [0, 0, 0, 0];
+    if (!('data' in base))
+      return (data, t, _r, _g, _b, a) => eraseToward(data, t * 4, a, base, 255);
+    const pixels = base.data;
+    return (data, t, _r, _g, _b, a) => {
+      const i = texel(t) * 4;
+      eraseToward(data, t * 4, a, pixels.subarray(i, i + 4), 255);
+    };
+  }
+  if (mode === 'glaze') {
+    const coverage = sources.glaze!;
+    return (data, t, r, g, b, a) =>
+      blendTexel(data, t * 4, r, g, b, glazeAlpha(coverage, texel(t), a));
+  }
+  if (mode === 'wash' || mode === 'drybrush') {
+    const cavity = sources.cavity;
+    if (cavity) {
+      return (data, t, r, g, b, a) =>
+        blendTexel(
+          data,
+          t * 4,
+          r,
+          g,
+          b,
+          a * cavityOpacity(mode, cavity[texel(t)]),
+        );
+    }
+  }
+  if (mode === 'multiply' || mode === 'screen') {
+    const src = [0, 0, 0],
+      mixed = [0, 0, 0];
+    return (data, t, r, g, b, a) => {
+      src[0] = r;
+      src[1] = g;
+      src[2] = b;
+      blendModeColor(mode, data, t * 4, src, 255, mixed);
+      blendTexel(data, t * 4, mixed[0], mixed[1], mixed[2], a);
+    };
+  }
+  return normalBlend;
+}
+
+/**
+ * `mode` write of a 0..1 color at coverage `a` into vertex v of `colors`
+ * (RGBA per vertex). Sources are per vertex; erase restores `base`.
+ */
+export function blendVertexMode(
+  mode: BlendMode,
+  colors: Float32Array,
+  v: number,
+  color: ArrayLike<number>,
+  a: number,
+  sources: {
+    base: Float32Array;
+    glaze?: Float32Array;
+    cavity?: Float32Array | null;
+  },
+) {
+  if (mode === 'erase') {
+    const base = sources.base;
+    eraseToward(colors, v * 4, a, base.subarray(v * 4, v * 4 + 4), 1);
+    return;
+  }
+  if (mode === 'glaze') {
+    a = glazeAlpha(sources.glaze!, v, a);
+  } else if (mode === 'wash' || mode === 'drybrush') {
+    if (sources.cavity) a *= cavityOpacity(mode, sources.cavity[v]);
+  } else if (mode === 'multiply' || mode === 'screen') {
+    const mixed = [0, 0, 0];
+    blendModeColor(mode, colors, v * 4, color, 1, mixed);
+    color = mixed;
+  }
+  blendVertex(colors, v, color, a);
+}
+
+/**
+ * Per-texel writer into `data` (a rect of a layer): blends the 0..1 color
+ * through `blend`, scaled down by the protection of the same rect of the
+ * mask (null = nothing protected).
+ */
+export function texelWriter(
+  data: Uint8ClampedArray,
+  color: ArrayLike<number>,
+  blend: TexelBlend,
+  mask: Uint8ClampedArray | null,
+): (i: number, alpha: number) => void {
+  const r = color[0] * 255,
+    g = color[1] * 255,
+    b = color[2] * 255;
+  if (!mask) return (i, alpha) => blend(data, i, r, g, b, alpha);
+  return (i, alpha) =>
+    blend(data, i, r, g, b, alpha * (1 - mask[i * 4 + 3] / 255));
+}
+
+/** Per-texel writer into mask pixels: adds protection, or with `erase` removes it. */
+export function maskWriter(
+  data: Uint8ClampedArray,
+  erase: boolean,
+): (i: number, alpha: number) => void {
+  return (i, alpha) => {
+    const a = Math.min(Math.abs(alpha), 1);
+    if (erase) data[i * 4 + 3] *= 1 - a;
+    else blendTexel(data, i * 4, MASK_RGB[0], MASK_RGB[1], MASK_RGB[2], a);
+  };
+}
+
+/** Protects what was free and frees what was protected. */
+export function invertMaskPixels(data: Uint8ClampedArray) {
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = MASK_RGB[0];
+    data[i + 1] = MASK_RGB[1];
+    data[i + 2] = MASK_RGB[2];
+    data[i + 3] = 255 - data[i + 3];
+  }
+}
+
+/** True when some texel of the mask pixels is protected. */
+export function anyProtected(mask: Uint8ClampedArray) {
+  for (let i = 3; i < mask.length; i += 4) if (mask[i] > 0) return true;
+  return false;
+}
+
+/**
+ * Protection (0..1) of each vertex for vertex-color painting: the mask texel
+ * under its UV (row 0 is v = 1 when `flipY` is set).
+ */
+export function vertexProtection(
+  mask: PixelBuffer,
+  uvs: ArrayLike<number>,
+  flipY: boolean,
+): Float32Array {
+  const { width: W, height: H, data } = mask;
+  const out = new Float32Array(uvs.length / 2);
+  for (let v = 0; v < out.length; v++) {
+    const u = Math.min(Math.max(uvs[v * 2], 0), 1),
+      t = Math.min(Math.max(uvs[v * 2 + 1], 0), 1);
+    const x = Math.min(W - 1, Math.floor(u * W));
+    const y = Math.min(H - 1, Math.floor((flipY ? 1 - t : t) * H));
+    out[v] = data[(y * W + x) * 4 + 3] / 255;
+  }
+  return out;
+}
+
+/**
+ * `keep` for stampDab and the filters on a rect at (x0, y0), `w` texels
+ * wide: texels of other islands than `island` stay untouched, masked
+ * texels keep their protected share. Undefined when nothing is clipped.
+ */
+export function clipKeep(
+  texelIsland: Int32Array | null,
+  island: number,
+  canvasWidth: number,
+  x0: number,
+  y0: number,
+  w: number,
+  mask: Uint8ClampedArray | null,
+): ((i: number) => number) | undefined {
+  if (island < 0) texelIsland = null;
+  if (!texelIsland && !mask) return undefined;
+  return (i) => {
+    if (texelIsland) {
+      const id = texelIsland[(y0 + ((i / w) | 0)) * canvasWidth + x0 + (i % w)];
+      if (id >= 0 && id !== island) return 1;
+    }
+    return mask ? mask[i * 4 + 3] / 255 : 0;
+  };
+}
+
+/**
+ * Source-over of the texels with a weight > 0 (per texel, 0..1) in their
+ * own color (`rgb`, 3 bytes per texel) at `alpha` x weight, less the mask's
+ * protection.
+ */
+export function blendWeightedRGB(
+  data: Uint8ClampedArray,
+  weight: Float32Array,
+  rgb: Uint8ClampedArray,
+  alpha: number,
+  mask: Uint8ClampedArray | null,
+) {
+  for (let i = 0; i < weight.length; i++) {
+    if (!(weight[i] > 0)) continue;
+    const keep = mask ? 1 - mask[i * 4 + 3] / 255 : 1;
+    blendTexel(
+      data,
+      i * 4,
+      rgb[i * 3],
+      rgb[i * 3 + 1],
+      rgb[i * 3 + 2],
+      alpha * weight[i] * keep,
+    );
+  }
+}
+
+// --- layers and channels ---
+
+export type PaintChannel = 'roughness' | 'metallic' | 'height';
+
+/**
+ * What paint calls write: the color layer (unless `color` is false) and,
+ * for each scalar PBR channel given, that 0..1 value.
+ */
+export type ChannelValues = { color?: boolean } & Partial<
+  Record<PaintChannel, number>
+>;
+
+export const SCALAR_CHANNELS: PaintChannel[] = [
+  'roughness',
+  'metallic',
+  'height',
+];
+
+/** A layer's pixels for compositeLayers, the same size as the output. */
+export type CompositeLayer = { buffer: PixelBuffer; opacity: number };
+
+/** Source-over of the layers, bottom first, into `out` (cleared first). */
+export function compositeLayers(out: PixelBuffer, layers: CompositeLayer[]) {
+  const d = out.data;
+  d.fill(0);
+  for (const { buffer, opacity } of layers) {
+    if (opacity <= 0) continue;
+    const s = buffer.data;
+    for (let i = 0; i < d.length; i += 4) {
+      const sa = (s[i + 3] / 255) * opacity;
+      if (sa <= 0) continue;
+      const da = d[i + 3] / 255;
+      const oa = sa + da * (1 - sa);
+      const dw = (da * (1 - sa)) / oa,
+        sw = sa / oa;
+      d[i] = s[i] * sw + d[i] * dw;
+      d[i + 1] = s[i + 1] * sw + d[i + 1] * dw;
+      d[i + 2] = s[i + 2] * sw + d[i + 2] * dw;
+      d[i + 3] = oa * 255;
+    }
+  }
+}
+
+/** glTF metallicRoughness layout: G = roughness, B = metallic (R and A opaque). */
+export function packRoughnessMetallic(
+  roughness: PixelBuffer,
+  metallic: PixelBuffer,
+  out: PixelBuffer,
+) {
+  const rough = roughness.data,
+    metal = metallic.data,
+    d = out.data;
+  for (let i = 0; i < d.length; i += 4) {
+    d[i] = 255;
+    d[i + 1] = rough[i];
+    d[i + 2] = metal[i];
+    d[i + 3] = 255;
+  }
+}
+
+/**
+ * Tangent-space normals (+Y = +v) from central differences of a height map
+ * (red channel), for the texels of `out`, which sits at (ox, oy) in
+ * `height`; differences clamp at the height buffer's border. `vSign` is -1
+ * when rows run along v, 1 when against it.
+ */
+export function heightToNormals(
+  height: PixelBuffer,
+  out: PixelBuffer,
+  ox: number,
+  oy: number,
+  strength: number,
+  vSign: number,
+) {
+  const { width: hw, height: hh, data: h } = height;
+  const at = (x: number, y: number) => {
+    x = Math.min(hw - 1, Math.max(0, x));
+    y = Math.min(hh - 1, Math.max(0, y));
+    return h[(y * hw + x) * 4] / 255;
+  };
+  const d = out.data;
+  for (let y = 0; y < out.height; y++) {
+    for (let x = 0; x < out.width; x++) {
+      const hx = x + ox,
+        hy = y + oy;
+      const dx = (at(hx + 1, hy) - at(hx - 1, hy)) * 0.5;
+      const dy = (at(hx, hy + 1) - at(hx, hy - 1)) * 0.5;
+      let nx = -dx * strength,
+        ny = dy * strength * vSign;
+      const len = Math.hypot(nx, ny, 1);
+      nx /= len;
+      ny /= len;
+      const i = (y * out.width + x) * 4;
+      d[i] = (nx * 0.5 + 0.5) * 255;
+      d[i + 1] = (ny * 0.5 + 0.5) * 255;
+      d[i + 2] = (0.5 / len + 0.5) * 255;
+      d[i + 3] = 255;
+    }
+  }
+}
+
+export function sameUV(uvs: Float32Array, a: number, b: number) {
+  return (
+    Math.abs(uvs[a * 2] - uvs[b * 2]) < 1e-6 &&
+    Math.abs(uvs[a * 2 + 1] - uvs[b * 2 + 1]) < 1e-6
+  );
+}
+
+// Closest point on triangle (Ericson, Real-Time Collision Detection 5.1.5).
+// Writes xyz + barycentric weights of p1/p2 into out, returns squared distance.
+export function closestPointOnTriangle(
+  p: ArrayLike<number>,
+  a: Float32Array,
+  b: Float32Array,
+  c: Float32Array,
+  out: Float32Array,
+): number {
+  const abx = b[0] - a[0],
+    aby = b[1] - a[1],
+    abz = b[2] - a[2];
+  const acx = c[0] - a[0],
+    acy = c[1] - a[1],
+    acz = c[2] - a[2];
+  const apx = p[0] - a[0],
+    apy = p[1] - a[1],
+    apz = p[2] - a[2];
+
+  let v = 0,
+    w = 0;
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  if (d1 <= 0 && d2 <= 0) {
+    // vertex a
+  } else {
+    const bpx = p[0] - b[0],
+      bpy = p[1] - b[1],
+      bpz = p[2] - b[2];
+    const d3 = abx * bpx + aby * bpy + abz * bpz;
+    const d4 = acx * bpx + acy * bpy + acz * bpz;
+    const cpx = p[0] - c[0],
+      cpy = p[1] - c[1],
+      cpz = p[2] - c[2];
+    const d5 = abx * cpx + aby * cpy + abz * cpz;
+    const d6 = acx * cpx + acy * cpy + acz * cpz;
+    const vc = d1 * d4 - d3 * d2;
+    const vb = d5 * d2 - d1 * d6;
+    const va = d3 * d6 - d5 * d4;
+
+    if (d3 >= 0 && d4 <= d3) {
+      v = 1; // vertex b
+    } else if (d6 >= 0 && d5 <= d6) {
+      w = 1; // vertex c
+    } else if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+      v = d1 / (d1 - d3); // edge ab
+    } else if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+      w = d2 / (d2 - d6); // edge ac
+    } else if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+      w = (d4 - d3) / (d4 - d3 + (d5 - d6)); // edge bc
+      v = 1 - w;
+    } else {
+      const denom = 1 / (va + vb + vc);
+      v = vb * denom;
+      w = vc * denom;
+    }
+  }
+
+  out[0] = a[0] + abx * v + acx * w;
+  out[1] = a[1] + aby * v + acy * w;
+  out[2] = a[2] + abz * v + acz * w;
+  out[3] = v;
+  out[4] = w;
+  const dx = p[0] - out[0],
+    dy = p[1] - out[1],
+    dz = p[2] - out[2];
+  return dx * dx + dy * dy + dz * dz;
+}
+
+export function loadTriangle(
+  positions: Float32Array,
+  triIndices: Int32Array,
+  tri: number,
+  p0: Float32Array,
+  p1: Float32Array,
+  p2: Float32Array,
+) {
+  const vi0 = triIndices[tri * 3 + 0],
+    vi1 = triIndices[tri * 3 + 1],
+    vi2 = triIndices[tri * 3 + 2];
+  p0[0] = positions[vi0 * 3 + 0];
+  p0[1] = positions[vi0 * 3 + 1];
+  p0[2] = positions[vi0 * 3 + 2];
+  p1[0] = positions[vi1 * 3 + 0];
+  p1[1] = positions[vi1 * 3 + 1];
+  p1[2] = positions[vi1 * 3 + 2];
+  p2[0] = positions[vi2 * 3 + 0];
+  p2[1] = positions[vi2 * 3 + 1];
+  p2[2] = positions[vi2 * 3 + 2];
+}
+
+/* Möller-Trumbore (unchanged) */
+export function rayTriangleIntersectMollerTrumbore(
+  orig: Float32Array,
+  dir: Float32Array,
+  p0: Float32Array,
+  p1: Float32Array,
+  p2: Float32Array,
+) {
+  const EPS = 1e-8;
+  const edge1x = p1[0] - p0[0],
+    edge1y = p1[1] - p0[1],
+    edge1z = p1[2] - p0[2];
+  const edge2x = p2[0] - p0[0],
+    edge2y = p2[1] - p0[1],
+    edge2z = p2[2] - p0[2];
+
+  const px = dir[1] * edge2z - dir[2] * edge2y;
+  const py = dir[2] * edge2x - dir[0] * edge2z;
+  const pz = dir[0] * edge2y - dir[1] * edge2x;
+
+  const det = edge1x * px + edge1y * py + edge1z * pz;
+  if (det > -EPS && det < EPS) return null;
+  const invDet = 1 / det;
+
+  const tx = orig[0] - p0[0],
+    ty = orig[1] - p0[1],
+    tz = orig[2] - p0[2];
+  const u = (tx * px + ty * py + tz * pz) * invDet;
+  if (u < 0 || u > 1) return null;
+
+  const qx = ty * edge1z - tz * edge1y;
+  const qy = tz * edge1x - tx * edge1z;
+  const qz = tx * edge1y - ty * edge1x;
+
+  const v = (dir[0] * qx + dir[1] * qy + dir[2] * qz) * invDet;
+  if (v < 0 || u + v > 1) return null;
+
+  const t = (edge2x * qx + edge2y * qy + edge2z * qz) * invDet;
+  if (t <= EPS) return null;
+  return { t, u, v };
+}
@@ -0,0 +1,262 @@
+// PaintHistory.ts
+/**
+ * PaintHistory - stroke-based undo/redo for canvas painting.
+ *
+ * A stroke groups every modification made between `beginStroke()` and
+ * `endStroke()`. Before pixels are touched, callers report the rectangle via
+ * `capture(ctx, x, y, w, h)`; the first time a tile is touched within a stroke
+ * its current content is snapshotted. Undo swaps the snapshots back in (saving
+ * the replaced pixels for redo).
+ *
+ * Snapshots are keyed by the 2D context they came from, so one history can
+ * cover several canvases. Vertex-color arrays are captured the same way, in
+ * blocks of `blockSize` vertices (`captureVertices`). Structural changes
+ * (removing a layer) are undo steps of their own, reverted through callbacks
+ * (`pushAction`). Oldest strokes are dropped once `budgetBytes` is exceeded.
+ */
+
+/** What a stroke can modify: a canvas context or an RGBA vertex-color array. */
+export type HistoryTarget = CanvasRenderingContext2D | Float32Array;
+
+/** Structural change undone / redone by its owner, e.g. a layer removal. */
+export type HistoryAction = {
+  undo(): void;
+  redo(): void;
+};
+
+type TileSnapshot = {
+  ctx: CanvasRenderingContext2D;
+  x: number;
+  y: number;
+  pixels: ImageData;
+};
+
+type VertexBlock = {
+  colors: Float32Array;
+  // first float of the block (vertex index * 4)
+  start: number;
+  values: Float32Array;
+};
+
+type Stroke = {
+  tiles: TileSnapshot[];
+  blocks: VertexBlock[];
+  actions: HistoryAction[];
+  bytes: number;
+};
+
+export class PaintHistory {
+  tileSize: number;
+  blockSize = 256;
+  budgetBytes: number;
+
+  /** Incremented by every beginStroke() that opens a stroke. */
+  strokeId = 0;
+
+  private _undo: Stroke[] = [];
+  private _redo: Stroke[] = [];
+  private _bytes = 0;
+
+  // stroke in progress + which tiles it already captured (per context)
+  private _open: Stroke | null = null;
+  private _openKeys = new Map<HistoryTarget, Set<number>>();
+
+  constructor(tileSize = 64, budgetBytes = 64 * 1024 * 1024) {
+    this.tileSize = tileSize;
+    this.budgetBytes = budgetBytes;
+  }
+
+  get strokeOpen() {
+    return this._open !== null;
+  }
+
+  get canUndo() {
+    return this._undo.length > 0;
+  }
+
+  get canRedo() {
+    return this._redo.length > 0;
+  }
+
+  beginStroke() {
+    if (this._open) return;
+    this._open = { tiles: [], blocks: [], actions: [], bytes: 0 };
+    this.strokeId++;
+    this._openKeys.clear();
+  }
+
+  endStroke() {
+    const stroke = this._open;
+    this._open = null;
+    this._openKeys.clear();
+    if (!stroke || (stroke.tiles.length === 0 && stroke.blocks.length === 0))
+      return;
+
+    this._undo.push(stroke);
+    this._bytes += stroke.bytes;
+    this._clearRedo();
+    this._enforceBudget();
+  }
+
+  /**
+   * Records an already applied action as its own undo step (closing an open
+   * stroke first). `bytes` is what the action keeps alive, for the budget.
+   */
+  pushAction(action: HistoryAction, bytes = 0) {
+    if (this._open) this.endStroke();
+    this._undo.push({ tiles: [], blocks: [], actions: [action], bytes });
+    this._bytes += bytes;
+    this._clearRedo();
+    this._enforceBudget();
+  }
+
+  /** Snapshot every not-yet-captured tile overlapping the pixel rect. */
+  capture(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+  ) {
+    const stroke = this._open;
+    if (!stroke) return;
+
+    const size = this.tileSize;
+    const cw = ctx.canvas.width,
+      ch = ctx.canvas.height;
+    const tilesX = Math.ceil(cw / size);
+    const tx0 = Math.max(0, Math.floor(x / size));
+    const ty0 = Math.max(0, Math.floor(y / size));
+    const tx1 = Math.min(tilesX - 1, Math.floor((x + w) / size));
+    const ty1 = Math.min(Math.ceil(ch / size) - 1, Math.floor((y + h) / size));
+
+    const keys = this._keysFor(ctx);
+    for (let ty = ty0; ty <= ty1; ty++) {
+      for (let tx = tx0; tx <= tx1; tx++) {
+        const key = ty * tilesX + tx;
+        if (keys.has(key)) continue;
+        keys.add(key);
+
+        const px = tx * size,
+          py = ty * size;
+        const pixels = ctx.getImageData(
+          px,
+          py,
+          Math.min(size, cw - px),
+          Math.min(size, ch - py),
+        );
+        stroke.tiles.push({ ctx, x: px, y: py, pixels });
+        stroke.bytes += pixels.data.byteLength;
+      }
+    }
+  }
+
+  /** Snapshot every not-yet-captured block of vertices first..first + count - 1. */
+  captureVertices(colors: Float32Array, first: number, count = 1) {
+    const stroke = this._open;
+    if (!stroke) return;
+    const keys = this._keysFor(colors);
+    const size = this.blockSize;
+    const vertexCount = colors.length / 4;
+    const b1 = Math.floor((Math.min(first + count, vertexCount) - 1) / size);
+    for (let b = Math.floor(first / size); b <= b1; b++) {
+      if (keys.has(b)) continue;
+      keys.add(b);
+      const start = b * size * 4;
+      const values = colors.slice(
+        start,
+        Math.min(colors.length, start + size * 4),
+      );
+      if (values.length === 0) continue;
+      stroke.blocks.push({ colors, start, values });
+      stroke.bytes += values.byteLength;
+    }
+  }
+
+  /**
+   * Restores the last stroke. Returns the targets that changed (empty for an
+   * action), or null when there was nothing to undo.
+   */
+  undo(): HistoryTarget[] | null {
+    // an open stroke is committed first so undo always reverts what was just painted
+    if (this._open) this.endStroke();
+    const stroke = this._undo.pop();
+    if (!stroke) return null;
+    this._swap(stroke);
+    for (let i = stroke.actions.length - 1; i >= 0; i--) {
+      stroke.actions[i].undo();
+    }
+    this._redo.push(stroke);
+    return this._contexts(stroke);
+  }
+
+  /** Re-applies the last undone stroke. Same return value as undo(). */
+  redo(): HistoryTarget[] | null {
+    if (this._open) this.endStroke();
+    const stroke = this._redo.pop();
+    if (!stroke) return null;
+    this._swap(stroke);
+    for (const action of stroke.actions) action.redo();
+    this._undo.push(stroke);
+    return this._contexts(stroke);
+  }
+
+  clear() {
+    this._open = null;
+    this._openKeys.clear();
+    this._undo.length = 0;
+    this._redo.length = 0;
+    this._bytes = 0;
+  }
+
+  // exchange stored tiles with the current canvas content (undo <-> redo)
+  private _swap(stroke: Stroke) {
+    // reverse order so overlapping snapshots restore to the oldest state
+    for (let i = stroke.tiles.length - 1; i >= 0; i--) {
+      const tile = stroke.tiles[i];
+      const current = tile.ctx.getImageData(
+        tile.x,
+        tile.y,
+        tile.pixels.width,
+        tile.pixels.height,
+      );
+      tile.ctx.putImageData(tile.pixels, tile.x, tile.y);
+      tile.pixels = current;
+    }
+    for (let i = stroke.blocks.length - 1; i >= 0; i--) {
+      const block = stroke.blocks[i];
+      const end = block.start + block.values.length;
+      const current = block.colors.slice(block.start, end);
+      block.colors.set(block.values, block.start);
+      block.values = current;
+    }
+  }
+
+  private _contexts(stroke: Stroke) {
+    const set = new Set<HistoryTarget>();
+    for (const tile of stroke.tiles) set.add(tile.ctx);
+    for (const block of stroke.blocks) set.add(block.colors);
+    return [...set];
+  }
+
+  private _keysFor(target: HistoryTarget) {
+    let keys = this._openKeys.get(target);
+    if (!keys) {
+      keys = new Set();
+      this._openKeys.set(target, keys);
+    }
+    return keys;
+  }
+
+  private _clearRedo() {
+    for (const stroke of this._redo) this._bytes -= stroke.bytes;
+    this._redo.length = 0;
+  }
+
+  private _enforceBudget() {
+    while (this._bytes > this.budgetBytes && this._undo.length > 1) {
+      const dropped = this._undo.shift()!;
+      this._bytes -= dropped.bytes;
+    }
+  }
+}
@@ -0,0 +1,129 @@
+// PaintLayers.ts
+/**
+ * LayerStack - ordered paint layers (index 0 is the bottom) and the active
+ * one, without engine or DOM: the owner creates the layers (canvases for
+ * MeshPaintable) and re-composites after changes that affect the image.
+ *
+ * Removing a layer is recorded in a PaintHistory as an undo step of its own,
+ * so undo puts the layer back and the strokes painted on it stay undoable.
+ */
+import { PaintHistory } from './PaintHistory.js';
+
+export type PaintLayerInfo = {
+  name: string;
+  visible: boolean;
+  opacity: number;
+  locked: boolean;
+};
+
+export class LayerStack<T extends PaintLayerInfo> {
+  layers: T[] = [];
+  /** Index of the layer paint calls write into. */
+  active = 0;
+
+  get count() {
+    return this.layers.length;
+  }
+
+  get activeLayer(): T | undefined {
+    return this.layers[this.active];
+  }
+
+  info(): PaintLayerInfo[] {
+    return this.layers.map((l) => ({
+      name: l.name,
+      visible: l.visible,
+      opacity: l.opacity,
+      locked: l.locked,
+    }));
+  }
+
+  /** Replaces the whole stack (a reset, restored or resumed painting). */
+  replace(layers: T[], active = 0) {
+    this.layers = layers;
+    this.active = Math.min(Math.max(active, 0), Math.max(layers.length - 1, 0));
+  }
+
+  /** Inserts `layer` (on top by default), makes it active and returns its index. */
+  insert(layer: T, index = this.layers.length) {
+    const at = Math.min(Math.max(index, 0), this.layers.length);
+    this.layers.splice(at, 0, layer);
+    this.active = at;
+    return at;
+  }
+
+  /**
+   * Removes a layer as an undo step of `history`; `bytes` is what the removed
+   * layer keeps alive. `onDetach` runs whenever the layer leaves the stack
+   * (also on redo). The last remaining layer cannot be removed.
+   */
+  remove(
+    index: number,
+    history: PaintHistory,
+    bytes = 0,
+    onDetach?: (layer: T) => void,
+  ): boolean {
+    if (this.layers.length <= 1 || !this.layers[index]) return false;
+    const layer = this.layers[index];
+    const detach = () => {
+      const at = this.layers.indexOf(layer);
+      if (at < 0) return;
+      this.layers.splice(at, 1);
+      onDetach?.(layer);
+      if (this.active >= this.layers.length || this.active > at) {
+        this.active = Math.max(0, this.active - 1);
+      }
+    };
+    const attach = () => {
+      if (this.layers.includes(layer)) return;
+      this.insert(layer, Math.min(index, this.layers.length));
+    };
+    detach();
+    history.pushAction({ undo: attach, redo: detach }, bytes);
+    return true;
+  }
+
+  /** Moves a layer to index `to`; the active layer stays active. */
+  move(from: number, to: number): boolean {
+    const layer = this.layers[from];
+    if (!layer) return false;
+    const target = Math.min(Math.max(to, 0), this.layers.length - 1);
+    const active = this.layers[this.active];
+    this.layers.splice(from, 1);
+    this.layers.splice(target, 0, layer);
+    this.active = this.layers.indexOf(active);
+    return true;
+  }
+
+  setActive(index: number): boolean {
+    if (!this.layers[index]) return false;
+    this.active = index;
+    return true;
+  }
+
+  /** Returns whether the visibility changed. */
+  setVisible(index: number, visible: boolean): boolean {
+    const layer = this.layers[index];
+    if (!layer || layer.visible === visible) return false;
+    layer.visible = visible;
+    return true;
+  }
+
+  /** Clamps to 0..1; returns whether the layer exists. */
+  setOpacity(index: number, opacity: number): boolean {
+    const layer = this.layers[index];
+    if (!layer) return false;
+    layer.opacity = Math.min(Math.max(opacity, 0), 1);
+    return true;
+  }
+
+  setLocked(index: number, locked: boolean) {
+    const layer = this.layers[index];
+    if (layer) layer.locked = locked;
+  }
+
+  setName(index: number, name: string) {
+    const layer = this.layers[index];
+    if (layer) layer.name = name;
+  }
+}
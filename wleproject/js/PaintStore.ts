@@ -0,0 +1,232 @@
+// PaintStore.ts
+/**
+ * PaintStore - IndexedDB persistence for MeshPaintable sessions.
+ *
+ * One record per paintable, keyed by the model URL (`?src=`) plus a mesh
+ * identity string. Layer pixels are stored as PNG blobs so records stay
+ * compact and can be decoded straight into canvases; encodePaintSession /
+ * drawPaintSession convert between a record and the canvases.
+ */
+import { PaintChannel, SCALAR_CHANNELS } from './PaintCore.js';
+import { PaintLayerInfo } from './PaintLayers.js';
+
+const DB_NAME = 'enso-paint';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export type StoredPaintLayer = {
+  name: string;
+  visible: boolean;
+  opacity: number;
+  locked: boolean;
+  image: Blob;
+};
+
+/** Grayscale PBR channel canvases of paintables that have them. */
+export type StoredPaintChannels = {
+  roughness?: Blob;
+  metallic?: Blob;
+  height?: Blob;
+};
+
+export type PaintSessionRecord = {
+  key: string;
+  savedAt: number;
+  width: number;
+  height: number;
+  activeLayer: number;
+  layers: StoredPaintLayer[];
+  // protection mask (alpha); absent when nothing was masked
+  mask?: Blob;
+  channels?: StoredPaintChannels;
+  // paintMode vertex: RGBA per vertex (0..1)
+  vertexColors?: Float32Array;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('paint-store: IndexedDB not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'key' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // allow a later retry if opening failed (e.g. private browsing quota)
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+function run<T>(
+  mode: IDBTransactionMode,
+  op: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return openDB().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = op(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      }),
+  );
+}
+
+/** Model URL from the page query string, as read by CinematicIntro.buildContent. */
+export function currentModelSource() {
+  const params = new URLSearchParams(window.location.search);
+  return params.get('src') || window.location.pathname;
+}
+
+export function paintSessionKey(source: string, meshId: string) {
+  return `${source}#${meshId}`;
+}
+
+export async function loadPaintSession(
+  key: string,
+): Promise<PaintSessionRecord | null> {
+  const record = await run('readonly', (s) => s.get(key));
+  return (record as PaintSessionRecord | undefined) ?? null;
+}
+
+export function savePaintSession(record: PaintSessionRecord) {
+  return run('readwrite', (s) => s.put(record));
+}
+
+export function deletePaintSession(key: string) {
+  return run('readwrite', (s) => s.delete(key));
+}
+
+/** A layer or channel canvas as saved and restored. */
+export type SessionCanvas = {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+};
+
+export type PaintSessionState = {
+  layers: (PaintLayerInfo & SessionCanvas)[];
+  activeLayer: number;
+  // null when nothing is masked
+  mask: HTMLCanvasElement | null;
+  channels: Partial<Record<PaintChannel, SessionCanvas>>;
+  vertexColors?: Float32Array;
+};
+
+/** Encodes the canvases of a paintable as a record (PNG blobs). */
+export async function encodePaintSession(
+  key: string,
+  state: PaintSessionState,
+  width: number,
+  height: number,
+): Promise<PaintSessionRecord> {
+  const layers: StoredPaintLayer[] = [];
+  for (const layer of state.layers) {
+    layers.push({
+      name: layer.name,
+      visible: layer.visible,
+      opacity: layer.opacity,
+      locked: layer.locked,
+      image: await canvasToBlob(layer.canvas),
+    });
+  }
+  const channels: StoredPaintChannels = {};
+  for (const channel of SCALAR_CHANNELS) {
+    const layer = state.channels[channel];
+    if (layer) channels[channel] = await canvasToBlob(layer.canvas);
+  }
+  return {
+    key,
+    savedAt: Date.now(),
+    width,
+    height,
+    activeLayer: state.activeLayer,
+    layers,
+    mask: state.mask ? await canvasToBlob(state.mask) : undefined,
+    channels,
+    vertexColors: state.vertexColors,
+  };
+}
+
+/**
+ * Draws a record back: its layers into canvases from `createLayer`, the mask
+ * into `mask` and the channels the paintable has into `channels` (others are
+ * skipped). Returns the layers and whether the mask is empty, or null when a
+ * layer can't be created. Throws when a stored image doesn't match the record.
+ */
+export async function drawPaintSession<
+  L extends PaintLayerInfo & SessionCanvas,
+>(
+  record: PaintSessionRecord,
+  createLayer: (name: string) => L | null,
+  mask: CanvasRenderingContext2D,
+  channels: Partial<Record<PaintChannel, SessionCanvas>>,
+): Promise<{ layers: L[]; maskEmpty: boolean } | null> {
+  const draw = (ctx: CanvasRenderingContext2D, image: Blob) =>
+    drawStoredImage(ctx, image, record.width, record.height);
+  const layers: L[] = [];
+  for (const stored of record.layers) {
+    const layer = createLayer(stored.name);
+    if (!layer) return null;
+    await draw(layer.ctx, stored.image);
+    layer.visible = stored.visible;
+    layer.opacity = stored.opacity;
+    layer.locked = stored.locked;
+    layers.push(layer);
+  }
+  mask.clearRect(0, 0, mask.canvas.width, mask.canvas.height);
+  if (record.mask) await draw(mask, record.mask);
+  for (const channel of SCALAR_CHANNELS) {
+    const image = record.channels?.[channel];
+    const layer = channels[channel];
+    if (image && layer) await draw(layer.ctx, image);
+  }
+  return { layers, maskEmpty: !record.mask };
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('paint-store: canvas PNG encoding failed'));
+    }, 'image/png');
+  });
+}
+
+export async function canvasToPNG(
+  canvas: HTMLCanvasElement,
+): Promise<Uint8Array> {
+  const blob = await canvasToBlob(canvas);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// stretched to the canvas if textureWidth/Height changed since the save (UV
+// space keeps its layout); an image that isn't the record's size is rejected
+async function drawStoredImage(
+  ctx: CanvasRenderingContext2D,
+  image: Blob,
+  width: number,
+  height: number,
+) {
+  const bitmap = await createImageBitmap(image);
+  try {
+    if (bitmap.width !== width || bitmap.height !== height) {
+      throw new Error(
+        `stored image is ${bitmap.width}x${bitmap.height}, record says ${width}x${height}`,
+      );
+    }
+    ctx.drawImage(bitmap, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  } finally {
+    bitmap.close();
+  }
+}
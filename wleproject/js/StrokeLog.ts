@@ -0,0 +1,201 @@
+// StrokeLog.ts
+/**
+ * StrokeLog - compact, serializable record of the paint calls a
+ * MeshPaintable received, for timelapse replay and bug reproduction.
+ *
+ * Events live in one flat Float32Array as [op, time, ...fields] with a fixed
+ * field count per op, so a long session costs a few dozen bytes per dab.
+ * Times are milliseconds since recording started. `toJSON()` / `fromJSON()`
+ * wrap the stream as base64 together with the canvas size it was recorded on.
+ * StrokeRecorder writes a log, adding Channels / Blend events as they change.
+ */
+import {
+  BLEND_MODES,
+  BlendMode,
+  ChannelValues,
+  SCALAR_CHANNELS,
+} from './PaintCore.js';
+
+export const StrokeOp = {
+  Begin: 0,
+  End: 1,
+  // u, v, triIndex, radiusPx, r, g, b, a, worldX, worldY, worldZ
+  Dab: 2,
+  // localX, localY, localZ, radius, hardness, r, g, b, a, worldX, worldY, worldZ
+  Sphere: 3,
+  // triIndex, tolerance, r, g, b, a
+  Fill: 4,
+  // color (0/1), roughness, metallic, height (NaN = not painted)
+  Channels: 5,
+  // blend mode index (PaintCore BLEND_MODES)
+  Blend: 6,
+  // u, v, triIndex, radiusPx, strength, stream
+  Smudge: 7,
+  // u, v, triIndex, radiusPx, strength
+  Blur: 8,
+} as const;
+
+export type StrokeOpCode = (typeof StrokeOp)[keyof typeof StrokeOp];
+
+const FIELD_COUNT = [0, 0, 11, 12, 6, 4, 1, 6, 5];
+
+export type StrokeEvent = {
+  op: StrokeOpCode;
+  time: number;
+  fields: Float32Array;
+};
+
+export type StrokeLogJSON = {
+  version: 1;
+  width: number;
+  height: number;
+  data: string;
+};
+
+export class StrokeLog {
+  readonly width: number;
+  readonly height: number;
+
+  private _data = new Float32Array(4096);
+  private _length = 0;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get byteLength() {
+    return this._length * 4;
+  }
+
+  /** Time of the last event (ms). */
+  get duration() {
+    let last = 0;
+    for (const e of this.events()) last = e.time;
+    return last;
+  }
+
+  append(op: StrokeOpCode, time: number, fields: ArrayLike<number> = []) {
+    const n = FIELD_COUNT[op];
+    if (this._length + n + 2 > this._data.length) {
+      const grown = new Float32Array(this._data.length * 2 + n + 2);
+      grown.set(this._data.subarray(0, this._length));
+      this._data = grown;
+    }
+    const d = this._data;
+    d[this._length++] = op;
+    d[this._length++] = time;
+    for (let i = 0; i < n; i++) d[this._length++] = fields[i] ?? NaN;
+  }
+
+  /** Decoded events in order; `fields` are views into the stream. */
+  events(): StrokeEvent[] {
+    const out: StrokeEvent[] = [];
+    const d = this._data;
+    let i = 0;
+    while (i < this._length) {
+      const op = d[i] as StrokeOpCode;
+      const n = FIELD_COUNT[op];
+      if (n === undefined) throw new Error(`stroke-log: bad op ${op} at ${i}`);
+      out.push({ op, time: d[i + 1], fields: d.subarray(i + 2, i + 2 + n) });
+      i += n + 2;
+    }
+    return out;
+  }
+
+  toJSON(): StrokeLogJSON {
+    const bytes = new Uint8Array(this._data.buffer, 0, this._length * 4);
+    let binary = '';
+    // chunked so String.fromCharCode doesn't exceed the argument limit
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return {
+      version: 1,
+      width: this.width,
+      height: this.height,
+      data: btoa(binary),
+    };
+  }
+
+  static fromJSON(json: StrokeLogJSON | string): StrokeLog {
+    const parsed: StrokeLogJSON =
+      typeof json === 'string' ? JSON.parse(json) : json;
+    if (parsed.version !== 1) {
+      throw new Error(`stroke-log: unsupported version ${parsed.version}`);
+    }
+    const binary = atob(parsed.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    const log = new StrokeLog(parsed.width, parsed.height);
+    log._data = new Float32Array(bytes.buffer);
+    log._length = log._data.length;
+    // validates the stream
+    log.events();
+    return log;
+  }
+}
+
+/** What a recorded paint call was painted with. */
+export type StrokeState = {
+  channelValues: ChannelValues;
+  blendMode: BlendMode;
+};
+
+/**
+ * Appends events to a log, timed from `start`. Before a paint event the
+ * Channels and Blend events are written whenever they differ from the last
+ * ones recorded, so replay sees the same state.
+ */
+export class StrokeRecorder {
+  readonly log: StrokeLog;
+  private _start: number;
+  // encoded channelValues / blendMode last written
+  private _channels = '';
+  private _blend: BlendMode | null = null;
+
+  constructor(log: StrokeLog, start: number) {
+    this.log = log;
+    this._start = start;
+  }
+
+  record(
+    op: StrokeOpCode,
+    now: number,
+    state: StrokeState,
+    fields?: ArrayLike<number>,
+  ) {
+    const time = now - this._start;
+    if (op !== StrokeOp.Begin && op !== StrokeOp.End) {
+      const channels = encodeChannels(state.channelValues);
+      const key = channels.join(',');
+      if (key !== this._channels) {
+        this._channels = key;
+        this.log.append(StrokeOp.Channels, time, channels);
+      }
+      if (state.blendMode !== this._blend) {
+        this._blend = state.blendMode;
+        this.log.append(StrokeOp.Blend, time, [
+          BLEND_MODES.indexOf(state.blendMode),
+        ]);
+      }
+    }
+    this.log.append(op, time, fields);
+  }
+}
+
+/** StrokeOp.Channels fields: color flag, then each scalar channel or NaN. */
+export function encodeChannels(values: ChannelValues): number[] {
+  return [
+    values.color !== false ? 1 : 0,
+    ...SCALAR_CHANNELS.map((ch) => values[ch] ?? NaN),
+  ];
+}
+
+export function decodeChannels(fields: ArrayLike<number>): ChannelValues {
+  const values: ChannelValues = { color: fields[0] === 1 };
+  SCALAR_CHANNELS.forEach((ch, i) => {
+    if (!Number.isNaN(fields[i + 1])) values[ch] = fields[i + 1];
+  });
+  return values;
+}
@@ -0,0 +1,154 @@
+// StrokeReplay.ts
+/**
+ * StrokeReplay - the timelapse clock behind MeshPaintable.replayStrokeLog.
+ *
+ * Walks a StrokeLog's events against a clock that advances by real time x
+ * `speed`, with pauses longer than `maxGap` shortened to it, and hands every
+ * due event to a callback. applyStrokeEvent turns an event back into the
+ * paint call it recorded. The caller supplies the time (no engine, no DOM).
+ */
+import { BLEND_MODES, BlendMode, ChannelValues } from './PaintCore.js';
+import {
+  StrokeEvent,
+  StrokeLog,
+  StrokeOp,
+  decodeChannels,
+} from './StrokeLog.js';
+
+/** The paint calls and state a recorded event can replay into. */
+export type StrokeTarget = {
+  channelValues: ChannelValues;
+  blendMode: BlendMode;
+  beginStroke(): void;
+  endStroke(): void;
+  paintAtUV(
+    u: number,
+    v: number,
+    radiusPx: number,
+    color: [number, number, number, number],
+    triIndex: number,
+  ): unknown;
+  smudgeAtUV(
+    u: number,
+    v: number,
+    radiusPx: number,
+    strength: number,
+    triIndex: number,
+    stream: number,
+  ): unknown;
+  blurAtUV(
+    u: number,
+    v: number,
+    radiusPx: number,
+    strength: number,
+    triIndex: number,
+  ): unknown;
+  paintInSphere(
+    center: ArrayLike<number>,
+    radius: number,
+    color: [number, number, number, number],
+    hardness: number,
+  ): unknown;
+  fillRegion(
+    triIndex: number,
+    color: [number, number, number, number],
+    tolerance: number,
+  ): unknown;
+};
+
+export class StrokeReplay {
+  readonly events: StrokeEvent[];
+  /** Next event to apply. */
+  index = 0;
+
+  // recording time reached so far (pauses shortened); times in ms
+  private _clock = 0;
+  private _last: number;
+  private _eventClock = 0;
+  // pause time cut out before the next event
+  private _skipped = 0;
+
+  constructor(log: StrokeLog, now: number) {
+    this.events = log.events();
+    this._last = now;
+  }
+
+  get done() {
+    return this.index >= this.events.length;
+  }
+
+  /**
+   * Applies the events due by `now` (all remaining ones with `all`). Stops
+   * early when `apply` returns false.
+   */
+  advance(
+    now: number,
+    speed: number,
+    maxGap: number,
+    apply: (e: StrokeEvent) => boolean,
+    all = false,
+  ) {
+    this._clock += (now - this._last) * Math.max(speed, 0);
+    this._last = now;
+    const events = this.events;
+    while (this.index < events.length) {
+      const e = events[this.index];
+      const gap = e.time - this._skipped - this._eventClock;
+      if (maxGap > 0 && gap > maxGap) this._skipped += gap - maxGap;
+      const at = e.time - this._skipped;
+      if (!all && at > this._clock) break;
+      this._eventClock = at;
+      this.index++;
+      if (!apply(e)) return;
+    }
+  }
+}
+
+/** Repeats the paint call `e` recorded on `target`, dab radii x radiusScale. */
+export function applyStrokeEvent(
+  target: StrokeTarget,
+  e: StrokeEvent,
+  radiusScale = 1,
+) {
+  const f = e.fields;
+  switch (e.op) {
+    case StrokeOp.Begin:
+      target.beginStroke();
+      break;
+    case StrokeOp.End:
+      target.endStroke();
+      break;
+    case StrokeOp.Channels:
+      target.channelValues = decodeChannels(f);
+      break;
+    case StrokeOp.Blend:
+      target.blendMode = BLEND_MODES[f[0]] ?? 'normal';
+      break;
+    case StrokeOp.Dab:
+      target.paintAtUV(
+        f[0],
+        f[1],
+        f[3] * radiusScale,
+        [f[4], f[5], f[6], f[7]],
+        f[2],
+      );
+      break;
+    case StrokeOp.Smudge:
+      target.smudgeAtUV(f[0], f[1], f[3] * radiusScale, f[4], f[2], f[5]);
+      break;
+    case StrokeOp.Blur:
+      target.blurAtUV(f[0], f[1], f[3] * radiusScale, f[4], f[2]);
+      break;
+    case StrokeOp.Sphere:
+      target.paintInSphere(
+        f.subarray(0, 3),
+        f[3],
+        [f[5], f[6], f[7], f[8]],
+        f[4],
+      );
+      break;
+    case StrokeOp.Fill:
+      target.fillRegion(f[0], [f[2], f[3], f[4], f[5]], f[1]);
+      break;
+  }
+}
@@ -1,11 +1,17 @@
 import { Component, Object3D, Property } from '@wonderlandengine/api';
 import { property } from '@wonderlandengine/api/decorators.js';
+import { MeshPaintable } from './MeshPaintable.js';
+import { downloadBinary } from './GLBExport.js';
 
 /**
  * CinematicIntro component — updated:
  * - PC flow: shows inputs for URL and Scale, and generates HMD link with appended params (src and scale).
  * - MR flow: if ?src=... and optionally ?scale=..., preload model and apply scale to the instantiated root (tries several fallbacks).
  * - When user provides inputs in MR UI, the Start Painting button will load the model and apply the provided scale before entering MR.
+ * - Loaded models get a MeshPaintable per mesh primitive (paintLoadedModels).
+ * - If MeshPaintables found a saved paint session, offers "resume / start fresh" (closing the intro or entering MR
+ *   resumes, also sessions found afterwards).
+ * - A corner button (visible once the intro is gone) downloads each loaded model (and any other painted surface) as a .glb.
  */
 export class CinematicIntro extends Component {
   static TypeName = 'cinematic_intro';
@@ -21,11 +27,21 @@ export class CinematicIntro extends Component {
   @property.object(null)
   demoObjects = null;
 
+  // attach a MeshPaintable to every mesh of a loaded model
+  @property.bool(true)
+  paintLoadedModels = true;
+
   _overlay = null;
   _video = null;
   _uiCard = null;
   supportsAR = false;
   supportsVR = false;
+  _sessionFoundListener = null;
+  _downloadBtn = null;
+  // { root, name } of every model loadAvatar instantiated
+  _loadedModels = [];
+  // set once nobody can answer the resume prompt anymore (intro closed / entered MR)
+  _autoResume = false;
 
   start() {
     if (!document.getElementById('we-cinematic-styles')) {
@@ -47,6 +63,7 @@ export class CinematicIntro extends Component {
 .cinematic-btn.ghost{background:transparent;border:1px dashed rgba(255,255,255,0.12);font-weight:700}
 .cinematic-input{width:100%;padding:12px;border-radius:10px;border:none;outline:none;background:rgba(255,255,255,0.03);color:inherit;font-size:14px}
 .cinematic-note{color:rgba(255,255,255,0.82);font-size:13px}
+.cinematic-download{position:fixed;right:16px;bottom:16px;z-index:10000;min-width:0;color:rgba(255,255,255,0.98);font-family:Inter,system-ui,Segoe UI,Roboto,Arial;background:rgba(0,0,0,0.45);backdrop-filter:blur(8px)}
 @media(max-width:760px){.cinematic-uicard{width:calc(100% - 28px);padding:16px}.cinematic-hero-title{font-size:20px}.cinematic-btn{min-width:140px;padding:12px 14px}}
 `;
       document.head.appendChild(style);
@@ -98,6 +115,7 @@ export class CinematicIntro extends Component {
     this._overlay.appendChild(vwrap);
     this._overlay.appendChild(this._uiCard);
     document.body.appendChild(this._overlay);
+    this._buildDownloadButton();
 
     const revealUI = () => {
       try {
@@ -179,6 +197,7 @@ export class CinematicIntro extends Component {
 
   async buildContent(container) {
     container.innerHTML = '';
+    this._buildResumePrompt(container);
     const arBtn = document.getElementById('ar-button');
     if (arBtn) arBtn.classList.add('liquid-glass-btn');
 
@@ -336,6 +355,124 @@ export class CinematicIntro extends Component {
     container.appendChild(dismiss);
   }
 
+  // one prompt for all paintables that found a saved session (including ones found later)
+  _buildResumePrompt(container) {
+    if (this._autoResume) return;
+    const prompt = document.createElement('div');
+    prompt.style.display = 'none';
+    prompt.style.flexDirection = 'column';
+    prompt.style.gap = '10px';
+    const text = document.createElement('div');
+    text.className = 'cinematic-note';
+    prompt.appendChild(text);
+
+    const buttons = document.createElement('div');
+    buttons.style.display = 'flex';
+    buttons.style.gap = '12px';
+    buttons.style.flexWrap = 'wrap';
+    const resumeBtn = document.createElement('button');
+    resumeBtn.className = 'cinematic-btn';
+    resumeBtn.textContent = 'Resume painting';
+    const freshBtn = document.createElement('button');
+    freshBtn.className = 'cinematic-btn ghost';
+    freshBtn.textContent = 'Start fresh';
+    buttons.appendChild(resumeBtn);
+    buttons.appendChild(freshBtn);
+    prompt.appendChild(buttons);
+    container.appendChild(prompt);
+
+    const refresh = () => {
+      const pending = [...MeshPaintable.pendingSessions];
+      if (pending.length === 0) {
+        prompt.style.display = 'none';
+        return;
+      }
+      const last = Math.max(
+        ...pending.map((p) => p.pendingSessionSavedAt || 0),
+      );
+      text.textContent = `Unfinished painting found (${pending.length} surface${
+        pending.length > 1 ? 's' : ''
+      }, last saved ${new Date(last).toLocaleString()}).`;
+      prompt.style.display = 'flex';
+    };
+    resumeBtn.addEventListener('click', () => {
+      this._resolvePaintSessions(true);
+      refresh();
+    });
+    freshBtn.addEventListener('click', () => {
+      this._resolvePaintSessions(false);
+      refresh();
+    });
+
+    if (this._sessionFoundListener)
+      MeshPaintable.onSessionFound.remove(this._sessionFoundListener);
+    this._sessionFoundListener = () => refresh();
+    MeshPaintable.onSessionFound.add(this._sessionFoundListener);
+    refresh();
+  }
+
+  // sits below the intro overlay, so it shows up once the intro is closed
+  _buildDownloadButton() {
+    const btn = document.createElement('button');
+    btn.className = 'cinematic-btn cinematic-download';
+    btn.textContent = 'Download painted model (.glb)';
+    btn.addEventListener('click', async () => {
+      btn.disabled = true;
+      try {
+        const count = await this.downloadPaintedModels();
+        if (count === 0) alert('Nothing painted to download yet.');
+      } catch (e) {
+        console.warn('GLB export failed', e);
+      } finally {
+        btn.disabled = false;
+      }
+    });
+    document.body.appendChild(btn);
+    this._downloadBtn = btn;
+  }
+
+  // one .glb per loaded model (all its painted surfaces with their node
+  // transforms) and per paintable outside them; returns how many files were downloaded
+  async downloadPaintedModels() {
+    let count = 0;
+    const exported = new Set();
+    for (const { root, name } of this._loadedModels) {
+      if (root.isDestroyed) continue;
+      for (const p of MeshPaintable.paintablesBelow(root)) exported.add(p);
+      const glb = await MeshPaintable.exportHierarchyGLB(root, name);
+      if (!glb) continue;
+      downloadBinary(glb, `${name}.glb`);
+      count++;
+    }
+    for (const paintable of [...MeshPaintable.instances]) {
+      if (exported.has(paintable)) continue;
+      const name = paintable.object.name || 'painted';
+      const part = paintable.meshIndex > 0 ? `-${paintable.meshIndex}` : '';
+      if (await paintable.downloadGLB(`${name}${part}.glb`)) count++;
+    }
+    return count;
+  }
+
+  _resolvePaintSessions(resume) {
+    for (const paintable of [...MeshPaintable.pendingSessions]) {
+      if (resume) paintable.resumeSavedSession();
+      else paintable.discardSavedSession();
+    }
+  }
+
+  // without the prompt the saved work is kept: resume what is pending and
+  // every session found later (models still loading)
+  _resumeFromNowOn() {
+    if (!this._autoResume) {
+      this._autoResume = true;
+      if (this._sessionFoundListener)
+        MeshPaintable.onSessionFound.remove(this._sessionFoundListener);
+      this._sessionFoundListener = () => this._resolvePaintSessions(true);
+      MeshPaintable.onSessionFound.add(this._sessionFoundListener);
+    }
+    this._resolvePaintSessions(true);
+  }
+
   _enableDemoObjectsRecursive(obj, enabled) {
     try {
       if (!obj) return;
@@ -350,6 +487,8 @@ export class CinematicIntro extends Component {
   }
 
   async enterMixedReality() {
+    // no choice made before entering MR -> keep the saved work (autosave resumes with it)
+    this._resumeFromNowOn();
     const arBtn = document.getElementById('ar-button');
     if (arBtn) {
       arBtn.click();
@@ -379,10 +518,17 @@ export class CinematicIntro extends Component {
       });
     }
     holder.resetPositionRotation();
+    // saved sessions found once the intro is gone are resumed (_resumeFromNowOn)
+    if (this.paintLoadedModels) MeshPaintable.attachToHierarchy(holder);
+    const file = url.split(/[?#]/)[0].split('/').pop() || '';
+    const name = file.replace(/\.(glb|gltf)$/i, '') || 'painted';
+    this._loadedModels.push({ root: holder, name });
     return holder;
   }
 
   destroyIntro() {
+    // leaving the intro without choosing keeps the saved work
+    this._resumeFromNowOn();
     try {
       if (this._overlay && this._overlay.parentElement)
         this._overlay.parentElement.removeChild(this._overlay);
@@ -390,5 +536,13 @@ export class CinematicIntro extends Component {
   }
   onDestroy() {
     this.destroyIntro();
+    if (this._downloadBtn) {
+      this._downloadBtn.remove();
+      this._downloadBtn = null;
+    }
+    if (this._sessionFoundListener) {
+      MeshPaintable.onSessionFound.remove(this._sessionFoundListener);
+      this._sessionFoundListener = null;
+    }
   }
 }
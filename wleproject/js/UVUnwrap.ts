@@ -0,0 +1,437 @@
+// UVUnwrap.ts
+/**
+ * Automatic UV atlas generation for meshes without texture coordinates.
+ *
+ * Triangles are grown into charts whose normals stay inside a cone (so each
+ * chart projects orthographically onto its average plane without flipping),
+ * every chart is rotated to its minimum-area bounding box, and the boxes are
+ * shelf-packed into the unit square with `paddingPx` texels between them.
+ *
+ * Vertices on chart borders are split: the result references source vertices
+ * through `sourceVertex` so callers can copy the remaining attributes.
+ */
+
+export type UnwrapOptions = {
+  // max angle (degrees) between a triangle and its chart's seed / average normal
+  maxChartAngle?: number;
+  // texels kept free between charts at `textureSize`
+  paddingPx?: number;
+  textureSize?: number;
+};
+
+export type UnwrapResult = {
+  // 2 floats per output vertex, in [0, 1]
+  uvs: Float32Array;
+  // output vertex -> source vertex
+  sourceVertex: Uint32Array;
+  indices: Uint32Array;
+  chartCount: number;
+};
+
+type Chart = {
+  tris: number[];
+  // orthonormal projection basis
+  ax: number[];
+  ay: number[];
+  // packed rect in chart units
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+};
+
+export function unwrapMesh(
+  positions: Float32Array,
+  indices: ArrayLike<number>,
+  options: UnwrapOptions = {},
+): UnwrapResult {
+  // two normals within the cone of the seed are at most 2 * angle apart, so
+  // keeping angle < 45 degrees guarantees every triangle faces the chart plane
+  const angle = Math.min(options.maxChartAngle ?? 40, 44);
+  const cosMax = Math.cos((angle * Math.PI) / 180);
+  const paddingPx = options.paddingPx ?? 4;
+  const textureSize = options.textureSize ?? 1024;
+
+  const triCount = Math.floor(indices.length / 3);
+  const weld = weldPositions(positions);
+  const adjacency = triangleAdjacency(indices, weld, triCount);
+
+  // face normals (unit) and areas
+  const normals = new Float32Array(triCount * 3);
+  const areas = new Float32Array(triCount);
+  for (let t = 0; t < triCount; t++) {
+    const a = indices[t * 3] * 3,
+      b = indices[t * 3 + 1] * 3,
+      c = indices[t * 3 + 2] * 3;
+    const abx = positions[b] - positions[a],
+      aby = positions[b + 1] - positions[a + 1],
+      abz = positions[b + 2] - positions[a + 2];
+    const acx = positions[c] - positions[a],
+      acy = positions[c + 1] - positions[a + 1],
+      acz = positions[c + 2] - positions[a + 2];
+    const nx = aby * acz - abz * acy,
+      ny = abz * acx - abx * acz,
+      nz = abx * acy - aby * acx;
+    const len = Math.hypot(nx, ny, nz);
+    areas[t] = len * 0.5;
+    if (len > 0) {
+      normals[t * 3] = nx / len;
+      normals[t * 3 + 1] = ny / len;
+      normals[t * 3 + 2] = nz / len;
+    }
+  }
+
+  // --- chart segmentation: region growing from the largest free triangle ---
+  const chartOf = new Int32Array(triCount).fill(-1);
+  const order = Array.from({ length: triCount }, (_, i) => i).sort(
+    (a, b) => areas[b] - areas[a],
+  );
+  const charts: Chart[] = [];
+  for (const seed of order) {
+    if (chartOf[seed] >= 0) continue;
+    const id = charts.length;
+    const sn = [
+      normals[seed * 3],
+      normals[seed * 3 + 1],
+      normals[seed * 3 + 2],
+    ];
+    const sum = [sn[0] * areas[seed], sn[1] * areas[seed], sn[2] * areas[seed]];
+    const tris = [seed];
+    chartOf[seed] = id;
+    for (let q = 0; q < tris.length; q++) {
+      const t = tris[q];
+      for (let e = 0; e < 3; e++) {
+        const nb = adjacency[t * 3 + e];
+        if (nb < 0 || chartOf[nb] >= 0) continue;
+        const nx = normals[nb * 3],
+          ny = normals[nb * 3 + 1],
+          nz = normals[nb * 3 + 2];
+        // degenerate triangles have no normal and go with any neighbour
+        if (areas[nb] > 0) {
+          if (nx * sn[0] + ny * sn[1] + nz * sn[2] < cosMax) continue;
+          const len = Math.hypot(sum[0], sum[1], sum[2]) || 1;
+          if ((nx * sum[0] + ny * sum[1] + nz * sum[2]) / len < cosMax) {
+            continue;
+          }
+        }
+        chartOf[nb] = id;
+        tris.push(nb);
+        sum[0] += nx * areas[nb];
+        sum[1] += ny * areas[nb];
+        sum[2] += nz * areas[nb];
+      }
+    }
+    const len = Math.hypot(sum[0], sum[1], sum[2]);
+    const n = len > 0 ? [sum[0] / len, sum[1] / len, sum[2] / len] : sn;
+    if (!(Math.abs(n[0]) + Math.abs(n[1]) + Math.abs(n[2]) > 0)) {
+      n[0] = 0;
+      n[1] = 1;
+      n[2] = 0;
+    }
+    const [ax, ay] = planeBasis(n);
+    charts.push({ tris, ax, ay, width: 0, height: 0, x: 0, y: 0 });
+  }
+
+  // --- output vertices: one per (chart, source vertex) ---
+  const vertexCount = positions.length / 3;
+  const stamp = new Int32Array(vertexCount).fill(-1);
+  const remap = new Uint32Array(vertexCount);
+  const sourceVertex: number[] = [];
+  const local: number[] = [];
+  const outIndices = new Uint32Array(triCount * 3);
+  const chartFirstVertex: number[] = [];
+
+  for (let c = 0; c < charts.length; c++) {
+    const chart = charts[c];
+    chartFirstVertex.push(sourceVertex.length);
+    for (const t of chart.tris) {
+      for (let k = 0; k < 3; k++) {
+        const v = indices[t * 3 + k];
+        if (stamp[v] !== c) {
+          stamp[v] = c;
+          remap[v] = sourceVertex.length;
+          sourceVertex.push(v);
+          const px = positions[v * 3],
+            py = positions[v * 3 + 1],
+            pz = positions[v * 3 + 2];
+          local.push(
+            px * chart.ax[0] + py * chart.ax[1] + pz * chart.ax[2],
+            px * chart.ay[0] + py * chart.ay[1] + pz * chart.ay[2],
+          );
+        }
+        outIndices[t * 3 + k] = remap[v];
+      }
+    }
+  }
+  chartFirstVertex.push(sourceVertex.length);
+
+  // --- rotate each chart to its minimum-area box, origin at (0, 0) ---
+  for (let c = 0; c < charts.length; c++) {
+    const first = chartFirstVertex[c],
+      end = chartFirstVertex[c + 1];
+    const pts = local.slice(first * 2, end * 2);
+    const [cos, sin] = minAreaRotation(pts);
+    let minX = Infinity,
+      minY = Infinity,
+      maxX = -Infinity,
+      maxY = -Infinity;
+    for (let i = first; i < end; i++) {
+      const x = local[i * 2],
+        y = local[i * 2 + 1];
+      const rx = x * cos - y * sin,
+        ry = x * sin + y * cos;
+      local[i * 2] = rx;
+      local[i * 2 + 1] = ry;
+      minX = Math.min(minX, rx);
+      minY = Math.min(minY, ry);
+      maxX = Math.max(maxX, rx);
+      maxY = Math.max(maxY, ry);
+    }
+    // lay charts flat (wider than tall) for shelf packing
+    const swap = maxY - minY > maxX - minX;
+    for (let i = first; i < end; i++) {
+      const x = local[i * 2] - minX,
+        y = local[i * 2 + 1] - minY;
+      local[i * 2] = swap ? y : x;
+      local[i * 2 + 1] = swap ? x : y;
+    }
+    charts[c].width = swap ? maxY - minY : maxX - minX;
+    charts[c].height = swap ? maxX - minX : maxY - minY;
+  }
+
+  // --- packing: padding is in texels, so it depends on the final scale ---
+  let size = packCharts(charts, 0);
+  for (let i = 0; i < 3; i++) {
+    const pad = (paddingPx / textureSize) * size;
+    const next = packCharts(charts, pad);
+    if (Math.abs(next - size) <= size * 1e-3) {
+      size = next;
+      break;
+    }
+    size = next;
+  }
+  const scale = size > 0 ? 1 / size : 1;
+
+  const uvs = new Float32Array(sourceVertex.length * 2);
+  for (let c = 0; c < charts.length; c++) {
+    const chart = charts[c];
+    for (let i = chartFirstVertex[c]; i < chartFirstVertex[c + 1]; i++) {
+      uvs[i * 2] = (chart.x + local[i * 2]) * scale;
+      uvs[i * 2 + 1] = (chart.y + local[i * 2 + 1]) * scale;
+    }
+  }
+
+  return {
+    uvs,
+    sourceVertex: Uint32Array.from(sourceVertex),
+    indices: outIndices,
+    chartCount: charts.length,
+  };
+}
+
+// welded position id per vertex (exact duplicates after quantization share an id)
+function weldPositions(positions: Float32Array): Int32Array {
+  const vertexCount = positions.length / 3;
+  let extent = 0;
+  for (let k = 0; k < 3; k++) {
+    let lo = Infinity,
+      hi = -Infinity;
+    for (let i = k; i < positions.length; i += 3) {
+      lo = Math.min(lo, positions[i]);
+      hi = Math.max(hi, positions[i]);
+    }
+    if (vertexCount > 0) extent = Math.max(extent, hi - lo);
+  }
+  const q = 1 / (extent * 1e-6 || 1e-6);
+  const ids = new Int32Array(vertexCount);
+  const seen = new Map<string, number>();
+  for (let i = 0; i < vertexCount; i++) {
+    const key = `${Math.round(positions[i * 3] * q)},${Math.round(
+      positions[i * 3 + 1] * q,
+    )},${Math.round(positions[i * 3 + 2] * q)}`;
+    let id = seen.get(key);
+    if (id === undefined) {
+      id = seen.size;
+      seen.set(key, id);
+    }
+    ids[i] = id;
+  }
+  return ids;
+}
+
+// neighbour triangle across each edge (tri * 3 + edge), -1 on borders and non-manifold edges
+function triangleAdjacency(
+  indices: ArrayLike<number>,
+  weld: Int32Array,
+  triCount: number,
+): Int32Array {
+  const adjacency = new Int32Array(triCount * 3).fill(-1);
+  const open = new Map<number, number>();
+  const stride = weld.length + 1;
+  for (let t = 0; t < triCount; t++) {
+    for (let e = 0; e < 3; e++) {
+      const a = weld[indices[t * 3 + e]],
+        b = weld[indices[t * 3 + ((e + 1) % 3)]];
+      if (a === b) continue;
+      const key = a < b ? a * stride + b : b * stride + a;
+      const other = open.get(key);
+      if (other === undefined) {
+        open.set(key, t * 3 + e);
+      } else if (other >= 0) {
+        adjacency[t * 3 + e] = Math.floor(other / 3);
+        adjacency[other] = t;
+        // a third triangle on the same edge stays unconnected
+        open.set(key, -1);
+      }
+    }
+  }
+  return adjacency;
+}
+
+function planeBasis(n: number[]): [number[], number[]] {
+  const ref = Math.abs(n[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+  const ax = [
+    ref[1] * n[2] - ref[2] * n[1],
+    ref[2] * n[0] - ref[0] * n[2],
+    ref[0] * n[1] - ref[1] * n[0],
+  ];
+  const len = Math.hypot(ax[0], ax[1], ax[2]);
+  ax[0] /= len;
+  ax[1] /= len;
+  ax[2] /= len;
+  const ay = [
+    n[1] * ax[2] - n[2] * ax[1],
+    n[2] * ax[0] - n[0] * ax[2],
+    n[0] * ax[1] - n[1] * ax[0],
+  ];
+  return [ax, ay];
+}
+
+// rotation [cos, sin] giving the smallest axis-aligned box (rotating calipers over the hull)
+function minAreaRotation(pts: number[]): [number, number] {
+  const hull = convexHull(pts);
+  let best: [number, number] = [1, 0];
+  let bestArea = Infinity;
+  for (let i = 0; i < hull.length; i += 2) {
+    const j = (i + 2) % hull.length;
+    const ex = hull[j] - hull[i],
+      ey = hull[j + 1] - hull[i + 1];
+    const len = Math.hypot(ex, ey);
+    if (len === 0) continue;
+    // rotate the edge onto the x axis
+    const cos = ex / len,
+      sin = -ey / len;
+    let minX = Infinity,
+      minY = Infinity,
+      maxX = -Infinity,
+      maxY = -Infinity;
+    for (let k = 0; k < hull.length; k += 2) {
+      const rx = hull[k] * cos - hull[k + 1] * sin,
+        ry = hull[k] * sin + hull[k + 1] * cos;
+      minX = Math.min(minX, rx);
+      minY = Math.min(minY, ry);
+      maxX = Math.max(maxX, rx);
+      maxY = Math.max(maxY, ry);
+    }
+    const area = (maxX - minX) * (maxY - minY);
+    if (area < bestArea) {
+      bestArea = area;
+      best = [cos, sin];
+    }
+  }
+  return best;
+}
+
+// Andrew's monotone chain; flat [x, y, ...] in, counter-clockwise flat hull out
+function convexHull(pts: number[]): number[] {
+  const n = pts.length / 2;
+  const order = Array.from({ length: n }, (_, i) => i).sort(
+    (a, b) => pts[a * 2] - pts[b * 2] || pts[a * 2 + 1] - pts[b * 2 + 1],
+  );
+  const cross = (o: number, a: number, b: number) =>
+    (pts[a * 2] - pts[o * 2]) * (pts[b * 2 + 1] - pts[o * 2 + 1]) -
+    (pts[a * 2 + 1] - pts[o * 2 + 1]) * (pts[b * 2] - pts[o * 2]);
+  const lower: number[] = [];
+  for (const i of order) {
+    while (
+      lower.length >= 2 &&
+      cross(lower[lower.length - 2], lower[lower.length - 1], i) <= 0
+    ) {
+      lower.pop();
+    }
+    lower.push(i);
+  }
+  const upper: number[] = [];
+  for (let k = order.length - 1; k >= 0; k--) {
+    const i = order[k];
+    while (
+      upper.length >= 2 &&
+      cross(upper[upper.length - 2], upper[upper.length - 1], i) <= 0
+    ) {
+      upper.pop();
+    }
+    upper.push(i);
+  }
+  lower.pop();
+  upper.pop();
+  const hull: number[] = [];
+  for (const i of lower.concat(upper)) hull.push(pts[i * 2], pts[i * 2 + 1]);
+  return hull;
+}
+
+// shelf packing; sets chart.x/y and returns the side of the square that holds all charts
+function packCharts(charts: Chart[], pad: number): number {
+  if (charts.length === 0) return 0;
+  const order = charts
+    .map((_, i) => i)
+    .sort((a, b) => charts[b].height - charts[a].height);
+  let area = 0;
+  let widest = 0;
+  for (const c of charts) {
+    area += (c.width + pad) * (c.height + pad);
+    widest = Math.max(widest, c.width + pad);
+  }
+
+  let bestSize = Infinity;
+  let bestWidth = widest;
+  for (const f of [0.9, 1, 1.1, 1.25, 1.5, 2]) {
+    const binWidth = Math.max(widest, Math.sqrt(area) * f);
+    const size = shelfPack(charts, order, pad, binWidth, false);
+    if (size < bestSize) {
+      bestSize = size;
+      bestWidth = binWidth;
+    }
+  }
+  return shelfPack(charts, order, pad, bestWidth, true);
+}
+
+function shelfPack(
+  charts: Chart[],
+  order: number[],
+  pad: number,
+  binWidth: number,
+  place: boolean,
+): number {
+  // half the padding on the outer border, full padding between charts
+  let x = pad * 0.5,
+    y = pad * 0.5,
+    shelfHeight = 0,
+    usedWidth = 0;
+  for (const i of order) {
+    const c = charts[i];
+    if (x > pad * 0.5 && x + c.width + pad * 0.5 > binWidth) {
+      y += shelfHeight + pad;
+      x = pad * 0.5;
+      shelfHeight = 0;
+    }
+    if (place) {
+      c.x = x;
+      c.y = y;
+    }
+    x += c.width + pad;
+    shelfHeight = Math.max(shelfHeight, c.height);
+    usedWidth = Math.max(usedWidth, x - pad * 0.5);
+  }
+  const usedHeight = y + shelfHeight + pad * 0.5;
+  return Math.max(usedWidth, usedHeight);
+}
@@ -0,0 +1,153 @@
+// VertexPaint.ts
+/**
+ * VertexPaint - paintMode 'vertex' writes, without engine or DOM.
+ *
+ * Holds RGBA vertex colors (0..1) and the colors they started from, blends
+ * sphere dabs and filled triangles into them through blendVertexMode (mask
+ * protection, per-stroke glaze coverage, cavity for wash / drybrush) and
+ * snapshots the touched vertex blocks in a PaintHistory. The changed vertex
+ * range accumulates until the owner uploads it (takeChanged).
+ */
+import { BlendMode, PaintMesh, blendVertexMode } from './PaintCore.js';
+import { PaintHistory } from './PaintHistory.js';
+
+/** How a paint call combines with the vertex colors. */
+export type VertexBlend = {
+  mode: BlendMode;
+  // protection (0..1) per vertex; null when nothing is masked
+  protection?: Float32Array | null;
+  // per-vertex cavity (PaintCore.bakeVertexCavity) for wash / drybrush
+  cavity?: Float32Array | null;
+};
+
+export class VertexPaint {
+  readonly colors: Float32Array;
+  /** Colors the mesh started with (erase and reset go back to them). */
+  readonly initial: Float32Array;
+
+  private _changed = [Infinity, -Infinity];
+  // glaze coverage of the open stroke per vertex
+  private _glaze: Float32Array;
+  private _glazeStrokeId = -1;
+
+  constructor(colors: Float32Array) {
+    this.colors = colors;
+    this.initial = colors.slice();
+    this._glaze = new Float32Array(colors.length / 4);
+  }
+
+  get vertexCount() {
+    return this.colors.length / 4;
+  }
+
+  /**
+   * Blends `color` into the vertices of `mesh` within `radius` of `center`
+   * (verticesInSphere falloff). Opens a stroke of its own when none is open.
+   * Returns whether any vertex changed.
+   */
+  paintSphere(
+    mesh: PaintMesh,
+    center: ArrayLike<number>,
+    radius: number,
+    hardness: number,
+    color: ArrayLike<number>,
+    history: PaintHistory,
+    blend: VertexBlend,
+  ): boolean {
+    if (!(radius > 0)) return false;
+    let painted = false;
+    const implicitStroke = !history.strokeOpen;
+    if (implicitStroke) history.beginStroke();
+    mesh.verticesInSphere(center, radius, hardness, (v, weight) => {
+      painted =
+        this._paint(v, color, color[3] * weight, history, blend) || painted;
+    });
+    if (implicitStroke) history.endStroke();
+    return painted;
+  }
+
+  /** Blends `color` into every vertex of the triangles `tris`. */
+  fillTriangles(
+    indices: ArrayLike<number>,
+    tris: ArrayLike<number>,
+    color: ArrayLike<number>,
+    history: PaintHistory,
+    blend: VertexBlend,
+  ): boolean {
+    let painted = false;
+    const implicitStroke = !history.strokeOpen;
+    if (implicitStroke) history.beginStroke();
+    for (let i = 0; i < tris.length; i++) {
+      for (let k = 0; k < 3; k++) {
+        const v = indices[tris[i] * 3 + k];
+        painted = this._paint(v, color, color[3], history, blend) || painted;
+      }
+    }
+    if (implicitStroke) history.endStroke();
+    return painted;
+  }
+
+  /** Color of triangle `tri` at barycentric weights (w0, w1, w2). */
+  colorAt(
+    indices: ArrayLike<number>,
+    tri: number,
+    w: ArrayLike<number>,
+  ): [number, number, number, number] {
+    const out: [number, number, number, number] = [0, 0, 0, 0];
+    for (let k = 0; k < 3; k++) {
+      const v = indices[tri * 3 + k];
+      for (let c = 0; c < 4; c++) out[c] += this.colors[v * 4 + c] * w[k];
+    }
+    return out;
+  }
+
+  /** Overwrites all colors (a saved or set-aside painting; default: the initial ones). */
+  load(colors: ArrayLike<number> = this.initial) {
+    this.colors.set(colors);
+    this.markChanged(0, this.vertexCount - 1);
+  }
+
+  markChanged(first: number, last: number) {
+    const r = this._changed;
+    r[0] = Math.min(r[0], first);
+    r[1] = Math.max(r[1], last);
+  }
+
+  /** First / last vertex changed since the last call, or null. */
+  takeChanged(): [number, number] | null {
+    const r = this._changed;
+    if (r[0] > r[1]) return null;
+    const range: [number, number] = [r[0], r[1]];
+    r[0] = Infinity;
+    r[1] = -Infinity;
+    return range;
+  }
+
+  private _paint(
+    v: number,
+    color: ArrayLike<number>,
+    a: number,
+    history: PaintHistory,
+    blend: VertexBlend,
+  ) {
+    const keep = blend.protection ? 1 - blend.protection[v] : 1;
+    if (!(keep > 0)) return false;
+    history.captureVertices(this.colors, v);
+    blendVertexMode(blend.mode, this.colors, v, color, a * keep, {
+      base: this.initial,
+      glaze: blend.mode === 'glaze' ? this._glazeFor(history) : undefined,
+      cavity: blend.cavity,
+    });
+    this.markChanged(v, v);
+    return true;
+  }
+
+  // coverage of the open stroke (cleared when a new one opened)
+  private _glazeFor(history: PaintHistory) {
+    if (this._glazeStrokeId !== history.strokeId) {
+      this._glazeStrokeId = history.strokeId;
+      this._glaze.fill(0);
+    }
+    return this._glaze;
+  }
+}
@@ -0,0 +1,194 @@
+// GLBExport.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeVertexNormals,
+  encodeGLB,
+  encodeGLBScene,
+} from '../js/GLBExport.js';
+
+// unit quad in the xy plane; the 5-byte fake PNGs exercise the 4-byte padding
+const QUAD = {
+  positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]),
+  uvs: new Float32Array([0, 1, 1, 1, 1, 0, 0, 0]),
+  indices: new Uint32Array([0, 1, 2, 0, 2, 3]),
+};
+const PNG = (tag: number) => new Uint8Array([0x89, 0x50, 0x4e, 0x47, tag]);
+
+function parseGLB(glb: ArrayBuffer) {
+  const dv = new DataView(glb);
+  const jsonLength = dv.getUint32(12, true);
+  const json = JSON.parse(
+    new TextDecoder().decode(new Uint8Array(glb, 20, jsonLength)),
+  );
+  const binStart = 20 + jsonLength;
+  return {
+    magic: dv.getUint32(0, true),
+    version: dv.getUint32(4, true),
+    length: dv.getUint32(8, true),
+    jsonType: dv.getUint32(16, true),
+    binLength: dv.getUint32(binStart, true),
+    binType: dv.getUint32(binStart + 4, true),
+    json,
+    // bytes of a bufferView
+    view(index: number) {
+      const v = json.bufferViews[index];
+      return new Uint8Array(glb, binStart + 8 + v.byteOffset, v.byteLength);
+    },
+  };
+}
+
+describe('encodeGLB', () => {
+  it('writes a valid GLB container', () => {
+    const glb = encodeGLB({ ...QUAD, normals: null }, { baseColor: PNG(1) });
+    const parsed = parseGLB(glb);
+    assert.equal(parsed.magic, 0x46546c67);
+    assert.equal(parsed.version, 2);
+    assert.equal(parsed.length, glb.byteLength);
+    assert.equal(parsed.jsonType, 0x4e4f534a);
+    assert.equal(parsed.binType, 0x004e4942);
+    assert.equal(parsed.json.buffers[0].byteLength, parsed.binLength);
+    assert.equal(glb.byteLength % 4, 0);
+    for (const v of parsed.json.bufferViews) assert.equal(v.byteOffset % 4, 0);
+  });
+
+  it('stores geometry and the base color image', () => {
+    const glb = encodeGLB(
+      { ...QUAD, normals: computeVertexNormals(QUAD.positions, QUAD.indices) },
+      { baseColor: PNG(1) },
+      { name: 'quad', doubleSided: true },
+    );
+    const { json, view } = parseGLB(glb);
+    const primitive = json.meshes[0].primitives[0];
+    assert.deepEqual(Object.keys(primitive.attributes).sort(), [
+      'NORMAL',
+      'POSITION',
+      'TEXCOORD_0',
+    ]);
+    const position = json.accessors[primitive.attributes.POSITION];
+    assert.deepEqual(position.min, [0, 0, 0]);
+    assert.deepEqual(position.max, [1, 1, 0]);
+    const indices = json.accessors[primitive.indices];
+    assert.equal(indices.count, 6);
+    assert.deepEqual(
+      [...new Uint32Array(view(indices.bufferView).slice().buffer)],
+      [...QUAD.indices],
+    );
+
+    const material = json.materials[0];
+    assert.equal(material.name, 'quad-paint');
+    assert.equal(material.doubleSided, true);
+    assert.equal(material.pbrMetallicRoughness.metallicFactor, 0);
+    assert.equal(material.normalTexture, undefined);
+    assert.equal(json.images.length, 1);
+    assert.deepEqual([...view(json.images[0].bufferView)], [...PNG(1)]);
+  });
+
+  it('adds metallic-roughness and normal textures when given', () => {
+    const glb = encodeGLB(
+      { ...QUAD, normals: null },
+      { baseColor: PNG(1), metallicRoughness: PNG(2), normal: PNG(3) },
+    );
+    const { json, view } = parseGLB(glb);
+    const material = json.materials[0];
+    const pbr = material.pbrMetallicRoughness;
+    assert.equal(pbr.metallicFactor, 1);
+    assert.equal(pbr.metallicRoughnessTexture.index, 1);
+    assert.equal(material.normalTexture.index, 2);
+    assert.equal(json.textures.length, 3);
+    json.textures.forEach((texture: { source: number }, i: number) => {
+      const image = json.images[texture.source];
+      assert.deepEqual([...view(image.bufferView)], [...PNG(i + 1)]);
+    });
+  });
+
+  it('writes vertex colors as COLOR_0', () => {
+    const colors = new Float32Array(16).fill(0.5);
+    colors.set([1, 0, 0, 1]);
+    const glb = encodeGLB(
+      { ...QUAD, normals: null, colors },
+      { baseColor: PNG(1) },
+    );
+    const { json, view } = parseGLB(glb);
+    const color =
+      json.accessors[json.meshes[0].primitives[0].attributes.COLOR_0];
+    assert.equal(color.type, 'VEC4');
+    assert.equal(color.componentType, 5126);
+    assert.equal(color.count, 4);
+    assert.deepEqual(
+      [...new Float32Array(view(color.bufferView).slice().buffer)],
+      [...colors],
+    );
+  });
+});
+
+describe('encodeGLBScene', () => {
+  it('writes one child node, mesh and material per part', () => {
+    const shift = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 2, 0, 0, 1];
+    const glb = encodeGLBScene(
+      [
+        {
+          name: 'body',
+          mesh: { ...QUAD, normals: null },
+          images: { baseColor: PNG(1) },
+        },
+        {
+          name: 'hat',
+          mesh: { ...QUAD, normals: null },
+          images: { baseColor: PNG(2), normal: PNG(3) },
+          matrix: shift,
+        },
+      ],
+      { name: 'figurine' },
+    );
+    const { json, view } = parseGLB(glb);
+    assert.deepEqual(json.scenes[0].nodes, [0]);
+    assert.deepEqual(json.nodes[0], { name: 'figurine', children: [1, 2] });
+    assert.equal(json.nodes[1].matrix, undefined);
+    assert.deepEqual(json.nodes[2].matrix, shift);
+    assert.deepEqual(
+      json.nodes.slice(1).map((n: { mesh: number }) => n.mesh),
+      [0, 1],
+    );
+
+    const [body, hat] = json.meshes.map(
+      (m: { primitives: { material: number }[] }) =>
+        json.materials[m.primitives[0].material],
+    );
+    assert.equal(body.name, 'body-paint');
+    assert.equal(hat.name, 'hat-paint');
+    const image = (index: number) => [
+      ...view(json.images[json.textures[index].source].bufferView),
+    ];
+    assert.deepEqual(image(body.pbrMetallicRoughness.baseColorTexture.index), [
+      ...PNG(1),
+    ]);
+    assert.deepEqual(image(hat.pbrMetallicRoughness.baseColorTexture.index), [
+      ...PNG(2),
+    ]);
+    assert.deepEqual(image(hat.normalTexture.index), [...PNG(3)]);
+    assert.equal(body.normalTexture, undefined);
+  });
+});
+
+describe('computeVertexNormals', () => {
+  it('points a flat quad along +z', () => {
+    const normals = computeVertexNormals(QUAD.positions, QUAD.indices);
+    for (let v = 0; v < 4; v++) {
+      assert.deepEqual([...normals.subarray(v * 3, v * 3 + 3)], [0, 0, 1]);
+    }
+  });
+
+  it('weights shared vertices by triangle area', () => {
+    // a big +z triangle and a small +x one sharing vertex 0
+    const positions = new Float32Array([
+      0, 0, 0, 4, 0, 0, 0, 4, 0, 0, 1, 0, 0, 0, 1,
+    ]);
+    const normals = computeVertexNormals(
+      positions,
+      new Uint32Array([0, 1, 2, 0, 3, 4]),
+    );
+    assert.ok(Math.abs(Math.hypot(...normals.subarray(0, 3)) - 1) < 1e-6);
+    assert.ok(normals[2] > normals[0] * 8);
+  });
+});
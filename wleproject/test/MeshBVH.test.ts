@@ -0,0 +1,246 @@
+// MeshBVH.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MeshBVH } from '../js/MeshBVH.js';
+
+// small random boxes scattered in the unit cube
+function boxes(count: number, seed = 7) {
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const triMin = new Float32Array(count * 3);
+  const triMax = new Float32Array(count * 3);
+  for (let t = 0; t < count; t++) {
+    for (let k = 0; k < 3; k++) {
+      const lo = random() * 0.95;
+      triMin[t * 3 + k] = lo;
+      triMax[t * 3 + k] = lo + 0.01 + random() * 0.04;
+    }
+  }
+  return { triMin, triMax };
+}
+
+function boxDistanceSq(
+  p: ArrayLike<number>,
+  triMin: Float32Array,
+  triMax: Float32Array,
+  t: number,
+) {
+  let d2 = 0;
+  for (let k = 0; k < 3; k++) {
+    const d = Math.max(triMin[t * 3 + k] - p[k], 0, p[k] - triMax[t * 3 + k]);
+    d2 += d * d;
+  }
+  return d2;
+}
+
+// ray entry distance into box t, Infinity on a miss
+function slab(
+  origin: number[],
+  dir: number[],
+  triMin: Float32Array,
+  triMax: Float32Array,
+  t: number,
+) {
+  let t0 = 0,
+    t1 = Infinity;
+  for (let k = 0; k < 3; k++) {
+    const a = (triMin[t * 3 + k] - origin[k]) / dir[k];
+    const b = (triMax[t * 3 + k] - origin[k]) / dir[k];
+    t0 = Math.max(t0, Math.min(a, b));
+    t1 = Math.min(t1, Math.max(a, b));
+  }
+  return t0 <= t1 ? t0 : Infinity;
+}
+
+// wavy n x n grid of quads with per-triangle AABBs
+function grid(n: number) {
+  const positions = new Float32Array((n + 1) * (n + 1) * 3);
+  for (let y = 0; y <= n; y++) {
+    for (let x = 0; x <= n; x++) {
+      const i = (y * (n + 1) + x) * 3;
+      positions.set([x / n, y / n, 0.1 * Math.sin(x + 2 * y)], i);
+    }
+  }
+  const indices: number[] = [];
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const a = y * (n + 1) + x;
+      indices.push(a, a + 1, a + n + 2, a, a + n + 2, a + n + 1);
+    }
+  }
+  const triCount = indices.length / 3;
+  const triMin = new Float32Array(triCount * 3).fill(Infinity);
+  const triMax = new Float32Array(triCount * 3).fill(-Infinity);
+  for (let i = 0; i < indices.length; i++) {
+    const t = Math.floor(i / 3);
+    for (let k = 0; k < 3; k++) {
+      const p = positions[indices[i] * 3 + k];
+      triMin[t * 3 + k] = Math.min(triMin[t * 3 + k], p);
+      triMax[t * 3 + k] = Math.max(triMax[t * 3 + k], p);
+    }
+  }
+  return { positions, indices, triCount, triMin, triMax };
+}
+
+// Möller-Trumbore distance to triangle t, Infinity on a miss
+function hitTriangle(
+  positions: Float32Array,
+  indices: number[],
+  t: number,
+  o: number[],
+  d: number[],
+) {
+  const p = (k: number) => {
+    const i = indices[t * 3 + k] * 3;
+    return [positions[i], positions[i + 1], positions[i + 2]];
+  };
+  const [a, b, c] = [p(0), p(1), p(2)];
+  const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const cross = (u: number[], v: number[]) => [
+    u[1] * v[2] - u[2] * v[1],
+    u[2] * v[0] - u[0] * v[2],
+    u[0] * v[1] - u[1] * v[0],
+  ];
+  const dot = (u: number[], v: number[]) =>
+    u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+  const pv = cross(d, e2);
+  const det = dot(e1, pv);
+  if (Math.abs(det) < 1e-12) return Infinity;
+  const tv = [o[0] - a[0], o[1] - a[1], o[2] - a[2]];
+  const u = dot(tv, pv) / det;
+  if (u < 0 || u > 1) return Infinity;
+  const qv = cross(tv, e1);
+  const v = dot(d, qv) / det;
+  if (v < 0 || u + v > 1) return Infinity;
+  const dist = dot(e2, qv) / det;
+  return dist >= 0 ? dist : Infinity;
+}
+
+describe('MeshBVH', () => {
+  it('visits every box overlapping a sphere', () => {
+    const { triMin, triMax } = boxes(500);
+    const bvh = new MeshBVH(triMin, triMax, 500);
+    const center = [0.4, 0.5, 0.6];
+    const visited = new Set<number>();
+    bvh.querySphere(center, 0.2, (t) => {
+      visited.add(t);
+    });
+    for (let t = 0; t < 500; t++) {
+      const d2 = boxDistanceSq(center, triMin, triMax, t);
+      if (d2 <= 0.04) assert.ok(visited.has(t), `box ${t}`);
+      // leaves are culled as a whole, so extra boxes still lie close by
+      if (visited.has(t)) assert.ok(d2 <= 0.16, `far box ${t}`);
+    }
+  });
+
+  it('agrees with the brute-force scan on a triangle mesh', () => {
+    const { positions, indices, triCount, triMin, triMax } = grid(16);
+    const bvh = new MeshBVH(triMin, triMax, triCount);
+    let seed = 3;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    let hits = 0;
+    for (let r = 0; r < 200; r++) {
+      const origin = [random() * 1.2 - 0.1, random() * 1.2 - 0.1, 1];
+      const dir = [random() - 0.5, random() - 0.5, -1];
+      const test = (t: number) =>
+        hitTriangle(positions, indices, t, origin, dir);
+      let best = -1,
+        bestT = Infinity;
+      for (let t = 0; t < triCount; t++) {
+        const d = test(t);
+        if (d < bestT) {
+          bestT = d;
+          best = t;
+        }
+      }
+      const hit = bvh.raycast(origin, dir, Infinity, test);
+      if (best < 0) assert.equal(hit, -1);
+      else assert.equal(test(hit), bestT);
+      if (best >= 0) hits++;
+    }
+    // most rays land on the mesh, a few miss past its edges
+    assert.ok(hits > 100 && hits < 200);
+  });
+
+  it('stops a sphere query when visit returns false', () => {
+    const { triMin, triMax } = boxes(100);
+    const bvh = new MeshBVH(triMin, triMax, 100);
+    let calls = 0;
+    bvh.querySphere([0.5, 0.5, 0.5], 2, () => ++calls < 3);
+    assert.equal(calls, 3);
+  });
+
+  it('returns the closest hit of a ray', () => {
+    const { triMin, triMax } = boxes(500);
+    const bvh = new MeshBVH(triMin, triMax, 500);
+    const origin = [-1, 0.31, 0.42];
+    const dir = [1, 0.1, 0.05];
+    let best = -1,
+      bestT = Infinity;
+    for (let t = 0; t < 500; t++) {
+      const d = slab(origin, dir, triMin, triMax, t);
+      if (d < bestT) {
+        bestT = d;
+        best = t;
+      }
+    }
+    const hit = bvh.raycast(origin, dir, Infinity, (t) =>
+      slab(origin, dir, triMin, triMax, t),
+    );
+    assert.equal(hit, best);
+    assert.equal(
+      bvh.raycast(origin, dir, bestT * 0.5, (t) =>
+        slab(origin, dir, triMin, triMax, t),
+      ),
+      -1,
+    );
+  });
+
+  it('finds the nearest box within maxDistance', () => {
+    const { triMin, triMax } = boxes(500);
+    const bvh = new MeshBVH(triMin, triMax, 500);
+    const point = [0.5, 1.5, 0.5];
+    let best = -1,
+      bestD2 = Infinity;
+    for (let t = 0; t < 500; t++) {
+      const d2 = boxDistanceSq(point, triMin, triMax, t);
+      if (d2 < bestD2) {
+        bestD2 = d2;
+        best = t;
+      }
+    }
+    const distanceSq = (t: number) => boxDistanceSq(point, triMin, triMax, t);
+    assert.equal(bvh.closestTriangle(point, 10, distanceSq), best);
+    assert.equal(bvh.closestTriangle(point, 0.1, distanceSq), -1);
+  });
+
+  it('still finds moved boxes after a refit', () => {
+    const { triMin, triMax } = boxes(200);
+    const bvh = new MeshBVH(triMin, triMax, 200);
+    // move box 17 far away
+    for (let k = 0; k < 3; k++) {
+      triMin[17 * 3 + k] += 5;
+      triMax[17 * 3 + k] += 5;
+    }
+    bvh.refit(triMin, triMax);
+    const found: number[] = [];
+    bvh.querySphere([5.5, 5.5, 5.5], 1, (t) => {
+      found.push(t);
+    });
+    // box 17 plus at most the rest of its leaf
+    assert.ok(found.includes(17));
+    assert.ok(found.length <= 4);
+  });
+
+  it('handles an empty mesh', () => {
+    const bvh = new MeshBVH(new Float32Array(0), new Float32Array(0), 0);
+    assert.equal(
+      bvh.raycast([0, 0, 0], [1, 0, 0], Infinity, () => 0),
+      -1,
+    );
+    assert.equal(
+      bvh.closestTriangle([0, 0, 0], 1, () => 0),
+      -1,
+    );
+  });
+});
@@ -0,0 +1,77 @@
+// PaintBenchmarks.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaintMesh } from '../js/PaintCore.js';
+import {
+  FrameStats,
+  UploadTarget,
+  benchmarkRayQueries,
+  benchmarkTextureUploads,
+} from '../js/PaintBenchmarks.js';
+
+// unit cube, 12 triangles
+function cube() {
+  const p: number[] = [];
+  for (let i = 0; i < 8; i++) p.push(i & 1, (i >> 1) & 1, (i >> 2) & 1);
+  const faces = [
+    [0, 1, 3, 2],
+    [4, 6, 7, 5],
+    [0, 4, 5, 1],
+    [2, 3, 7, 6],
+    [0, 2, 6, 4],
+    [1, 5, 7, 3],
+  ];
+  const indices = faces.flatMap(([a, b, c, d]) => [a, b, c, a, c, d]);
+  return new PaintMesh(new Float32Array(p), null, indices);
+}
+
+describe('benchmarkRayQueries', () => {
+  it('finds the same hits with the BVH as the brute-force scan', () => {
+    const result = benchmarkRayQueries(cube(), 200);
+    assert.equal(result.triCount, 12);
+    assert.equal(result.rayCount, 200);
+    assert.equal(result.mismatches, 0);
+    // every ray aims at a point inside the cube
+    assert.equal(result.hits, 200);
+  });
+});
+
+describe('benchmarkTextureUploads', () => {
+  it('flushes per dab, then once per batch, and undoes both strokes', () => {
+    const calls: string[] = [];
+    let flushes = 0;
+    const target: UploadTarget = {
+      batchUploads: true,
+      beginStroke: () => calls.push('begin'),
+      endStroke: () => calls.push('end'),
+      paintAtUV() {
+        if (!target.batchUploads) flushes++;
+      },
+      flushTexture: () => flushes++,
+      undo: () => calls.push('undo'),
+    };
+    let clock = 0;
+    const result = benchmarkTextureUploads(target, 10, () => (clock += 5));
+    assert.deepEqual(calls, ['begin', 'end', 'begin', 'end', 'undo', 'undo']);
+    // the initial flush, 10 per-dab uploads, one per stroke end and the last
+    assert.equal(flushes, 1 + 10 + 2 + 1);
+    assert.equal(result.perDabMs, 5);
+    assert.equal(target.batchUploads, true);
+  });
+});
+
+describe('FrameStats', () => {
+  it('summarizes an interval with dabs and starts the next one', () => {
+    const stats = new FrameStats();
+    assert.equal(stats.frame(1000), null);
+    stats.addDab(2);
+    stats.addDab(4);
+    stats.addUpload(1);
+    const summary = stats.frame(3000);
+    assert.match(summary!, /over 2 frames: 1\.0 dabs\/frame, paint 3\.00/);
+    assert.match(summary!, /\(1 uploads\)$/);
+    assert.equal(stats.dabs, 0);
+    // an interval without dabs is not reported
+    assert.equal(stats.frame(6000), null);
+  });
+});
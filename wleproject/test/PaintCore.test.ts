@@ -0,0 +1,529 @@
+// PaintCore.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PaintMesh,
+  averageColor,
+  bakeVertexCavity,
+  blendModeColor,
+  blurDab,
+  cavityOpacity,
+  eraseToward,
+  glazeAlpha,
+  smudgeDab,
+  PixelBuffer,
+  UVCanvas,
+  buildSeamMap,
+  buildUVIslands,
+  clipKeep,
+  compositeLayers,
+  dilateGutter,
+  floodRegion,
+  gutterSources,
+  heightToNormals,
+  maskWriter,
+  packRoughnessMetallic,
+  planarUVs,
+  rasterizeTriangle,
+  rectBlend,
+  seamFootprints,
+  skinPositions,
+  sphereTexelWeights,
+  stampDab,
+  texelBounds,
+  trianglesShareVertex,
+  vertexProtection,
+  weldVertices,
+} from '../js/PaintCore.js';
+
+// unit quad in the XY plane, UVs = XY; triangle 0 below the diagonal, 1 above
+function quad() {
+  const positions = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+  const uvs = new Float32Array([0, 0, 1, 0, 1, 1, 0, 1]);
+  return new PaintMesh(positions, uvs, [0, 1, 2, 0, 2, 3]);
+}
+
+// the same quad split along the diagonal into two UV islands: triangle 0 in
+// the lower left quarter of the canvas, triangle 1 in the upper right one
+function splitQuad() {
+  const positions = new Float32Array([
+    0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0, 0, 1, 0,
+  ]);
+  const uvs = new Float32Array([
+    0, 0, 0.5, 0, 0.5, 0.5, 0.5, 0.5, 1, 1, 0.5, 1,
+  ]);
+  const indices = new Int32Array([0, 1, 2, 3, 4, 5]);
+  const layout: UVCanvas = {
+    uvs,
+    indices,
+    width: 32,
+    height: 32,
+    flipY: false,
+  };
+  return { positions, uvs, indices, layout };
+}
+
+function buffer(width: number, height: number): PixelBuffer {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+function pixel(buf: PixelBuffer, x: number, y: number) {
+  const i = (y * buf.width + x) * 4;
+  return [...buf.data.subarray(i, i + 4)];
+}
+
+describe('PaintMesh', () => {
+  it('hits the triangle under a ray and interpolates its UV', () => {
+    const mesh = quad();
+    const hit = mesh.raycast(
+      new Float32Array([0.25, 0.75, 1]),
+      new Float32Array([0, 0, -1]),
+    );
+    assert.ok(hit);
+    assert.equal(hit.tri, 1);
+    assert.ok(Math.abs(hit.t - 1) < 1e-6);
+    const uv = [0, 0];
+    assert.ok(mesh.interpolateUV(hit.tri, hit.u, hit.v, uv));
+    assert.ok(Math.abs(uv[0] - 0.25) < 1e-6);
+    assert.ok(Math.abs(uv[1] - 0.75) < 1e-6);
+  });
+
+  it('misses beside the mesh and beyond maxDistance', () => {
+    const mesh = quad();
+    const down = new Float32Array([0, 0, -1]);
+    assert.equal(mesh.raycast(new Float32Array([2, 0.5, 1]), down), null);
+    assert.equal(
+      mesh.raycast(new Float32Array([0.5, 0.2, 1]), down, 0.5),
+      null,
+    );
+  });
+
+  it('agrees with the brute-force scan', () => {
+    // 8 x 8 grid of quads, wavy in z
+    const n = 8;
+    const positions = new Float32Array((n + 1) * (n + 1) * 3);
+    for (let y = 0; y <= n; y++) {
+      for (let x = 0; x <= n; x++) {
+        const i = (y * (n + 1) + x) * 3;
+        positions.set([x / n, y / n, 0.1 * Math.sin(x + 2 * y)], i);
+      }
+    }
+    const indices: number[] = [];
+    for (let y = 0; y < n; y++) {
+      for (let x = 0; x < n; x++) {
+        const a = y * (n + 1) + x;
+        indices.push(a, a + 1, a + n + 2, a, a + n + 2, a + n + 1);
+      }
+    }
+    const mesh = new PaintMesh(positions, null, indices);
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    for (let r = 0; r < 100; r++) {
+      const origin = new Float32Array([random(), random(), 1]);
+      const dir = new Float32Array([random() - 0.5, random() - 0.5, -1]);
+      const fast = mesh.raycast(origin, dir);
+      const slow = mesh.raycastBruteForce(origin, dir);
+      assert.equal(fast?.tri, slow?.tri);
+      if (fast && slow) assert.ok(Math.abs(fast.t - slow.t) < 1e-5);
+    }
+  });
+
+  it('finds the closest surface point within maxDistance', () => {
+    const mesh = quad();
+    const out = new Float32Array(5);
+    assert.equal(mesh.closestPoint([0.5, 0.2, 2], 5, out), 0);
+    assert.ok(Math.abs(out[0] - 0.5) < 1e-6);
+    assert.ok(Math.abs(out[1] - 0.2) < 1e-6);
+    assert.ok(Math.abs(out[2]) < 1e-6);
+    assert.equal(mesh.closestPoint([0.5, 0.2, 2], 1, out), -1);
+  });
+
+  it('lists the triangles inside a sphere', () => {
+    const mesh = quad();
+    assert.deepEqual(mesh.trianglesInSphere([0.9, 0.1, 0], 0.05), [0]);
+    assert.deepEqual(mesh.trianglesInSphere([0.5, 0.5, 0], 0.1).sort(), [0, 1]);
+  });
+
+  it('visits the vertices inside a sphere with their falloff', () => {
+    const mesh = quad();
+    const seen: [number, number][] = [];
+    mesh.verticesInSphere([1, 0, 0], 0.5, 0.5, (v, w) => seen.push([v, w]));
+    assert.deepEqual(seen, [[1, 1]]);
+  });
+});
+
+describe('stampDab', () => {
+  it('paints a disc and leaves the rest alone', () => {
+    const buf = buffer(16, 16);
+    stampDab(buf, 8, 8, 3, [1, 0, 0, 1]);
+    assert.deepEqual(pixel(buf, 8, 8), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(buf, 0, 0), [0, 0, 0, 0]);
+    assert.deepEqual(pixel(buf, 13, 8), [0, 0, 0, 0]);
+  });
+
+  it('respects keep and erases with a negative alpha', () => {
+    const buf = buffer(16, 16);
+    stampDab(buf, 8, 8, 3, [1, 1, 1, 1], () => 1);
+    assert.deepEqual(pixel(buf, 8, 8), [0, 0, 0, 0]);
+
+    buf.data.fill(255);
+    stampDab(buf, 8, 8, 3, [0, 0, 0, -1]);
+    assert.equal(pixel(buf, 8, 8)[3], 0);
+    assert.equal(pixel(buf, 0, 0)[3], 255);
+  });
+});
+
+describe('dilateGutter', () => {
+  it('copies each gutter texel from its source', () => {
+    const buf = buffer(4, 1);
+    buf.data.set([10, 20, 30, 255], 4);
+    const source = new Int32Array([1, -1, -1, 1]);
+    assert.equal(dilateGutter(buf, 0, 0, source, 4, 0, 0, 4, 1), true);
+    assert.deepEqual(pixel(buf, 0, 0), [10, 20, 30, 255]);
+    assert.deepEqual(pixel(buf, 2, 0), [0, 0, 0, 0]);
+    assert.deepEqual(pixel(buf, 3, 0), [10, 20, 30, 255]);
+  });
+
+  it('reports when there was no gutter in the rect', () => {
+    const buf = buffer(4, 1);
+    const source = new Int32Array([1, -1, -1, 1]);
+    assert.equal(dilateGutter(buf, 0, 0, source, 4, 1, 0, 3, 1), false);
+  });
+});
+
+describe('rasterizeTriangle', () => {
+  it('visits the texels whose centers are inside, with barycentrics', () => {
+    const visited: number[][] = [];
+    rasterizeTriangle([0, 4, 0], [0, 0, 4], 8, 8, 0, (x, y, w0, w1, w2) => {
+      visited.push([x, y]);
+      assert.ok(Math.abs(w0 + w1 + w2 - 1) < 1e-9);
+      assert.ok(Math.abs(w1 - (x + 0.5) / 4) < 1e-9);
+      assert.ok(Math.abs(w2 - (y + 0.5) / 4) < 1e-9);
+    });
+    assert.equal(visited.length, 10);
+    assert.ok(visited.every(([x, y]) => x + y <= 3));
+  });
+
+  it('grows by the slack, clamps to the canvas and skips degenerates', () => {
+    let inside = 0,
+      grown = 0;
+    rasterizeTriangle([0, 4, 0], [0, 0, 4], 8, 8, 0, () => inside++);
+    rasterizeTriangle([0, 4, 0], [0, 0, 4], 8, 8, 1, (x, y) => {
+      assert.ok(x >= 0 && y >= 0 && x < 8 && y < 8);
+      grown++;
+    });
+    assert.ok(grown > inside);
+    let degenerate = 0;
+    rasterizeTriangle([0, 2, 4], [0, 2, 4], 8, 8, 1, () => degenerate++);
+    assert.equal(degenerate, 0);
+  });
+});
+
+describe('averageColor', () => {
+  it('averages the texels in the radius, weighted by alpha', () => {
+    const buf = buffer(3, 1);
+    buf.data.set([255, 0, 0, 255, 0, 0, 255, 255, 0, 255, 0, 0]);
+    const out = [0, 0, 0, 0];
+    assert.ok(averageColor(buf, 1.5, 0.5, 1, out));
+    // the transparent green texel only lowers the alpha
+    assert.deepEqual(out.slice(0, 3), [0.5, 0, 0.5]);
+    assert.ok(Math.abs(out[3] - 2 / 3) < 1e-9);
+    assert.equal(averageColor(buf, 5, 0.5, 0, out), false);
+  });
+});
+
+describe('blend modes', () => {
+  it('multiplies and screens over opaque texels only', () => {
+    const out = [0, 0, 0];
+    blendModeColor(
+      'multiply',
+      [128, 255, 255, 255],
+      0,
+      [255, 128, 0],
+      255,
+      out,
+    );
+    assert.deepEqual(out, [128, 128, 0]);
+    blendModeColor('screen', [128, 0, 0, 255], 0, [255, 0, 0], 255, out);
+    assert.equal(out[0], 255);
+    blendModeColor('multiply', [128, 0, 0, 0], 0, [10, 20, 30], 255, out);
+    assert.deepEqual(out, [10, 20, 30]);
+  });
+
+  it('erases toward the base color premultiplied', () => {
+    const data = new Uint8ClampedArray([200, 0, 0, 255]);
+    eraseToward(data, 0, 0.5, [0, 0, 0, 0], 255);
+    assert.deepEqual([...data], [200, 0, 0, 128]);
+    eraseToward(data, 0, 1, [0, 0, 255, 255], 255);
+    assert.deepEqual([...data], [0, 0, 255, 255]);
+  });
+
+  it('glazes up to the stroke coverage, never past it', () => {
+    const coverage = new Float32Array(1);
+    assert.equal(glazeAlpha(coverage, 0, 0.5), 0.5);
+    assert.equal(glazeAlpha(coverage, 0, 0.5), 0);
+    assert.equal(glazeAlpha(coverage, 0, 0.75), 0.5);
+    assert.equal(coverage[0], 0.75);
+  });
+});
+
+describe('smudge and blur', () => {
+  it('drags picked-up color along the stroke', () => {
+    const buf = buffer(12, 3);
+    buf.data.fill(255);
+    buf.data.set([255, 0, 0, 255], (1 * 12 + 4) * 4);
+    const load = { reach: -1, data: new Float32Array(0) };
+    smudgeDab(buf, 4.5, 1.5, 1, load, 1);
+    smudgeDab(buf, 6.5, 1.5, 1, load, 1);
+    assert.deepEqual(pixel(buf, 6, 1), [255, 0, 0, 255]);
+    assert.deepEqual(pixel(buf, 10, 1), [255, 255, 255, 255]);
+  });
+
+  it('averages the neighbourhood at the dab center', () => {
+    const buf = buffer(5, 5);
+    for (let i = 0; i < 25; i++) buf.data.set([0, 0, 0, 255], i * 4);
+    buf.data.set([255, 255, 255, 255], 12 * 4);
+    blurDab(buf, 2.5, 2.5, 1, 1, 1);
+    assert.ok(Math.abs(pixel(buf, 2, 2)[0] - 255 / 9) <= 1);
+    assert.ok(pixel(buf, 1, 2)[0] > 0);
+    assert.equal(pixel(buf, 0, 0)[0], 0);
+  });
+});
+
+describe('cavity', () => {
+  // 3 x 3 vertex grid in the xy plane, facing +z, center vertex at height z
+  function dimple(z: number) {
+    const positions = new Float32Array(27);
+    for (let i = 0; i < 9; i++)
+      positions.set([i % 3, Math.floor(i / 3), 0], i * 3);
+    positions[4 * 3 + 2] = z;
+    const indices: number[] = [];
+    for (const a of [0, 1, 3, 4])
+      indices.push(a, a + 1, a + 4, a, a + 4, a + 3);
+    const weld = Int32Array.from({ length: 9 }, (_, i) => i);
+    return bakeVertexCavity(positions, indices, weld, 0)[4];
+  }
+
+  it('is positive in a pit and negative on a bump', () => {
+    assert.ok(dimple(-0.3) > 0);
+    assert.ok(dimple(0.3) < 0);
+    assert.ok(Math.abs(dimple(0)) < 1e-6);
+  });
+
+  it('lets a wash pool in crevices and a drybrush catch edges', () => {
+    assert.equal(cavityOpacity('normal', 1), 1);
+    assert.equal(cavityOpacity('wash', 1), 1);
+    assert.equal(cavityOpacity('wash', -1), 0);
+    assert.equal(cavityOpacity('drybrush', -1), 1);
+    assert.equal(cavityOpacity('drybrush', 1), 0);
+  });
+});
+
+describe('weldVertices', () => {
+  it('gives coincident vertices the id of the first one', () => {
+    const positions = new Float32Array([
+      0, 0, 0, 1, 0, 0, 0, 0, 1e-9, 1, 0, 0, 0, 1, 0,
+    ]);
+    assert.deepEqual([...weldVertices(positions, 1e-6)], [0, 1, 0, 1, 4]);
+  });
+});
+
+describe('seams and islands', () => {
+  it('links triangles across a UV seam', () => {
+    const { positions, uvs, indices } = splitQuad();
+    const weld = weldVertices(positions, 1e-6);
+    const seams = buildSeamMap(uvs, indices, weld);
+    // triangle 0's edge 2 -> 0 and triangle 1's edge 0 -> 1 are the diagonal
+    assert.equal(seams.neighbor[2], 1);
+    assert.equal(seams.neighbor[3], 0);
+    assert.equal(seams.opposite[2], 3);
+    assert.equal(seams.opposite[3], 2);
+    assert.equal(seams.neighbor.filter((t) => t >= 0).length, 2);
+    assert.equal(trianglesShareVertex(indices, 0, 1), false);
+    assert.equal(trianglesShareVertex(indices, 0, 1, seams.weld), true);
+  });
+
+  it('rasterizes islands and the gutter around them', () => {
+    const { layout } = splitQuad();
+    const { triIsland, texelIsland } = buildUVIslands(layout);
+    assert.notEqual(triIsland[0], triIsland[1]);
+    // lower left and upper right quarter of the canvas
+    assert.equal(texelIsland[2 * 32 + 12], triIsland[0]);
+    assert.equal(texelIsland[30 * 32 + 20], triIsland[1]);
+    assert.equal(texelIsland[30 * 32 + 2], -1);
+
+    const source = gutterSources(texelIsland, 32, 32, 2);
+    assert.equal(source[2 * 32 + 12], -1);
+    const gutter = 2 * 32 + 18;
+    assert.equal(texelIsland[gutter], -1);
+    assert.equal(texelIsland[source[gutter]], triIsland[0]);
+    assert.equal(source[2 * 32 + 28], -1);
+  });
+
+  it('mirrors a dab next to the seam onto the other island', () => {
+    const { positions, uvs, indices, layout } = splitQuad();
+    const seams = buildSeamMap(uvs, indices, weldVertices(positions, 1e-6));
+    const { triIsland } = buildUVIslands(layout);
+    const near = seamFootprints(layout, seams, triIsland, 0, 0.3, 0.28, 2);
+    assert.equal(near.length, 2);
+    assert.equal(near[0].island, triIsland[0]);
+    assert.equal(near[1].island, triIsland[1]);
+    assert.ok(Math.abs(near[1].radiusPx - 2) < 1e-6);
+    // as far outside the other island as the dab is inside this one
+    assert.ok(Math.abs(near[1].u - 0.8) < 1e-6);
+    assert.ok(Math.abs(near[1].v - 0.78) < 1e-6);
+
+    assert.equal(
+      seamFootprints(layout, seams, triIsland, 0, 0.4, 0.05, 2).length,
+      1,
+    );
+    assert.equal(
+      seamFootprints(layout, seams, triIsland, 0, 0.3, 0.28, 2, false).length,
+      1,
+    );
+  });
+
+  it('floods across seams until the color changes', () => {
+    const { positions, uvs, indices, layout } = splitQuad();
+    const seams = buildSeamMap(uvs, indices, weldVertices(positions, 1e-6));
+    assert.deepEqual(floodRegion(seams.neighbor, 0), [0, 1]);
+
+    const composite = buffer(32, 32);
+    // upper right quarter (triangle 1) painted white
+    for (let y = 16; y < 32; y++) {
+      composite.data.fill(255, (y * 32 + 16) * 4, (y * 32 + 32) * 4);
+    }
+    const limit = { layout, composite, tolerance: 0.5 };
+    assert.deepEqual(floodRegion(seams.neighbor, 0, limit), [0]);
+  });
+});
+
+describe('texel helpers', () => {
+  it('bounds and weighs the texels of triangles in a sphere', () => {
+    const mesh = quad();
+    const layout: UVCanvas = {
+      uvs: mesh.uvs!,
+      indices: mesh.indices,
+      width: 16,
+      height: 16,
+      flipY: false,
+    };
+    const rect = texelBounds(layout, [0, 1]);
+    assert.deepEqual(rect, [0, 0, 16, 16]);
+    const weight = sphereTexelWeights(
+      layout,
+      mesh.positions,
+      [0, 1],
+      rect!,
+      [0.5, 0.5, 0],
+      0.25,
+      0.5,
+    );
+    assert.equal(weight[8 * 16 + 8], 1);
+    assert.equal(weight[0], -1);
+    const rim = weight[8 * 16 + 11];
+    assert.ok(rim > 0 && rim < 1);
+  });
+
+  it('maps points to planar UVs over the x / z bounds', () => {
+    const positions = new Float32Array([0, 5, 0, 2, 5, 4]);
+    assert.deepEqual([...planarUVs(positions)], [0, 0, 1, 1]);
+    assert.deepEqual(
+      [...planarUVs(positions, [1, 0, 1, 3, 0, -1])],
+      [0.5, 0.25, 1, 0],
+    );
+  });
+});
+
+describe('blending and the mask', () => {
+  it('erases toward the base and clips to island and mask', () => {
+    const data = new Uint8ClampedArray([200, 0, 0, 255, 200, 0, 0, 255]);
+    const erase = rectBlend('erase', { base: [0, 0, 255, 255] }, 2, 0, 0, 2);
+    erase(data, 0, 0, 0, 0, 1);
+    assert.deepEqual([...data.subarray(0, 4)], [0, 0, 255, 255]);
+
+    const texelIsland = new Int32Array([3, 4]);
+    const mask = new Uint8ClampedArray([0, 0, 0, 0, 0, 0, 0, 128]);
+    const keep = clipKeep(texelIsland, 3, 2, 0, 0, 2, mask)!;
+    assert.equal(keep(0), 0);
+    assert.equal(keep(1), 1);
+    assert.equal(clipKeep(texelIsland, -1, 2, 0, 0, 2, null), undefined);
+    assert.ok(
+      Math.abs(clipKeep(null, 3, 2, 0, 0, 2, mask)!(1) - 128 / 255) < 1e-9,
+    );
+  });
+
+  it('adds and removes mask protection', () => {
+    const data = new Uint8ClampedArray(4);
+    maskWriter(data, false)(0, 1);
+    assert.equal(data[3], 255);
+    maskWriter(data, true)(0, -0.5);
+    assert.equal(data[3], 128);
+  });
+
+  it('reads vertex protection from the mask under each UV', () => {
+    // 2x2 mask, only the bottom-left texel (row 1) protected
+    const mask = buffer(2, 2);
+    mask.data[(1 * 2 + 0) * 4 + 3] = 255;
+    const uvs = [0.25, 0.25, 0.75, 0.25, 0.25, 0.75, 1, 1];
+    assert.deepEqual([...vertexProtection(mask, uvs, false)], [0, 0, 1, 0]);
+    // flipY: v = 0.25 lies in row 1
+    assert.deepEqual([...vertexProtection(mask, uvs, true)], [1, 0, 0, 0]);
+  });
+
+  it('composites layers source-over with their opacity', () => {
+    const red = buffer(1, 1);
+    red.data.set([255, 0, 0, 255]);
+    const blue = buffer(1, 1);
+    blue.data.set([0, 0, 255, 255]);
+    const out = buffer(1, 1);
+    compositeLayers(out, [
+      { buffer: red, opacity: 1 },
+      { buffer: blue, opacity: 0.5 },
+    ]);
+    const [r, g, b, a] = pixel(out, 0, 0);
+    assert.ok(Math.abs(r - 127.5) <= 1 && Math.abs(b - 127.5) <= 1);
+    assert.equal(g, 0);
+    assert.equal(a, 255);
+  });
+});
+
+describe('channels and skinning', () => {
+  it('packs roughness and metallic into G and B', () => {
+    const rough = buffer(1, 1),
+      metal = buffer(1, 1),
+      out = buffer(1, 1);
+    rough.data.set([100, 100, 100, 255]);
+    metal.data.set([30, 30, 30, 255]);
+    packRoughnessMetallic(rough, metal, out);
+    assert.deepEqual(pixel(out, 0, 0), [255, 100, 30, 255]);
+  });
+
+  it('turns a flat height map into straight-up normals', () => {
+    const height = buffer(4, 4);
+    height.data.fill(80);
+    const out = buffer(2, 2);
+    heightToNormals(height, out, 1, 1, 4, -1);
+    assert.deepEqual(pixel(out, 0, 0), [128, 128, 255, 255]);
+
+    // rising to the right tilts the normal to -x
+    for (let x = 0; x < 4; x++) {
+      for (let y = 0; y < 4; y++) height.data[(y * 4 + x) * 4] = x * 50;
+    }
+    heightToNormals(height, out, 1, 1, 4, -1);
+    assert.ok(pixel(out, 0, 0)[0] < 128);
+  });
+
+  it('blends vertices by their joint weights', () => {
+    const bind = new Float32Array([1, 0, 0, 0, 1, 0]);
+    const out = new Float32Array(6);
+    // joint 0: identity, joint 1: translate +2 in x
+    const matrices = new Float32Array(32);
+    for (const o of [0, 16]) {
+      matrices[o] = matrices[o + 5] = matrices[o + 10] = matrices[o + 15] = 1;
+    }
+    matrices[16 + 12] = 2;
+    skinPositions(bind, out, [0, 1, 1, 0], [0.5, 0.5, 1, 0], 2, matrices);
+    assert.deepEqual([...out], [2, 0, 0, 2, 1, 0]);
+  });
+});
@@ -0,0 +1,134 @@
+// PaintHistory.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaintHistory } from '../js/PaintHistory.js';
+
+type Pixels = { width: number; height: number; data: Uint8ClampedArray };
+
+// the getImageData / putImageData subset of a 2D context PaintHistory uses
+function fakeContext(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const ctx = {
+    canvas: { width, height },
+    data,
+    getImageData(x: number, y: number, w: number, h: number): Pixels {
+      const out = new Uint8ClampedArray(w * h * 4);
+      for (let row = 0; row < h; row++) {
+        const i = ((y + row) * width + x) * 4;
+        out.set(data.subarray(i, i + w * 4), row * w * 4);
+      }
+      return { width: w, height: h, data: out };
+    },
+    putImageData(img: Pixels, x: number, y: number) {
+      for (let row = 0; row < img.height; row++) {
+        const i = ((y + row) * width + x) * 4;
+        data.set(
+          img.data.subarray(row * img.width * 4, (row + 1) * img.width * 4),
+          i,
+        );
+      }
+    },
+  };
+  return ctx as typeof ctx & CanvasRenderingContext2D;
+}
+
+describe('PaintHistory', () => {
+  it('undoes and redoes a stroke on a canvas', () => {
+    const ctx = fakeContext(8, 8);
+    const history = new PaintHistory(4);
+    history.beginStroke();
+    history.capture(ctx, 1, 1, 2, 2);
+    ctx.data.fill(9, 0, 16);
+    // already captured tiles are not snapshotted again
+    history.capture(ctx, 0, 0, 2, 2);
+    ctx.data.fill(7, 0, 4);
+    history.endStroke();
+
+    assert.ok(history.canUndo);
+    assert.deepEqual(history.undo(), [ctx]);
+    assert.ok(ctx.data.every((v) => v === 0));
+    assert.ok(history.canRedo);
+    history.redo();
+    assert.equal(ctx.data[0], 7);
+    assert.equal(ctx.data[8], 9);
+    assert.equal(history.undo()?.length, 1);
+    assert.equal(history.undo(), null);
+  });
+
+  it('restores vertex colors block by block', () => {
+    const colors = new Float32Array(10 * 4).fill(1);
+    const history = new PaintHistory();
+    history.blockSize = 4;
+    history.beginStroke();
+    history.captureVertices(colors, 3, 3);
+    colors.fill(0.5, 3 * 4, 6 * 4);
+    history.endStroke();
+
+    assert.deepEqual(history.undo(), [colors]);
+    assert.ok(colors.every((c) => c === 1));
+    history.redo();
+    assert.equal(colors[3 * 4], 0.5);
+    assert.equal(colors[6 * 4], 1);
+  });
+
+  it('skips empty strokes and clears redo on new work', () => {
+    const ctx = fakeContext(4, 4);
+    const history = new PaintHistory(4);
+    history.beginStroke();
+    history.endStroke();
+    assert.equal(history.canUndo, false);
+
+    history.beginStroke();
+    history.capture(ctx, 0, 0, 1, 1);
+    history.endStroke();
+    history.undo();
+    assert.ok(history.canRedo);
+    history.beginStroke();
+    history.capture(ctx, 0, 0, 1, 1);
+    history.endStroke();
+    assert.equal(history.canRedo, false);
+  });
+
+  it('commits an open stroke before undoing', () => {
+    const ctx = fakeContext(4, 4);
+    const history = new PaintHistory(4);
+    history.beginStroke();
+    const id = history.strokeId;
+    history.capture(ctx, 0, 0, 1, 1);
+    ctx.data[0] = 5;
+    assert.deepEqual(history.undo(), [ctx]);
+    assert.equal(ctx.data[0], 0);
+    assert.equal(history.strokeOpen, false);
+    history.beginStroke();
+    assert.equal(history.strokeId, id + 1);
+  });
+
+  it('undoes actions as their own step', () => {
+    const calls: string[] = [];
+    const history = new PaintHistory();
+    history.pushAction({
+      undo: () => calls.push('undo'),
+      redo: () => calls.push('redo'),
+    });
+    assert.deepEqual(history.undo(), []);
+    history.redo();
+    assert.deepEqual(calls, ['undo', 'redo']);
+  });
+
+  it('drops the oldest strokes past the budget', () => {
+    const ctx = fakeContext(16, 4);
+    // each stroke keeps one 4 x 4 tile: 64 bytes
+    const history = new PaintHistory(4, 150);
+    for (let x = 0; x < 16; x += 4) {
+      history.beginStroke();
+      history.capture(ctx, x, 0, 3, 3);
+      history.endStroke();
+    }
+    let steps = 0;
+    while (history.canUndo) {
+      history.undo();
+      steps++;
+    }
+    assert.equal(steps, 2);
+  });
+});
@@ -0,0 +1,67 @@
+// PaintLayers.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaintHistory } from '../js/PaintHistory.js';
+import { LayerStack, PaintLayerInfo } from '../js/PaintLayers.js';
+
+function layer(name: string): PaintLayerInfo {
+  return { name, visible: true, opacity: 1, locked: false };
+}
+
+function stack(...names: string[]) {
+  const s = new LayerStack<PaintLayerInfo>();
+  s.replace(names.map(layer));
+  return s;
+}
+
+const names = (s: LayerStack<PaintLayerInfo>) => s.layers.map((l) => l.name);
+
+describe('LayerStack', () => {
+  it('makes an inserted layer active', () => {
+    const s = stack('Base');
+    assert.equal(s.insert(layer('Top')), 1);
+    assert.equal(s.insert(layer('Middle'), 1), 1);
+    assert.deepEqual(names(s), ['Base', 'Middle', 'Top']);
+    assert.equal(s.activeLayer?.name, 'Middle');
+  });
+
+  it('removes a layer as an undo step and keeps the last one', () => {
+    const s = stack('Base', 'Top');
+    const history = new PaintHistory();
+    const detached: string[] = [];
+    assert.ok(s.remove(1, history, 16, (l) => detached.push(l.name)));
+    assert.deepEqual(names(s), ['Base']);
+    assert.equal(s.active, 0);
+    assert.equal(s.remove(0, history), false);
+
+    history.undo();
+    assert.deepEqual(names(s), ['Base', 'Top']);
+    assert.equal(s.activeLayer?.name, 'Top');
+    history.redo();
+    assert.deepEqual(names(s), ['Base']);
+    assert.deepEqual(detached, ['Top', 'Top']);
+  });
+
+  it('keeps the active layer active when moving', () => {
+    const s = stack('A', 'B', 'C');
+    s.setActive(0);
+    assert.ok(s.move(0, 5));
+    assert.deepEqual(names(s), ['B', 'C', 'A']);
+    assert.equal(s.activeLayer?.name, 'A');
+    assert.equal(s.move(3, 0), false);
+  });
+
+  it('clamps opacity and reports visibility changes', () => {
+    const s = stack('Base');
+    assert.ok(s.setOpacity(0, 2));
+    assert.equal(s.layers[0].opacity, 1);
+    s.setOpacity(0, -1);
+    assert.equal(s.layers[0].opacity, 0);
+    assert.equal(s.setVisible(0, true), false);
+    assert.ok(s.setVisible(0, false));
+    assert.equal(s.setActive(4), false);
+    assert.deepEqual(s.info(), [
+      { name: 'Base', visible: false, opacity: 0, locked: false },
+    ]);
+  });
+});
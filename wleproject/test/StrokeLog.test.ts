@@ -0,0 +1,145 @@
+// StrokeLog.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  StrokeLog,
+  StrokeOp,
+  StrokeRecorder,
+  decodeChannels,
+  encodeChannels,
+} from '../js/StrokeLog.js';
+
+describe('StrokeLog', () => {
+  it('decodes appended events in order', () => {
+    const log = new StrokeLog(512, 256);
+    log.append(StrokeOp.Begin, 0);
+    log.append(StrokeOp.Dab, 16, [0.5, 0.25, 3, 8, 1, 0, 0, 1, 1, 2, 3]);
+    log.append(StrokeOp.Channels, 20, [1, 0.5, 0.25, 0]);
+    log.append(StrokeOp.End, 40);
+
+    const events = log.events();
+    assert.deepEqual(
+      events.map((e) => e.op),
+      [StrokeOp.Begin, StrokeOp.Dab, StrokeOp.Channels, StrokeOp.End],
+    );
+    assert.deepEqual(
+      [...events[1].fields],
+      [0.5, 0.25, 3, 8, 1, 0, 0, 1, 1, 2, 3],
+    );
+    assert.deepEqual([...events[2].fields], [1, 0.5, 0.25, 0]);
+    assert.equal(log.duration, 40);
+    assert.equal(log.byteLength, (2 + 13 + 6 + 2) * 4);
+  });
+
+  it('pads missing fields with NaN', () => {
+    const log = new StrokeLog(1, 1);
+    log.append(StrokeOp.Channels, 0, [1]);
+    const [e] = log.events();
+    assert.equal(e.fields.length, 4);
+    assert.equal(e.fields[0], 1);
+    assert.ok(Number.isNaN(e.fields[3]));
+  });
+
+  it('grows past its initial capacity', () => {
+    const log = new StrokeLog(1, 1);
+    for (let i = 0; i < 1000; i++) {
+      log.append(StrokeOp.Fill, i, [0, 0.5, 1, 0, 0, 1]);
+    }
+    const events = log.events();
+    assert.equal(events.length, 1000);
+    assert.equal(events[999].time, 999);
+  });
+
+  it('round-trips through JSON', () => {
+    const log = new StrokeLog(1024, 512);
+    log.append(StrokeOp.Fill, 5, [12, 0.25, 0, 1, 0, 1]);
+    log.append(
+      StrokeOp.Sphere,
+      9,
+      [0.1, 0.2, 0.3, 0.05, 1, 0, 0, 1, 1, 2, 3, 4],
+    );
+
+    const copy = StrokeLog.fromJSON(JSON.stringify(log));
+    assert.equal(copy.width, 1024);
+    assert.equal(copy.height, 512);
+    assert.deepEqual(
+      copy.events().map((e) => [e.op, e.time, ...e.fields]),
+      log.events().map((e) => [e.op, e.time, ...e.fields]),
+    );
+  });
+
+  it('carries the blend mode in one field', () => {
+    const log = new StrokeLog(1, 1);
+    log.append(StrokeOp.Blend, 3, [4]);
+    const [e] = log.events();
+    assert.equal(e.op, StrokeOp.Blend);
+    assert.deepEqual([...e.fields], [4]);
+  });
+
+  it('round-trips smudge and blur dabs', () => {
+    const log = new StrokeLog(64, 64);
+    log.append(StrokeOp.Smudge, 1, [0.1, 0.2, 3, 6, 0.7, 1]);
+    log.append(StrokeOp.Blur, 2, [0.3, 0.4, 5, 8, 0.5]);
+    const events = StrokeLog.fromJSON(log.toJSON()).events();
+    assert.deepEqual(
+      events.map((e) => e.fields.length),
+      [6, 5],
+    );
+    assert.ok(Math.abs(events[0].fields[4] - 0.7) < 1e-6);
+    assert.equal(events[1].fields[3], 8);
+  });
+
+  it('rejects unknown versions and corrupt streams', () => {
+    const json = new StrokeLog(1, 1).toJSON();
+    assert.throws(
+      () => StrokeLog.fromJSON({ ...json, version: 2 as 1 }),
+      /unsupported version/,
+    );
+    const bad = new Float32Array([42, 0]);
+    const data = btoa(String.fromCharCode(...new Uint8Array(bad.buffer)));
+    assert.throws(() => StrokeLog.fromJSON({ ...json, data }), /bad op/);
+  });
+});
+
+describe('StrokeRecorder', () => {
+  it('writes channels and blend mode only when they change', () => {
+    const log = new StrokeLog(1, 1);
+    const recorder = new StrokeRecorder(log, 100);
+    const state = {
+      channelValues: { color: true },
+      blendMode: 'normal' as const,
+    };
+    recorder.record(StrokeOp.Begin, 100, state);
+    recorder.record(StrokeOp.Fill, 110, state, [1, 1, 0, 0, 0, 1]);
+    recorder.record(StrokeOp.Fill, 120, state, [2, 1, 0, 0, 0, 1]);
+    recorder.record(StrokeOp.Fill, 130, { ...state, blendMode: 'glaze' });
+    recorder.record(StrokeOp.End, 140, state);
+
+    const events = log.events();
+    assert.deepEqual(
+      events.map((e) => e.op),
+      [
+        StrokeOp.Begin,
+        StrokeOp.Channels,
+        StrokeOp.Blend,
+        StrokeOp.Fill,
+        StrokeOp.Fill,
+        StrokeOp.Blend,
+        StrokeOp.Fill,
+        StrokeOp.End,
+      ],
+    );
+    assert.deepEqual(
+      events.map((e) => e.time),
+      [0, 10, 10, 10, 20, 30, 30, 40],
+    );
+  });
+
+  it('round-trips channel values', () => {
+    const values = { color: false, roughness: 0.25 };
+    const fields = encodeChannels(values);
+    assert.equal(fields.length, 4);
+    assert.deepEqual(decodeChannels(fields), values);
+    assert.deepEqual(decodeChannels(encodeChannels({})), { color: true });
+  });
+});
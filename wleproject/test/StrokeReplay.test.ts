@@ -0,0 +1,91 @@
+// StrokeReplay.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrokeLog, StrokeOp } from '../js/StrokeLog.js';
+import {
+  StrokeReplay,
+  StrokeTarget,
+  applyStrokeEvent,
+} from '../js/StrokeReplay.js';
+
+// events at 0, 100 and 5100 ms: a long pause before the last one
+function pausedLog() {
+  const log = new StrokeLog(1, 1);
+  log.append(StrokeOp.Begin, 0);
+  log.append(StrokeOp.Fill, 100, [1, 1, 0, 0, 0, 1]);
+  log.append(StrokeOp.End, 5100);
+  return log;
+}
+
+// records the calls it receives
+function recordingTarget() {
+  const calls: unknown[][] = [];
+  const target: StrokeTarget = {
+    channelValues: {},
+    blendMode: 'normal',
+    beginStroke: () => calls.push(['begin']),
+    endStroke: () => calls.push(['end']),
+    paintAtUV: (...args) => calls.push(['dab', ...args]),
+    smudgeAtUV: (...args) => calls.push(['smudge', ...args]),
+    blurAtUV: (...args) => calls.push(['blur', ...args]),
+    paintInSphere: (center, ...args) =>
+      calls.push(['sphere', Array.from(center), ...args]),
+    fillRegion: (...args) => calls.push(['fill', ...args]),
+  };
+  return { target, calls };
+}
+
+describe('StrokeReplay', () => {
+  it('applies the events due at the scaled clock', () => {
+    const replay = new StrokeReplay(pausedLog(), 0);
+    const applied: number[] = [];
+    const apply = (e: { time: number }) => applied.push(e.time) > 0;
+    replay.advance(25, 2, 0, apply);
+    assert.deepEqual(applied, [0]);
+    replay.advance(50, 2, 0, apply);
+    assert.deepEqual(applied, [0, 100]);
+    assert.ok(!replay.done);
+    replay.advance(50, 2, 0, apply, true);
+    assert.ok(replay.done);
+  });
+
+  it('shortens pauses to maxGap', () => {
+    const replay = new StrokeReplay(pausedLog(), 0);
+    let count = 0;
+    replay.advance(1200, 1, 1000, () => ++count > 0);
+    // 100 ms of drawing plus the pause cut to 1000 ms
+    assert.equal(count, 3);
+    assert.ok(replay.done);
+  });
+
+  it('stops when apply returns false', () => {
+    const replay = new StrokeReplay(pausedLog(), 0);
+    replay.advance(0, 1, 0, () => false, true);
+    assert.equal(replay.index, 1);
+  });
+});
+
+describe('applyStrokeEvent', () => {
+  it('repeats the recorded calls with scaled radii', () => {
+    const log = new StrokeLog(1, 1);
+    log.append(StrokeOp.Begin, 0);
+    log.append(StrokeOp.Channels, 0, [1, 0.5, NaN, NaN]);
+    log.append(StrokeOp.Blend, 0, [1]);
+    log.append(StrokeOp.Dab, 0, [0.5, 0.25, 3, 8, 1, 0, 0, 1, 0, 0, 0]);
+    log.append(StrokeOp.Sphere, 0, [1, 2, 3, 0.5, 0.7, 0, 1, 0, 1, 0, 0, 0]);
+    log.append(StrokeOp.Fill, 0, [4, 0.5, 0, 0, 1, 1]);
+    log.append(StrokeOp.End, 0);
+
+    const { target, calls } = recordingTarget();
+    for (const e of log.events()) applyStrokeEvent(target, e, 2);
+    assert.deepEqual(target.channelValues, { color: true, roughness: 0.5 });
+    assert.equal(target.blendMode, 'erase');
+    assert.deepEqual(calls, [
+      ['begin'],
+      ['dab', 0.5, 0.25, 16, [1, 0, 0, 1], 3],
+      ['sphere', [1, 2, 3], 0.5, [0, 1, 0, 1], Math.fround(0.7)],
+      ['fill', 4, [0, 0, 1, 1], 0.5],
+      ['end'],
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+// UVUnwrap.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { unwrapMesh } from '../js/UVUnwrap.js';
+
+// unit cube, 8 shared corners, outward-facing triangles
+const CUBE_POSITIONS = new Float32Array([
+  0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1,
+]);
+const CUBE_INDICES = [
+  0, 2, 1, 0, 3, 2, 4, 5, 6, 4, 6, 7, 0, 1, 5, 0, 5, 4, 3, 7, 6, 3, 6, 2, 0, 4,
+  7, 0, 7, 3, 1, 2, 6, 1, 6, 5,
+];
+
+// triangles grouped by shared output vertices (charts don't share any)
+function charts(indices: Uint32Array) {
+  const parent = new Map<number, number>();
+  const find = (i: number): number => {
+    while (parent.has(i) && parent.get(i) !== i) i = parent.get(i)!;
+    return i;
+  };
+  for (let t = 0; t < indices.length / 3; t++) {
+    const root = find(indices[t * 3]);
+    parent.set(root, root);
+    for (let k = 1; k < 3; k++) parent.set(find(indices[t * 3 + k]), root);
+  }
+  const groups = new Map<number, number[]>();
+  for (let t = 0; t < indices.length / 3; t++) {
+    const root = find(indices[t * 3]);
+    groups.set(root, [...(groups.get(root) ?? []), t]);
+  }
+  return [...groups.values()];
+}
+
+describe('unwrapMesh', () => {
+  it('keeps the triangles and points back at their source vertices', () => {
+    const result = unwrapMesh(CUBE_POSITIONS, CUBE_INDICES);
+    assert.equal(result.indices.length, CUBE_INDICES.length);
+    for (let i = 0; i < CUBE_INDICES.length; i++) {
+      assert.equal(result.sourceVertex[result.indices[i]], CUBE_INDICES[i]);
+    }
+    assert.equal(result.uvs.length, result.sourceVertex.length * 2);
+    assert.ok(result.uvs.every((c) => c >= 0 && c <= 1));
+  });
+
+  it('gives each cube face its own chart, without overlaps', () => {
+    const result = unwrapMesh(CUBE_POSITIONS, CUBE_INDICES);
+    assert.equal(result.chartCount, 6);
+    const groups = charts(result.indices);
+    assert.equal(groups.length, 6);
+
+    const uvs = result.uvs;
+    const boxes = groups.map((tris) => {
+      const box = [Infinity, Infinity, -Infinity, -Infinity];
+      for (const t of tris) {
+        for (let k = 0; k < 3; k++) {
+          const v = result.indices[t * 3 + k];
+          box[0] = Math.min(box[0], uvs[v * 2]);
+          box[1] = Math.min(box[1], uvs[v * 2 + 1]);
+          box[2] = Math.max(box[2], uvs[v * 2]);
+          box[3] = Math.max(box[3], uvs[v * 2 + 1]);
+        }
+      }
+      return box;
+    });
+    for (let a = 0; a < boxes.length; a++) {
+      for (let b = a + 1; b < boxes.length; b++) {
+        const [ax0, ay0, ax1, ay1] = boxes[a];
+        const [bx0, by0, bx1, by1] = boxes[b];
+        const apart = ax1 <= bx0 || bx1 <= ax0 || ay1 <= by0 || by1 <= ay0;
+        assert.ok(apart, `charts ${a} and ${b} overlap`);
+      }
+    }
+  });
+
+  it('maps flat charts without distortion', () => {
+    const result = unwrapMesh(CUBE_POSITIONS, CUBE_INDICES);
+    const { uvs, indices, sourceVertex } = result;
+    // one texel-per-unit scale for every edge
+    const ratios: number[] = [];
+    for (let t = 0; t < indices.length / 3; t++) {
+      for (let k = 0; k < 3; k++) {
+        const a = indices[t * 3 + k],
+          b = indices[t * 3 + ((k + 1) % 3)];
+        const uv = Math.hypot(
+          uvs[a * 2] - uvs[b * 2],
+          uvs[a * 2 + 1] - uvs[b * 2 + 1],
+        );
+        const pa = sourceVertex[a] * 3,
+          pb = sourceVertex[b] * 3;
+        const len = Math.hypot(
+          CUBE_POSITIONS[pa] - CUBE_POSITIONS[pb],
+          CUBE_POSITIONS[pa + 1] - CUBE_POSITIONS[pb + 1],
+          CUBE_POSITIONS[pa + 2] - CUBE_POSITIONS[pb + 2],
+        );
+        ratios.push(uv / len);
+      }
+    }
+    const min = Math.min(...ratios),
+      max = Math.max(...ratios);
+    assert.ok(min > 0);
+    assert.ok(max / min < 1.001);
+  });
+
+  it('splits a bent strip at angles over maxChartAngle', () => {
+    // two quads folded 30 degrees along x = 1
+    const c = Math.cos(Math.PI / 6),
+      s = Math.sin(Math.PI / 6);
+    const positions = new Float32Array(18);
+    positions.set([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+    positions.set([1 + c, 0, s, 1 + c, 1, s], 12);
+    const indices = [0, 1, 2, 0, 2, 3, 1, 4, 5, 1, 5, 2];
+    assert.equal(unwrapMesh(positions, indices).chartCount, 1);
+    assert.equal(
+      unwrapMesh(positions, indices, { maxChartAngle: 20 }).chartCount,
+      2,
+    );
+  });
+});
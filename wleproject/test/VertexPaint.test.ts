@@ -0,0 +1,77 @@
+// VertexPaint.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaintMesh } from '../js/PaintCore.js';
+import { PaintHistory } from '../js/PaintHistory.js';
+import { VertexPaint } from '../js/VertexPaint.js';
+
+// unit quad in the XY plane, two triangles sharing the diagonal 0-2
+function quad() {
+  const positions = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+  return new PaintMesh(positions, null, [0, 1, 2, 0, 2, 3]);
+}
+
+function white(vertexCount: number) {
+  return new VertexPaint(new Float32Array(vertexCount * 4).fill(1));
+}
+
+const RED = [1, 0, 0, 1];
+
+describe('VertexPaint', () => {
+  it('paints vertices inside the sphere and undoes them', () => {
+    const paint = white(4);
+    const history = new PaintHistory();
+    const painted = paint.paintSphere(quad(), [0, 0, 0], 0.5, 1, RED, history, {
+      mode: 'normal',
+    });
+    assert.ok(painted);
+    assert.deepEqual([...paint.colors.subarray(0, 4)], RED);
+    assert.deepEqual([...paint.colors.subarray(4, 8)], [1, 1, 1, 1]);
+    assert.deepEqual(paint.takeChanged(), [0, 0]);
+    assert.equal(paint.takeChanged(), null);
+
+    history.undo();
+    assert.deepEqual([...paint.colors.subarray(0, 4)], [1, 1, 1, 1]);
+  });
+
+  it('leaves protected vertices alone', () => {
+    const paint = white(4);
+    const protection = new Float32Array([1, 0, 0.5, 0]);
+    paint.fillTriangles(quad().indices, [0], RED, new PaintHistory(), {
+      mode: 'normal',
+      protection,
+    });
+    assert.deepEqual([...paint.colors.subarray(0, 4)], [1, 1, 1, 1]);
+    assert.deepEqual([...paint.colors.subarray(4, 8)], RED);
+    // half protected: half the paint
+    assert.equal(paint.colors[2 * 4 + 1], 0.5);
+    assert.deepEqual([...paint.colors.subarray(12, 16)], [1, 1, 1, 1]);
+    assert.deepEqual(paint.takeChanged(), [1, 2]);
+  });
+
+  it('caps glaze per stroke and starts over with the next one', () => {
+    const paint = white(4);
+    const history = new PaintHistory();
+    const half = [1, 0, 0, 0.5];
+    const glaze = { mode: 'glaze' as const };
+    history.beginStroke();
+    paint.fillTriangles(quad().indices, [0], half, history, glaze);
+    const once = paint.colors[1];
+    paint.fillTriangles(quad().indices, [0], half, history, glaze);
+    history.endStroke();
+    assert.equal(paint.colors[1], once);
+
+    paint.fillTriangles(quad().indices, [0], half, history, glaze);
+    assert.ok(paint.colors[1] < once);
+  });
+
+  it('interpolates colors and reloads the initial ones', () => {
+    const paint = white(4);
+    paint.colors.set(RED, 4);
+    const c = paint.colorAt(quad().indices, 0, [0.5, 0.5, 0]);
+    assert.deepEqual(c, [1, 0.5, 0.5, 1]);
+    paint.load();
+    assert.deepEqual([...paint.colors], new Array(16).fill(1));
+    assert.deepEqual(paint.takeChanged(), [0, 3]);
+  });
+});